@@ -7,7 +7,8 @@ import { loadConfig as loadServerConfig } from './src/core/server/config.js';
  * Main entry point for the MCP Storage Server.
  * Server mode is determined by the MCP_TRANSPORT_MODE environment variable:
  * - 'stdio': Starts the server in stdio mode (default)
- * - 'http': Starts the server in HTTP mode with SSE transport
+ * - 'sse': Starts the server in HTTP mode with the legacy SSE transport
+ * - 'http': Starts the server in HTTP mode with the Streamable HTTP transport
  * - 'rest': Starts the server in REST mode (MCP.so Cloud)
  */
 async function main() {
@@ -4,6 +4,8 @@
  */
 
 import { ethers } from 'ethers';
+import { send } from './client.js';
+import { RetryOptions, withRetry } from './retry.js';
 
 export interface AuthConfig {
     apiBaseUrl: string;
@@ -11,6 +13,7 @@ export interface AuthConfig {
     address?: string;
     chainId?: number;
     privateKey?: string; // For signing messages
+    retry?: RetryOptions; // Retries of idempotent requests failing with transient errors
 }
 
 export interface LoginResponse {
@@ -36,17 +39,12 @@ export async function getChallenge(config: AuthConfig): Promise<string> {
         url.searchParams.set('chainid', config.chainId.toString());
     }
 
-    const response = await fetch(url.toString(), {
+    const response = await withRetry(() => send('Failed to get challenge', url, {
         method: 'GET',
         headers: {
             Origin: config.origin,
         },
-    });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to get challenge: ${response.status} ${response.statusText} - ${errorText}`);
-    }
+    }), config.retry);
 
     return await response.text();
 }
@@ -61,7 +59,7 @@ export async function login(
 ): Promise<LoginResponse> {
     const url = new URL(config.apiBaseUrl + '/login');
 
-    const response = await fetch(url.toString(), {
+    const response = await send('Failed to login', url, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
@@ -72,12 +70,52 @@ export async function login(
         }),
     });
 
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to login: ${response.status} ${response.statusText} - ${errorText}`);
+    return await response.json() as LoginResponse;
+}
+
+/**
+ * Get a new access token using the refresh token returned by /login
+ */
+export async function refreshAccessToken(config: AuthConfig, refreshToken: string): Promise<AuthTokens> {
+    const url = new URL(config.apiBaseUrl + '/refresh');
+
+    const response = await withRetry(() => send('Failed to refresh token', url, {
+        method: 'GET',
+        headers: {
+            Authorization: `Bearer ${refreshToken}`,
+            Origin: config.origin,
+        },
+    }), config.retry);
+
+    const result = await response.json() as Partial<AuthTokens>;
+    if (!result.accessToken) {
+        throw new Error('Failed to refresh token: response does not contain an access token');
     }
 
-    return await response.json() as LoginResponse;
+    return {
+        accessToken: result.accessToken,
+        // The refresh token is only rotated by some deployments
+        refreshToken: result.refreshToken || refreshToken,
+    };
+}
+
+/**
+ * Read the expiry time of a JWT from its `exp` claim
+ * @param token - JWT access or refresh token
+ * @returns Expiry time in milliseconds since epoch, or undefined if the token carries no expiry
+ */
+export function getTokenExpiry(token: string): number | undefined {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        return undefined;
+    }
+
+    try {
+        const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+        return typeof payload.exp === 'number' ? payload.exp * 1000 : undefined;
+    } catch {
+        return undefined;
+    }
 }
 
 /**
@@ -117,6 +155,20 @@ export async function signMessage(privateKey: string | undefined, message: strin
     }
 }
 
+/**
+ * Recover the address that signed a message (EIP-191 standard)
+ * @param message - The signed message
+ * @param signature - Signature in hex format (0x-prefixed)
+ * @returns Checksummed Ethereum address of the signer
+ */
+export function recoverSigner(message: string, signature: string): string {
+    try {
+        return ethers.verifyMessage(message, signature);
+    } catch (error) {
+        throw new Error(`Invalid signature: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 /**
  * Authenticate and get tokens
  * If message and signature are provided, use them directly
@@ -0,0 +1,113 @@
+import { Blob } from 'node:buffer';
+import { createHash } from 'node:crypto';
+import { CID } from 'multiformats/cid';
+import * as raw from 'multiformats/codecs/raw';
+import * as Digest from 'multiformats/hashes/digest';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { IntegrityError } from './errors.js';
+
+/**
+ * MEFS CID Module
+ * Computes CIDs of content locally and checks content against the CID it is stored under.
+ * Only CIDs addressing the raw bytes (CIDv1, raw codec, sha2-256) can be checked this way,
+ * CIDs of chunked DAGs (e.g. CIDv0 "Qm...") need the whole DAG and are not verified.
+ */
+
+/**
+ * Create the CIDv1 (raw codec) of content from its SHA-256 digest
+ * @param digest - The SHA-256 digest of the content
+ * @returns The CID in its default base32 form
+ */
+export function cidFromSha256(digest: Uint8Array): string {
+    return CID.createV1(raw.code, Digest.create(sha256.code, digest)).toString();
+}
+
+/**
+ * Compute the CIDv1 (raw codec, sha2-256) of content
+ * Blobs are hashed as a stream, without reading them into memory
+ * @param data - The content
+ * @returns The CID in its default base32 form
+ */
+export async function computeCid(data: Uint8Array | Blob): Promise<string> {
+    const hash = createHash('sha256');
+    if (data instanceof Blob) {
+        for await (const chunk of data.stream()) {
+            hash.update(chunk);
+        }
+    } else {
+        hash.update(data);
+    }
+    return cidFromSha256(hash.digest());
+}
+
+/**
+ * Get the SHA-256 digest a CID commits to, if the CID addresses raw bytes
+ */
+function rawSha256Digest(cid: string): Uint8Array | undefined {
+    let parsed: CID;
+    try {
+        parsed = CID.parse(cid);
+    } catch {
+        return undefined;
+    }
+    if (parsed.code !== raw.code || parsed.multihash.code !== sha256.code) {
+        return undefined;
+    }
+    return parsed.multihash.digest;
+}
+
+/**
+ * Check whether content can be verified locally against a CID
+ */
+export function isVerifiableCid(cid: string): boolean {
+    return rawSha256Digest(cid) !== undefined;
+}
+
+/**
+ * Check that a SHA-256 digest matches the CID, whatever base the CID is encoded in
+ */
+function assertDigest(cid: string, expected: Uint8Array, digest: Uint8Array): void {
+    if (Buffer.compare(Buffer.from(expected), Buffer.from(digest)) !== 0) {
+        throw new IntegrityError(cid, cidFromSha256(digest));
+    }
+}
+
+/**
+ * Verify content against its CID
+ * Content of CIDs that cannot be verified locally is accepted as is
+ * @param cid - The CID the content is stored under
+ * @param data - The content
+ */
+export async function verifyCid(cid: string, data: Uint8Array | Blob): Promise<void> {
+    const expected = rawSha256Digest(cid);
+    if (!expected) {
+        return;
+    }
+    const actual = CID.parse(await computeCid(data)).multihash.digest;
+    assertDigest(cid, expected, actual);
+}
+
+/**
+ * Create a stream passing content through and verifying it against its CID at the end.
+ * The stream errors with an IntegrityError instead of closing when the content does not match.
+ * Content of CIDs that cannot be verified locally is passed through unchecked.
+ * @param cid - The CID the content is stored under
+ */
+export function createCidVerifyStream(cid: string): TransformStream<Uint8Array, Uint8Array> {
+    const expected = rawSha256Digest(cid);
+    const hash = createHash('sha256');
+
+    return new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            if (expected) {
+                hash.update(chunk);
+            }
+            controller.enqueue(chunk);
+        },
+        flush() {
+            if (expected) {
+                assertDigest(cid, expected, hash.digest());
+            }
+        },
+    });
+}
@@ -1,4 +1,7 @@
 import { Blob } from 'node:buffer';
+import { createCidVerifyStream, isVerifiableCid, verifyCid } from './cid.js';
+import { AuthError, createNetworkError, createResponseError, FileTooLargeError, MefsApiError, NotFoundError } from './errors.js';
+import { RetryOptions, withRetry } from './retry.js';
 
 /**
  * MEFS Client Module
@@ -8,30 +11,128 @@ import { Blob } from 'node:buffer';
 export interface ApiConfig {
     apiBaseUrl: string;
     accessToken: string;
+    signal?: AbortSignal; // Aborts the requests, e.g. when the tool call is cancelled
+    retry?: RetryOptions; // Retries of idempotent requests failing with transient errors
 }
 
 export interface UploadOptions {
     key?: string; // Encryption key
     public?: boolean; // Whether file is public
     user?: string; // User identifier
+    onProgress?: (uploaded: number, total: number) => void; // Bytes of the file sent so far
 }
 
 export interface UploadResult {
     Mid: string; // Content ID (CID)
 }
 
+export interface DownloadOptions {
+    maxBytes?: number; // Abort the download once the file is larger than this
+    offset?: number; // Only download the file from this byte on
+    length?: number; // Only download this many bytes
+    public?: boolean; // Whether the file is public, only public files are checked against their CID
+    onProgress?: (received: number, total?: number) => void; // Bytes received so far, and the body size if known
+}
+
 export interface DownloadResult {
     data: Uint8Array;
     filename: string;
     contentType?: string;
+    totalSize?: number; // Size of the whole file, if the gateway reports it
+}
+
+export interface ListOptions {
+    prefix?: string; // Only files whose name starts with this prefix
+    contentType?: string; // Exact MIME type, or a family such as image/*
+    since?: Date; // Only files uploaded at or after this time
+    until?: Date; // Only files uploaded before this time
+    offset?: number; // Number of matching files to skip
+    limit?: number; // Maximum number of files to return
+}
+
+export interface FileInfo {
+    cid: string;
+    filename: string;
+    size: number;
+    contentType?: string;
+    public: boolean;
+    uploadedAt?: string; // ISO 8601
+}
+
+export interface ListResult {
+    files: FileInfo[];
+    total: number; // Number of files matching the filters
+    nextOffset?: number; // Offset of the next page, if there is one
+}
+
+export interface FileStat {
+    filename: string;
+    contentType?: string;
+    size?: number; // From Content-Length, if the gateway sends it
+}
+
+export interface DownloadStreamResult {
+    body: ReadableStream<Uint8Array>;
+    filename: string;
+    contentType?: string;
+    size?: number; // Size of the body, if the gateway reports it
+    totalSize?: number; // Size of the whole file, if the gateway reports it
+}
+
+/**
+ * Count the bytes read from a stream, reporting the running total
+ */
+function trackProgress(body: ReadableStream<Uint8Array>, onProgress: (transferred: number) => void): ReadableStream<Uint8Array> {
+    let transferred = 0;
+    return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            transferred += chunk.byteLength;
+            onProgress(transferred);
+            controller.enqueue(chunk);
+        },
+    }));
+}
+
+/**
+ * Send a request to the gateway, turning network failures and error responses into classified errors
+ * @param action - Prefix of the error message, e.g. "Failed to download file"
+ */
+export async function send(action: string, url: URL, init: RequestInit, config: Pick<ApiConfig, 'signal'> = {}): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(url.toString(), { ...init, signal: config.signal });
+    } catch (error) {
+        // A cancelled request keeps its abort error
+        if (config.signal?.aborted) {
+            throw error;
+        }
+        throw createNetworkError(action, error);
+    }
+
+    if (!response.ok) {
+        throw await createResponseError(action, response);
+    }
+    return response;
+}
+
+/**
+ * Check the CID returned for an upload against the CID of the content, computed locally.
+ * Only public files are checked, the gateway encrypts all others, with the shared key if none is given.
+ */
+async function verifyUpload(result: UploadResult, file: Blob, options: UploadOptions): Promise<UploadResult> {
+    if (options.public) {
+        await verifyCid(result.Mid, file);
+    }
+    return result;
 }
 
 /**
  * Upload file to MEFS
+ * With onProgress the multipart body is streamed, so the bytes fetch has sent can be counted
  */
 export async function uploadFile(
     config: ApiConfig,
-    file: Uint8Array,
+    file: Uint8Array | Blob,
     filename: string,
     options: UploadOptions = {}
 ): Promise<UploadResult> {
@@ -41,7 +142,10 @@ export async function uploadFile(
     const formData = new FormData();
 
     // Create a File-like object for Node.js
-    const blob = new Blob([file as Uint8Array<ArrayBuffer>], { type: 'application/octet-stream' });
+    // Blobs (e.g. from fs.openAsBlob) are streamed by fetch without being read into memory
+    const blob = file instanceof Blob
+        ? file
+        : new Blob([file as Uint8Array<ArrayBuffer>], { type: 'application/octet-stream' });
     formData.append('file', blob, filename);
 
     if (options.key) {
@@ -54,31 +158,202 @@ export async function uploadFile(
         formData.append('user', options.user);
     }
 
-    const response = await fetch(url.toString(), {
+    let body: FormData | ReadableStream<Uint8Array> = formData;
+    const headers: Record<string, string> = {
+        Authorization: `Bearer ${config.accessToken}`,
+        // Don't set Content-Type header, let fetch set it with boundary
+    };
+
+    const { onProgress } = options;
+    if (onProgress) {
+        // Encode the form up front, fetch only sets the boundary itself for FormData bodies
+        const encoded = new Response(formData);
+        headers['Content-Type'] = encoded.headers.get('content-type')!;
+        // The part headers around the file are counted too, so cap the progress at the file size
+        body = trackProgress(encoded.body!, sent => onProgress(Math.min(sent, blob.size), blob.size));
+    }
+
+    // Uploads are not idempotent, so they are not retried
+    const response = await send('Failed to upload file', url, {
+        method: 'POST',
+        headers,
+        body,
+        ...(body instanceof ReadableStream && { duplex: 'half' as const }),
+    }, config);
+
+    return verifyUpload(await response.json() as UploadResult, blob, options);
+}
+
+/** Size of the chunks sent by uploadFileChunked, files up to this size are sent in one request */
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+export interface UploadSession {
+    uploadId: string;
+    chunkSize: number;
+    uploadedChunks: number[]; // Indexes of the chunks the gateway has received
+}
+
+export interface ChunkedUploadOptions extends UploadOptions {
+    chunkSize?: number; // Size of each chunk in bytes (default: DEFAULT_CHUNK_SIZE)
+    session?: UploadSession; // Resume this upload session instead of starting a new one
+    onSession?: (session: UploadSession) => void | Promise<void>; // Called when the session starts and after every chunk
+}
+
+/**
+ * Start a chunked upload session
+ */
+async function startUploadSession(
+    config: ApiConfig,
+    filename: string,
+    size: number,
+    chunkSize: number,
+    options: UploadOptions
+): Promise<UploadSession> {
+    const url = new URL(config.apiBaseUrl + '/mefs/upload');
+
+    const response = await send('Failed to start upload', url, {
         method: 'POST',
         headers: {
             Authorization: `Bearer ${config.accessToken}`,
-            // Don't set Content-Type header, let fetch set it with boundary
+            'Content-Type': 'application/json',
         },
-        body: formData,
-    });
+        body: JSON.stringify({
+            name: filename,
+            size,
+            chunkSize,
+            key: options.key,
+            public: options.public,
+            user: options.user,
+        }),
+    }, config);
 
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to upload file: ${response.status} ${response.statusText} - ${errorText}`);
+    const { UploadId } = await response.json() as { UploadId: string };
+    return { uploadId: UploadId, chunkSize, uploadedChunks: [] };
+}
+
+/**
+ * Send one chunk, retrying network errors and gateway errors
+ * Chunks are stored by index, so sending one again is idempotent
+ */
+async function putChunk(
+    config: ApiConfig,
+    uploadId: string,
+    index: number,
+    chunk: Blob
+): Promise<void> {
+    const url = new URL(config.apiBaseUrl + `/mefs/upload/${uploadId}/${index}`);
+    const data = new Uint8Array(await chunk.arrayBuffer());
+
+    const response = await withRetry(() => send(`Failed to upload chunk ${index}`, url, {
+        method: 'PUT',
+        headers: {
+            Authorization: `Bearer ${config.accessToken}`,
+            'Content-Type': 'application/octet-stream',
+        },
+        body: data,
+    }, config), config.retry, config.signal);
+    await response.body?.cancel();
+}
+
+/**
+ * Send the chunks the gateway has not received yet and complete the upload
+ */
+async function sendChunks(
+    config: ApiConfig,
+    blob: Blob,
+    session: UploadSession,
+    options: ChunkedUploadOptions
+): Promise<UploadResult> {
+    const chunkCount = Math.max(1, Math.ceil(blob.size / session.chunkSize));
+    const uploaded = new Set(session.uploadedChunks);
+    const chunkBytes = (index: number) => Math.min(session.chunkSize, blob.size - index * session.chunkSize);
+
+    let uploadedBytes = [...uploaded].reduce((total, index) => total + chunkBytes(index), 0);
+    options.onProgress?.(uploadedBytes, blob.size);
+
+    for (let index = 0; index < chunkCount; index++) {
+        if (uploaded.has(index)) {
+            continue;
+        }
+
+        const start = index * session.chunkSize;
+        await putChunk(config, session.uploadId, index, blob.slice(start, start + session.chunkSize));
+
+        uploaded.add(index);
+        uploadedBytes += chunkBytes(index);
+        await options.onSession?.({ ...session, uploadedChunks: [...uploaded].sort((a, b) => a - b) });
+        options.onProgress?.(uploadedBytes, blob.size);
     }
 
+    const url = new URL(config.apiBaseUrl + `/mefs/upload/${session.uploadId}/complete`);
+    const response = await send('Failed to complete upload', url, {
+        method: 'POST',
+        headers: {
+            Authorization: `Bearer ${config.accessToken}`,
+        },
+    }, config);
+
     return await response.json() as UploadResult;
 }
 
 /**
- * Download file from MEFS
+ * Upload a large file to MEFS in chunks
+ * Failed chunks are retried, and an interrupted upload can be resumed by passing the last session
+ * reported through onSession, so only the missing chunks are sent again.
+ * Gateways without chunked uploads (404 or 405 when starting the session) get the file in a single request.
  */
-export async function downloadFile(
+export async function uploadFileChunked(
+    config: ApiConfig,
+    file: Uint8Array | Blob,
+    filename: string,
+    options: ChunkedUploadOptions = {}
+): Promise<UploadResult> {
+    const blob = file instanceof Blob
+        ? file
+        : new Blob([file as Uint8Array<ArrayBuffer>], { type: 'application/octet-stream' });
+
+    if (options.session) {
+        try {
+            return await verifyUpload(await sendChunks(config, blob, options.session, options), blob, options);
+        } catch (error) {
+            // The gateway no longer knows the session, start over
+            if (!(error instanceof NotFoundError)) {
+                throw error;
+            }
+        }
+    }
+
+    let session: UploadSession;
+    try {
+        session = await startUploadSession(
+            config,
+            filename,
+            blob.size,
+            options.chunkSize ?? DEFAULT_CHUNK_SIZE,
+            options
+        );
+    } catch (error) {
+        if (error instanceof MefsApiError && (error.status === 404 || error.status === 405)) {
+            const { key, public: isPublic, user, onProgress } = options;
+            return uploadFile(config, blob, filename, { key, public: isPublic, user, onProgress });
+        }
+        throw error;
+    }
+    await options.onSession?.(session);
+    return verifyUpload(await sendChunks(config, blob, session, options), blob, options);
+}
+
+/**
+ * Send the download request for a CID and check the response status
+ * A HEAD request returns the same headers without the file content
+ */
+async function requestDownload(
     config: ApiConfig,
     cid: string,
-    key?: string
-): Promise<DownloadResult> {
+    key?: string,
+    method: 'GET' | 'HEAD' = 'GET',
+    range?: string
+): Promise<Response> {
     const url = new URL(config.apiBaseUrl + `/mefs/${cid}`);
 
     // According to API docs, key can be sent as query string or form field
@@ -87,20 +362,22 @@ export async function downloadFile(
         url.searchParams.set('key', key);
     }
 
-    const response = await fetch(url.toString(), {
-        method: 'GET',
+    const action = method === 'HEAD' ? 'stat' : 'download';
+    return withRetry(() => send(`Failed to ${action} file`, url, {
+        method,
         headers: {
             Authorization: `Bearer ${config.accessToken}`,
+            ...(range && { Range: range }),
         },
-    });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to download file: ${response.status} ${response.statusText} - ${errorText}`);
-    }
+    }, config), config.retry, config.signal);
+}
 
-    const contentType = response.headers.get('content-type') || undefined;
-    const contentDisposition = response.headers.get('content-disposition') || '';
+/**
+ * Extract file metadata from the download response headers
+ */
+function parseFileHeaders(headers: Headers): { filename: string; contentType?: string; size?: number } {
+    const contentType = headers.get('content-type') || undefined;
+    const contentDisposition = headers.get('content-disposition') || '';
     let filename = 'unknown';
 
     // Extract filename from Content-Disposition header
@@ -109,13 +386,315 @@ export async function downloadFile(
         filename = filenameMatch[1];
     }
 
-    const arrayBuffer = await response.arrayBuffer();
+    const contentLength = headers.get('content-length');
+    const size = contentLength ? parseInt(contentLength, 10) : undefined;
+
+    return {
+        filename,
+        contentType,
+        size: size !== undefined && !isNaN(size) ? size : undefined,
+    };
+}
+
+/**
+ * Get the response body, enforcing the size limit if one is set.
+ * The Content-Length header is checked first, the stream is aborted if more data arrives than the limit allows.
+ */
+async function limitBody(
+    body: ReadableStream<Uint8Array>,
+    size: number | undefined,
+    maxBytes: number | undefined
+): Promise<ReadableStream<Uint8Array>> {
+    if (maxBytes === undefined) {
+        return body;
+    }
+
+    if (size !== undefined && size > maxBytes) {
+        await body.cancel();
+        throw new FileTooLargeError(maxBytes, size);
+    }
+
+    let received = 0;
+    return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            received += chunk.byteLength;
+            if (received > maxBytes) {
+                // Erroring the transform cancels the response body and closes the connection
+                controller.error(new FileTooLargeError(maxBytes, received));
+                return;
+            }
+            controller.enqueue(chunk);
+        },
+    }));
+}
+
+/**
+ * Build the Range header for a partial download
+ */
+function rangeHeader(options: DownloadOptions): string | undefined {
+    if (options.offset === undefined && options.length === undefined) {
+        return undefined;
+    }
+    const start = options.offset ?? 0;
+    const end = options.length !== undefined ? start + options.length - 1 : '';
+    return `bytes=${start}-${end}`;
+}
+
+/**
+ * Get the size of the whole file from a Content-Range header such as "bytes 0-99/1234"
+ */
+function parseTotalSize(contentRange: string | null): number | undefined {
+    const match = contentRange?.match(/\/(\d+)$/);
+    return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Cut a slice out of the whole file, for gateways that ignore the Range header.
+ * The response body is cancelled as soon as the slice is complete.
+ */
+function sliceBody(body: ReadableStream<Uint8Array>, offset: number, length?: number): ReadableStream<Uint8Array> {
+    const end = length !== undefined ? offset + length : Infinity;
+    let position = 0;
+
+    return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            const start = Math.max(offset - position, 0);
+            const stop = Math.min(end - position, chunk.byteLength);
+            position += chunk.byteLength;
+
+            if (start < stop) {
+                controller.enqueue(chunk.subarray(start, stop));
+            }
+            if (position >= end) {
+                // Terminating the transform cancels the rest of the response body
+                controller.terminate();
+            }
+        },
+    }));
+}
+
+/**
+ * Send the download request and prepare the body, applying the requested range and the size limit
+ */
+async function openDownload(
+    config: ApiConfig,
+    cid: string,
+    key: string | undefined,
+    options: DownloadOptions
+): Promise<DownloadStreamResult> {
+    const range = rangeHeader(options);
+    const response = await requestDownload(config, cid, key, 'GET', range);
+    if (!response.body) {
+        throw new Error('Failed to download file: response has no body');
+    }
+    const { filename, contentType, size: contentLength } = parseFileHeaders(response.headers);
+
+    let body = response.body;
+    let size = contentLength;
+    let totalSize = contentLength;
+    if (range && response.status === 206) {
+        totalSize = parseTotalSize(response.headers.get('content-range'));
+    } else if (range) {
+        // The gateway ignored the Range header and sends the whole file
+        const offset = options.offset ?? 0;
+        body = sliceBody(body, offset, options.length);
+        size = totalSize !== undefined
+            ? Math.max(Math.min(options.length ?? Infinity, totalSize - offset), 0)
+            : undefined;
+    } else if (options.public && isVerifiableCid(cid)) {
+        // The whole file is checked against its CID, the CIDs of encrypted files do not address their content
+        body = body.pipeThrough(createCidVerifyStream(cid));
+    }
+
+    body = await limitBody(body, size, options.maxBytes);
+    const { onProgress } = options;
+    if (onProgress) {
+        body = trackProgress(body, received => onProgress(received, size));
+    }
+
+    return {
+        body,
+        filename,
+        contentType,
+        size,
+        totalSize,
+    };
+}
+
+/**
+ * Download file from MEFS
+ * With offset or length only that part of the file is downloaded
+ */
+export async function downloadFile(
+    config: ApiConfig,
+    cid: string,
+    key?: string,
+    options: DownloadOptions = {}
+): Promise<DownloadResult> {
+    const { body, filename, contentType, totalSize } = await openDownload(config, cid, key, options);
+
+    const arrayBuffer = await new Response(body).arrayBuffer();
     const data = new Uint8Array(arrayBuffer);
 
     return {
         data,
         filename,
         contentType,
+        totalSize,
     };
 }
 
+/**
+ * Download file from MEFS as a stream, without reading the body into memory
+ * With offset or length only that part of the file is downloaded
+ */
+export async function downloadFileStream(
+    config: ApiConfig,
+    cid: string,
+    key?: string,
+    options: DownloadOptions = {}
+): Promise<DownloadStreamResult> {
+    return openDownload(config, cid, key, options);
+}
+
+// Object as returned by the gateway's listobjects endpoint
+interface ObjectInfo {
+    Mid?: string;
+    Cid?: string;
+    Name?: string;
+    Size?: number;
+    ContentType?: string;
+    Public?: boolean;
+    ModTime?: string | number;
+    LastModified?: string | number;
+}
+
+/**
+ * Convert a gateway timestamp (ISO string or unix seconds) to an ISO 8601 string
+ */
+function toIsoTime(value: string | number | undefined): string | undefined {
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    const date = typeof value === 'number' ? new Date(value * 1000) : new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Check whether a MIME type matches a filter, e.g. image/png matches image/png and image/*
+ */
+function matchesContentType(contentType: string | undefined, filter: string): boolean {
+    if (!contentType) {
+        return false;
+    }
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    const expected = filter.trim().toLowerCase();
+    if (expected.endsWith('/*')) {
+        return mimeType.startsWith(expected.slice(0, -1));
+    }
+    return mimeType === expected;
+}
+
+/**
+ * Apply the filters and pagination of the list options to a whole listing
+ */
+export function applyListOptions(files: FileInfo[], options: ListOptions = {}): ListResult {
+    const matching = files.filter(file => {
+        if (options.prefix && !file.filename.startsWith(options.prefix)) {
+            return false;
+        }
+        if (options.contentType && !matchesContentType(file.contentType, options.contentType)) {
+            return false;
+        }
+        if (options.since || options.until) {
+            // Files without an upload time cannot match a date range
+            const uploadedAt = file.uploadedAt ? new Date(file.uploadedAt).getTime() : undefined;
+            if (uploadedAt === undefined) {
+                return false;
+            }
+            if (options.since && uploadedAt < options.since.getTime()) {
+                return false;
+            }
+            if (options.until && uploadedAt >= options.until.getTime()) {
+                return false;
+            }
+        }
+        return true;
+    });
+
+    const offset = options.offset ?? 0;
+    const end = options.limit === undefined ? matching.length : offset + options.limit;
+
+    return {
+        files: matching.slice(offset, end),
+        total: matching.length,
+        nextOffset: end < matching.length ? end : undefined,
+    };
+}
+
+/**
+ * List the files stored by the authenticated account.
+ * The gateway returns the whole listing, filters and pagination are applied to it here.
+ */
+export async function listFiles(
+    config: ApiConfig,
+    options: ListOptions = {}
+): Promise<ListResult> {
+    const url = new URL(config.apiBaseUrl + '/mefs/listobjects');
+
+    const response = await withRetry(() => send('Failed to list files', url, {
+        method: 'GET',
+        headers: {
+            Authorization: `Bearer ${config.accessToken}`,
+        },
+    }, config), config.retry, config.signal);
+
+    const result = await response.json() as { Objects?: ObjectInfo[] | null };
+
+    const files = (result.Objects || []).map((object): FileInfo => ({
+        cid: object.Mid || object.Cid || '',
+        filename: object.Name || 'unknown',
+        size: object.Size || 0,
+        contentType: object.ContentType || undefined,
+        public: object.Public === true,
+        uploadedAt: toIsoTime(object.ModTime ?? object.LastModified),
+    }));
+
+    return applyListOptions(files, options);
+}
+
+/**
+ * Delete (unpin) a file stored by the authenticated account
+ */
+export async function deleteFile(
+    config: ApiConfig,
+    cid: string
+): Promise<void> {
+    const url = new URL(config.apiBaseUrl + `/mefs/${cid}`);
+
+    try {
+        await withRetry(() => send('Failed to delete file', url, {
+            method: 'DELETE',
+            headers: {
+                Authorization: `Bearer ${config.accessToken}`,
+            },
+        }, config), config.retry, config.signal);
+    } catch (error) {
+        if (error instanceof AuthError && error.status === 403) {
+            throw new AuthError(`Failed to delete file: ${cid} belongs to another account`, 403, { cause: error });
+        }
+        throw error;
+    }
+}
+
+/**
+ * Get the metadata of a file from MEFS without downloading its content
+ */
+export async function statFile(
+    config: ApiConfig,
+    cid: string,
+    key?: string
+): Promise<FileStat> {
+    const response = await requestDownload(config, cid, key, 'HEAD');
+    return parseFileHeaders(response.headers);
+}
@@ -1,11 +1,34 @@
 import 'dotenv/config';
+import os from 'node:os';
+import path from 'node:path';
 import { ethers } from 'ethers';
-import { AuthConfig, authenticate, AuthTokens } from './auth.js';
+import { AuthConfig, authenticate, AuthTokens, getTokenExpiry, refreshAccessToken } from './auth.js';
+import { ApiConfig } from './client.js';
+import { isUnauthorizedError } from './errors.js';
 
 export interface MefsConfig extends AuthConfig {
+    keyVaultPath?: string; // File storing the encryption keys of uploaded files
+    uploadJournalPath?: string; // File storing the sessions of interrupted chunked uploads
+    uploadIndexPath?: string; // File mapping the content hashes of uploaded files to their CIDs
+    storageBackend?: 'mefs' | 'local'; // Where files are stored (default: mefs)
+    localStoragePath?: string; // Directory of the local storage backend
+    cachePath?: string; // Directory caching retrieved files
+    cacheMaxBytes?: number; // Size cap of the cache, 0 disables it
+    cacheMetadataTtlMs?: number; // How long cached file names and content types are used before they are revalidated
 }
 
-let cachedTokens: AuthTokens | null = null;
+interface CachedTokens {
+    tokens: AuthTokens;
+    accessTokenExpiresAt?: number; // Milliseconds since epoch, from the JWT exp claim
+    refreshTokenExpiresAt?: number;
+}
+
+// Renew tokens this long before they expire to avoid racing the expiry
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Tokens are cached per wallet address so several identities can be served at once
+const cachedTokens = new Map<string, CachedTokens>();
+const pendingRenewals = new Map<string, Promise<AuthTokens>>();
 
 /**
  * Convert ECDSA hex private key to Ethereum address
@@ -34,6 +57,24 @@ export function privateKeyToAddress(privateKeyHex: string): string {
     }
 }
 
+/**
+ * Read a non-negative integer from an environment variable
+ * Invalid values are reported and replaced by the default, e.g. a typo in a retry limit must not retry forever
+ * @param name - Name of the environment variable
+ * @param defaultValue - Value used when the variable is not set or invalid
+ */
+function readNonNegativeInteger(name: string, defaultValue: number): number {
+    const value = process.env[name]?.trim();
+    if (!value) {
+        return defaultValue;
+    }
+    if (!/^\d+$/.test(value)) {
+        console.warn(`Warning: ${name} must be a non-negative integer, got "${value}". Using the default ${defaultValue}.`);
+        return defaultValue;
+    }
+    return parseInt(value, 10);
+}
+
 /**
  * Load MEFS authentication configuration from environment variables
  */
@@ -42,6 +83,19 @@ export function loadMefsConfig(): MefsConfig {
     const origin = process.env.MEFS_ORIGIN || 'https://memo.io';
     const chainId = process.env.MEFS_CHAIN_ID ? parseInt(process.env.MEFS_CHAIN_ID, 10) : 985;
     const privateKey = process.env.MEFS_PRIVATE_KEY;
+    const keyVaultPath = path.resolve(process.env.MEFS_KEY_VAULT_PATH || path.join(os.homedir(), '.mefs-mcp', 'keys.vault'));
+    const uploadJournalPath = path.resolve(process.env.MEFS_UPLOAD_JOURNAL_PATH || path.join(os.homedir(), '.mefs-mcp', 'uploads.json'));
+    const uploadIndexPath = path.resolve(process.env.MEFS_UPLOAD_INDEX_PATH || path.join(os.homedir(), '.mefs-mcp', 'uploaded.json'));
+    const storageBackend = process.env.MEFS_STORAGE_BACKEND === 'local' ? 'local' : 'mefs';
+    const localStoragePath = path.resolve(process.env.MEFS_LOCAL_STORAGE_PATH || path.join(os.homedir(), '.mefs-mcp', 'storage'));
+    const cachePath = path.resolve(process.env.MEFS_CACHE_DIR || path.join(os.homedir(), '.mefs-mcp', 'cache'));
+    const cacheMaxBytes = readNonNegativeInteger('MEFS_CACHE_MAX_BYTES', 1024 * 1024 * 1024);
+    const cacheMetadataTtlMs = readNonNegativeInteger('MEFS_CACHE_METADATA_TTL_MS', 60 * 60 * 1000);
+    const retry = {
+        retries: readNonNegativeInteger('MEFS_MAX_RETRIES', 3),
+        baseDelayMs: readNonNegativeInteger('MEFS_RETRY_BASE_DELAY_MS', 500),
+        maxDelayMs: readNonNegativeInteger('MEFS_RETRY_MAX_DELAY_MS', 10000),
+    };
 
     if (!privateKey) {
         console.warn('Warning: MEFS_PRIVATE_KEY not provided. Authentication may fail.');
@@ -63,26 +117,143 @@ export function loadMefsConfig(): MefsConfig {
         ...(address && { address }),
         chainId,
         privateKey,
+        keyVaultPath,
+        uploadJournalPath,
+        uploadIndexPath,
+        storageBackend,
+        localStoragePath,
+        cachePath,
+        cacheMaxBytes,
+        cacheMetadataTtlMs,
+        retry,
     };
 }
 
+function isExpiring(expiresAt: number | undefined): boolean {
+    return expiresAt !== undefined && expiresAt - TOKEN_EXPIRY_MARGIN_MS <= Date.now();
+}
+
+function tokenCacheKey(config: MefsConfig): string {
+    return config.address?.toLowerCase() || 'default';
+}
+
+function cacheTokens(config: MefsConfig, tokens: AuthTokens): AuthTokens {
+    cachedTokens.set(tokenCacheKey(config), {
+        tokens,
+        accessTokenExpiresAt: getTokenExpiry(tokens.accessToken),
+        refreshTokenExpiresAt: getTokenExpiry(tokens.refreshToken),
+    });
+    return tokens;
+}
+
+/**
+ * Renew tokens using the refresh token, falling back to a fresh challenge/sign/login
+ * Identities without a private key (wallet signed logins) can only be renewed with the refresh token
+ */
+async function renewTokens(config: MefsConfig): Promise<AuthTokens> {
+    const current = cachedTokens.get(tokenCacheKey(config));
+    if (current?.tokens.refreshToken && !isExpiring(current.refreshTokenExpiresAt)) {
+        try {
+            return cacheTokens(config, await refreshAccessToken(config, current.tokens.refreshToken));
+        } catch (error) {
+            if (!config.privateKey) {
+                throw new Error(`MEFS session for ${config.address} expired, please log in again: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            console.warn(`Warning: Failed to refresh access token, logging in again: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    } else if (current && !config.privateKey) {
+        throw new Error(`MEFS session for ${config.address} expired, please log in again`);
+    }
+
+    return cacheTokens(config, await authenticate(config));
+}
+
+/**
+ * Renew tokens, sharing a single in-flight renewal between concurrent callers
+ */
+function renewTokensOnce(config: MefsConfig): Promise<AuthTokens> {
+    const key = tokenCacheKey(config);
+    let pending = pendingRenewals.get(key);
+    if (!pending) {
+        pending = renewTokens(config).finally(() => {
+            pendingRenewals.delete(key);
+        });
+        pendingRenewals.set(key, pending);
+    }
+    return pending;
+}
+
+/**
+ * Store tokens obtained outside of this module, e.g. from a login signed by the client's wallet
+ */
+export function setAuthTokens(config: MefsConfig, tokens: AuthTokens): void {
+    cacheTokens(config, tokens);
+}
+
 /**
  * Get authentication tokens (with caching)
+ * Tokens are renewed automatically when the access token is about to expire
  */
 export async function getAuthTokens(config: MefsConfig): Promise<AuthTokens> {
-    if (cachedTokens) {
-        return cachedTokens;
+    const cached = cachedTokens.get(tokenCacheKey(config));
+    if (cached && !isExpiring(cached.accessTokenExpiresAt)) {
+        return cached.tokens;
     }
 
-    const tokens = await authenticate(config);
-    cachedTokens = tokens;
-    return tokens;
+    return renewTokensOnce(config);
+}
+
+/**
+ * Force renewal of the access token, e.g. after the API rejected it
+ */
+export async function refreshAuthTokens(config: MefsConfig): Promise<AuthTokens> {
+    return renewTokensOnce(config);
+}
+
+/**
+ * Run an API call with a valid access token
+ * If the API rejects the token with 401, the token is renewed and the call is retried once
+ */
+export async function withAuthTokens<T>(
+    config: MefsConfig,
+    operation: (apiConfig: ApiConfig) => Promise<T>
+): Promise<T> {
+    const tokens = await getAuthTokens(config);
+
+    try {
+        return await operation({
+            apiBaseUrl: config.apiBaseUrl,
+            accessToken: tokens.accessToken,
+            retry: config.retry,
+        });
+    } catch (error) {
+        if (!isUnauthorizedError(error)) {
+            throw error;
+        }
+
+        // Another call may already have renewed the token in the meantime
+        const current = cachedTokens.get(tokenCacheKey(config))?.tokens;
+        const renewed = current && current.accessToken !== tokens.accessToken
+            ? current
+            : await refreshAuthTokens(config);
+
+        return await operation({
+            apiBaseUrl: config.apiBaseUrl,
+            accessToken: renewed.accessToken,
+            retry: config.retry,
+        });
+    }
 }
 
 /**
  * Clear cached tokens (useful for token refresh)
+ * @param config - Identity to clear, clears all identities when omitted
  */
-export function clearAuthTokens(): void {
-    cachedTokens = null;
+export function clearAuthTokens(config?: MefsConfig): void {
+    if (config) {
+        cachedTokens.delete(tokenCacheKey(config));
+    } else {
+        cachedTokens.clear();
+    }
 }
 
@@ -0,0 +1,123 @@
+import { createCipheriv, createDecipheriv, DecipherGCM, randomBytes } from 'node:crypto';
+
+/**
+ * MEFS Crypto Module
+ * End-to-end encryption of file content with AES-256-GCM before it is uploaded.
+ *
+ * Encrypted files are stored as: magic (8 bytes) | IV (12 bytes) | ciphertext | auth tag (16 bytes)
+ */
+
+const MAGIC = new TextEncoder().encode('MEFSENC1');
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = MAGIC.length + IV_LENGTH;
+
+// Prefix of key handles, so they cannot be confused with gateway keys
+const KEY_HANDLE_PREFIX = 'mefs-key-v1:';
+
+/**
+ * Generate a random AES-256 key for a single file
+ */
+export function generateFileKey(): Uint8Array {
+    return new Uint8Array(randomBytes(KEY_LENGTH));
+}
+
+/**
+ * Encode a file key as an opaque handle that can be returned to the client
+ * @param key - The AES-256 key
+ * @returns The key handle
+ */
+export function encodeKeyHandle(key: Uint8Array): string {
+    return KEY_HANDLE_PREFIX + Buffer.from(key).toString('base64url');
+}
+
+/**
+ * Decode a key handle returned by encodeKeyHandle
+ * @param handle - The key handle
+ * @returns The AES-256 key
+ */
+export function decodeKeyHandle(handle: string): Uint8Array {
+    if (!handle.startsWith(KEY_HANDLE_PREFIX)) {
+        throw new Error('Invalid key handle');
+    }
+    const key = Buffer.from(handle.slice(KEY_HANDLE_PREFIX.length), 'base64url');
+    if (key.length !== KEY_LENGTH) {
+        throw new Error('Invalid key handle');
+    }
+    return new Uint8Array(key);
+}
+
+/**
+ * Encrypt file content with AES-256-GCM
+ * @param data - The plaintext
+ * @param key - The AES-256 key
+ * @returns The encrypted file, including the IV and auth tag
+ */
+export function encryptData(data: Uint8Array, key: Uint8Array): Uint8Array {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+    return new Uint8Array(Buffer.concat([MAGIC, iv, ciphertext, cipher.getAuthTag()]));
+}
+
+/**
+ * Create a stream that decrypts a file encrypted by encryptData.
+ * Decrypted data is passed on as it arrives, the stream errors at the end if the auth tag does not match,
+ * so consumers must discard the output unless the stream completes.
+ * @param key - The AES-256 key
+ */
+export function createDecryptStream(key: Uint8Array): TransformStream<Uint8Array, Uint8Array> {
+    let decipher: DecipherGCM | undefined;
+    // Bytes not processed yet: the header until it is complete, then the last TAG_LENGTH bytes
+    let pending: Buffer = Buffer.alloc(0);
+
+    return new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            pending = Buffer.concat([pending, chunk]);
+
+            if (!decipher) {
+                if (pending.length < HEADER_LENGTH) {
+                    return;
+                }
+                if (!pending.subarray(0, MAGIC.length).equals(MAGIC)) {
+                    throw new Error('Failed to decrypt file: not an encrypted MEFS file');
+                }
+                decipher = createDecipheriv('aes-256-gcm', key, pending.subarray(MAGIC.length, HEADER_LENGTH));
+                pending = pending.subarray(HEADER_LENGTH);
+            }
+
+            // Hold back the bytes that may be the auth tag
+            if (pending.length > TAG_LENGTH) {
+                const ciphertext = pending.subarray(0, pending.length - TAG_LENGTH);
+                pending = pending.subarray(pending.length - TAG_LENGTH);
+                controller.enqueue(new Uint8Array(decipher.update(ciphertext)));
+            }
+        },
+        flush(controller) {
+            if (!decipher || pending.length < TAG_LENGTH) {
+                throw new Error('Failed to decrypt file: not an encrypted MEFS file');
+            }
+            decipher.setAuthTag(pending);
+            try {
+                const rest = decipher.final();
+                if (rest.length > 0) {
+                    controller.enqueue(new Uint8Array(rest));
+                }
+            } catch (error) {
+                throw new Error('Failed to decrypt file: wrong key or corrupted data', { cause: error });
+            }
+        },
+    });
+}
+
+/**
+ * Decrypt a file encrypted by encryptData
+ * @param data - The encrypted file
+ * @param key - The AES-256 key
+ * @returns The plaintext
+ */
+export async function decryptData(data: Uint8Array, key: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(createDecryptStream(key));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
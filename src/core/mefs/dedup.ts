@@ -0,0 +1,90 @@
+import { createHash } from 'node:crypto';
+import { UploadOptions } from './client.js';
+import { MefsConfig } from './config.js';
+import { readStateFile, updateStateFile, waitForStateFile } from './state.js';
+
+/**
+ * MEFS Upload Index Module
+ * Remembers the CIDs of uploaded content, so uploading the same content again returns the existing CID
+ * instead of using quota. Content is identified by its hash together with the wallet, the gateway key,
+ * the public flag and whether it was encrypted end-to-end, the keys themselves are not stored.
+ */
+
+export interface UploadRecord {
+    cid: string;
+    filename: string;
+    size: number; // Size of the content before end-to-end encryption
+    uploadedAt: number; // Milliseconds since epoch
+}
+
+export interface DedupOptions extends UploadOptions {
+    encrypt?: boolean; // Whether the content is encrypted end-to-end before uploading
+}
+
+// Fingerprint -> uploaded content
+type IndexContents = Record<string, UploadRecord>;
+
+/**
+ * Identify uploaded content, so an upload of the same content with the same settings finds its CID
+ * @param owner - The MEFS configuration of the wallet uploading the file
+ * @param contentHash - Hex encoded SHA-256 hash of the content, before end-to-end encryption
+ * @param options - The upload options
+ * @returns The fingerprint, which does not reveal the gateway key
+ */
+export function createContentFingerprint(owner: MefsConfig, contentHash: string, options: DedupOptions): string {
+    return createHash('sha256')
+        .update(JSON.stringify([owner.address?.toLowerCase() ?? 'default', contentHash, options.key ?? null, !!options.public, !!options.encrypt]))
+        .digest('hex');
+}
+
+async function readIndex(indexPath: string): Promise<IndexContents> {
+    const data = await readStateFile(indexPath);
+    return data ? JSON.parse(data.toString('utf-8')) as IndexContents : {};
+}
+
+async function updateIndex(indexPath: string, update: (contents: IndexContents) => void): Promise<void> {
+    await updateStateFile(indexPath, async () => {
+        const contents = await readIndex(indexPath);
+        update(contents);
+        return JSON.stringify(contents);
+    });
+}
+
+/**
+ * Find the CID of content uploaded before
+ * @param indexPath - The index file
+ * @param fingerprint - The fingerprint of the content
+ * @returns The upload, or undefined if the content was not uploaded with these settings
+ */
+export async function findUpload(indexPath: string, fingerprint: string): Promise<UploadRecord | undefined> {
+    await waitForStateFile(indexPath);
+
+    return (await readIndex(indexPath))[fingerprint];
+}
+
+/**
+ * Record the CID of uploaded content
+ * @param indexPath - The index file
+ * @param fingerprint - The fingerprint of the content
+ * @param record - The upload
+ */
+export async function recordUpload(indexPath: string, fingerprint: string, record: UploadRecord): Promise<void> {
+    await updateIndex(indexPath, contents => {
+        contents[fingerprint] = record;
+    });
+}
+
+/**
+ * Forget the uploads of a CID, e.g. after it was deleted
+ * @param indexPath - The index file
+ * @param cid - The CID
+ */
+export async function forgetUpload(indexPath: string, cid: string): Promise<void> {
+    await updateIndex(indexPath, contents => {
+        for (const [fingerprint, record] of Object.entries(contents)) {
+            if (record.cid === cid) {
+                delete contents[fingerprint];
+            }
+        }
+    });
+}
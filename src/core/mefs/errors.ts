@@ -0,0 +1,230 @@
+/**
+ * MEFS Error Module
+ * Errors raised by the MEFS API client, classified so callers can react to the kind of failure
+ * and tools can report a stable machine-readable code.
+ */
+
+/**
+ * Machine-readable error codes, part of the tool error responses
+ */
+export type MefsErrorCode =
+    | 'AUTH_FAILED' // The access token or signature was rejected, or the account may not access the file
+    | 'NOT_FOUND' // The file or upload session does not exist
+    | 'QUOTA_EXCEEDED' // The account has no storage space or balance left
+    | 'RATE_LIMITED' // Too many requests, retry later
+    | 'GATEWAY_ERROR' // The gateway failed or could not be reached
+    | 'INVALID_REQUEST' // The gateway rejected the request
+    | 'API_ERROR' // Any other error response
+    | 'FILE_TOO_LARGE' // The file exceeds the configured size limit
+    | 'CANCELLED' // The client cancelled the request
+    | 'INTEGRITY_ERROR' // The content does not match its CID
+    | 'INTERNAL_ERROR'; // Anything else
+
+// Error responses that mean the account is out of space or balance, whatever their status
+const QUOTA_PATTERN = /quota|insufficient (space|storage|balance|funds)|not enough (space|storage|balance)/i;
+
+/**
+ * Base class of the errors raised by the MEFS modules
+ */
+export class MefsError extends Error {
+    readonly code: MefsErrorCode;
+
+    constructor(message: string, code: MefsErrorCode, options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'MefsError';
+        this.code = code;
+    }
+}
+
+/**
+ * Error returned by the MEFS API, carrying the HTTP status of the failed request
+ */
+export class MefsApiError extends MefsError {
+    readonly status: number; // 0 when the request did not get a response
+
+    constructor(message: string, status: number, options?: ErrorOptions & { code?: MefsErrorCode }) {
+        super(message, options?.code ?? 'API_ERROR', options);
+        this.name = 'MefsApiError';
+        this.status = status;
+    }
+}
+
+/**
+ * The access token or signature was rejected (401), or the account may not access the resource (403)
+ */
+export class AuthError extends MefsApiError {
+    constructor(message: string, status: number, options?: ErrorOptions) {
+        super(message, status, { ...options, code: 'AUTH_FAILED' });
+        this.name = 'AuthError';
+    }
+}
+
+/**
+ * The requested file or upload session does not exist
+ */
+export class NotFoundError extends MefsApiError {
+    constructor(message: string, status = 404, options?: ErrorOptions) {
+        super(message, status, { ...options, code: 'NOT_FOUND' });
+        this.name = 'NotFoundError';
+    }
+}
+
+/**
+ * The account has no storage space or balance left
+ */
+export class QuotaExceededError extends MefsApiError {
+    constructor(message: string, status: number, options?: ErrorOptions) {
+        super(message, status, { ...options, code: 'QUOTA_EXCEEDED' });
+        this.name = 'QuotaExceededError';
+    }
+}
+
+/**
+ * The gateway is throttling requests
+ */
+export class RateLimitedError extends MefsApiError {
+    readonly retryAfterMs?: number; // From the Retry-After header, if the gateway sends it
+
+    constructor(message: string, retryAfterMs?: number, options?: ErrorOptions) {
+        super(message, 429, { ...options, code: 'RATE_LIMITED' });
+        this.name = 'RateLimitedError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * The gateway failed (5xx) or could not be reached (status 0), the request may succeed when retried
+ */
+export class GatewayError extends MefsApiError {
+    constructor(message: string, status: number, options?: ErrorOptions) {
+        super(message, status, { ...options, code: 'GATEWAY_ERROR' });
+        this.name = 'GatewayError';
+    }
+}
+
+/**
+ * The gateway rejected the request as invalid (4xx)
+ */
+export class ValidationError extends MefsApiError {
+    constructor(message: string, status: number, options?: ErrorOptions) {
+        super(message, status, { ...options, code: 'INVALID_REQUEST' });
+        this.name = 'ValidationError';
+    }
+}
+
+/**
+ * Error raised when a file is larger than the configured size limit
+ */
+export class FileTooLargeError extends MefsError {
+    readonly limit: number;
+    readonly size: number; // Bytes seen so far, the actual file may be larger
+
+    constructor(limit: number, size: number) {
+        super(`File size ${size} bytes exceeds the maximum of ${limit} bytes`, 'FILE_TOO_LARGE');
+        this.name = 'FileTooLargeError';
+        this.limit = limit;
+        this.size = size;
+    }
+}
+
+/**
+ * Error raised when a transfer is aborted because the client cancelled the request
+ */
+export class CancelledError extends MefsError {
+    constructor(message = 'The request was cancelled', options?: ErrorOptions) {
+        super(message, 'CANCELLED', options);
+        this.name = 'CancelledError';
+    }
+}
+
+/**
+ * Error raised when content does not match the CID it is stored under,
+ * e.g. a gateway returning tampered or corrupted data
+ */
+export class IntegrityError extends MefsError {
+    readonly expected: string; // The CID the content should have
+    readonly actual: string; // The CID of the content, computed locally
+
+    constructor(expected: string, actual: string) {
+        super(`Content does not match its CID: expected ${expected}, got ${actual}`, 'INTEGRITY_ERROR');
+        this.name = 'IntegrityError';
+        this.expected = expected;
+        this.actual = actual;
+    }
+}
+
+/**
+ * Parse a Retry-After header, given in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(seconds * 1000, 0);
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Create the error for a failed response, classified by its status and body
+ * @param action - What failed, e.g. "Failed to download file"
+ * @param response - The error response, its body is read
+ */
+export async function createResponseError(action: string, response: Response): Promise<MefsApiError> {
+    const errorText = await response.text();
+    const message = `${action}: ${response.status} ${response.statusText} - ${errorText}`;
+    const { status } = response;
+
+    if (status === 402 || status === 507 || (status >= 400 && status < 500 && QUOTA_PATTERN.test(errorText))) {
+        return new QuotaExceededError(message, status);
+    }
+    if (status === 401 || status === 403) {
+        return new AuthError(message, status);
+    }
+    if (status === 404) {
+        return new NotFoundError(message, status);
+    }
+    if (status === 429) {
+        return new RateLimitedError(message, parseRetryAfter(response.headers?.get('retry-after')));
+    }
+    if (status >= 500) {
+        return new GatewayError(message, status);
+    }
+    if (status >= 400) {
+        return new ValidationError(message, status);
+    }
+    return new MefsApiError(message, status);
+}
+
+/**
+ * Create the error for a request that did not get a response
+ * @param action - What failed, e.g. "Failed to download file"
+ * @param error - The error thrown by fetch
+ */
+export function createNetworkError(action: string, error: unknown): GatewayError {
+    return new GatewayError(`${action}: ${error instanceof Error ? error.message : String(error)}`, 0, { cause: error });
+}
+
+/**
+ * Check whether an error was caused by an expired or invalid access token
+ */
+export function isUnauthorizedError(error: unknown): boolean {
+    return error instanceof MefsApiError && error.status === 401;
+}
+
+/**
+ * Check whether a failed request may succeed when it is sent again
+ */
+export function isRetryableError(error: unknown): boolean {
+    return error instanceof GatewayError || error instanceof RateLimitedError;
+}
+
+/**
+ * Get the machine-readable code of any error
+ */
+export function getErrorCode(error: unknown): MefsErrorCode {
+    return error instanceof MefsError ? error.code : 'INTERNAL_ERROR';
+}
@@ -0,0 +1,101 @@
+import { createHash } from 'node:crypto';
+import { UploadOptions, UploadSession } from './client.js';
+import { MefsConfig } from './config.js';
+import { readStateFile, updateStateFile, waitForStateFile } from './state.js';
+
+/**
+ * MEFS Upload Journal Module
+ * Persists the sessions of chunked uploads, so an upload interrupted by a network failure
+ * or a server restart can be resumed by sending only the missing chunks.
+ */
+
+interface JournalEntry extends UploadSession {
+    updatedAt: number; // Milliseconds since epoch
+}
+
+// Fingerprint -> upload session
+type JournalContents = Record<string, JournalEntry>;
+
+// Sessions not updated for this long are assumed to have expired on the gateway
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Identify an upload, so a retried upload of the same content finds its session
+ * @param owner - The MEFS configuration of the wallet uploading the file
+ * @param source - Identifies the content, e.g. its hash or its path, size and modification time
+ * @param filename - The name of the uploaded file
+ * @param options - The upload options
+ * @returns The fingerprint, which does not reveal the gateway key
+ */
+export function createUploadFingerprint(owner: MefsConfig, source: string, filename: string, options: UploadOptions): string {
+    return createHash('sha256')
+        .update(JSON.stringify([owner.address?.toLowerCase() ?? 'default', source, filename, options.key ?? null, !!options.public]))
+        .digest('hex');
+}
+
+async function readJournal(journalPath: string): Promise<JournalContents> {
+    const data = await readStateFile(journalPath);
+    if (!data) {
+        return {};
+    }
+
+    const contents = JSON.parse(data.toString('utf-8')) as JournalContents;
+    const now = Date.now();
+    for (const [fingerprint, entry] of Object.entries(contents)) {
+        if (now - entry.updatedAt > SESSION_TTL_MS) {
+            delete contents[fingerprint];
+        }
+    }
+    return contents;
+}
+
+async function updateJournal(journalPath: string, update: (contents: JournalContents) => void): Promise<void> {
+    await updateStateFile(journalPath, async () => {
+        const contents = await readJournal(journalPath);
+        update(contents);
+        return JSON.stringify(contents);
+    });
+}
+
+/**
+ * Find the session of an interrupted upload
+ * @param journalPath - The journal file
+ * @param fingerprint - The fingerprint of the upload
+ * @returns The session, or undefined if there is none or it has expired
+ */
+export async function loadUploadSession(journalPath: string, fingerprint: string): Promise<UploadSession | undefined> {
+    await waitForStateFile(journalPath);
+
+    const entry = (await readJournal(journalPath))[fingerprint];
+    if (!entry) {
+        return undefined;
+    }
+    return {
+        uploadId: entry.uploadId,
+        chunkSize: entry.chunkSize,
+        uploadedChunks: entry.uploadedChunks,
+    };
+}
+
+/**
+ * Record the progress of an upload
+ * @param journalPath - The journal file
+ * @param fingerprint - The fingerprint of the upload
+ * @param session - The current session
+ */
+export async function saveUploadSession(journalPath: string, fingerprint: string, session: UploadSession): Promise<void> {
+    await updateJournal(journalPath, contents => {
+        contents[fingerprint] = { ...session, updatedAt: Date.now() };
+    });
+}
+
+/**
+ * Forget the session of a completed upload
+ * @param journalPath - The journal file
+ * @param fingerprint - The fingerprint of the upload
+ */
+export async function removeUploadSession(journalPath: string, fingerprint: string): Promise<void> {
+    await updateJournal(journalPath, contents => {
+        delete contents[fingerprint];
+    });
+}
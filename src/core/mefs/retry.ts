@@ -0,0 +1,58 @@
+import { setTimeout as delay } from 'node:timers/promises';
+import { isRetryableError, RateLimitedError } from './errors.js';
+
+/**
+ * MEFS Retry Module
+ * Retries idempotent requests that failed for a transient reason (gateway errors, network errors, rate limiting)
+ * with exponential backoff and full jitter, so concurrent clients do not retry in lockstep.
+ */
+
+export interface RetryOptions {
+    retries?: number; // Retries after the first attempt (default: 3)
+    baseDelayMs?: number; // Upper bound of the first delay, doubled for every retry (default: 500)
+    maxDelayMs?: number; // Upper bound of every delay (default: 10000)
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10000;
+
+/**
+ * Get the delay before a retry
+ * @param error - The error of the failed attempt
+ * @param attempt - The number of the failed attempt, starting at 0
+ * @param options - The retry options
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelay(error: unknown, attempt: number, options: RetryOptions = {}): number {
+    const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    const backoff = Math.random() * Math.min(maxDelayMs, (options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS) * 2 ** attempt);
+
+    // Wait at least as long as a rate limiting gateway asks for, within the limit
+    if (error instanceof RateLimitedError && error.retryAfterMs !== undefined) {
+        return Math.max(backoff, Math.min(error.retryAfterMs, maxDelayMs));
+    }
+    return backoff;
+}
+
+/**
+ * Run an idempotent operation, retrying it while it fails with a retryable error
+ * @param operation - The operation, called once per attempt
+ * @param options - The retry options
+ * @param signal - Stops retrying when aborted
+ * @returns The result of the first successful attempt
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}, signal?: AbortSignal): Promise<T> {
+    const retries = options.retries ?? DEFAULT_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (attempt >= retries || !isRetryableError(error) || signal?.aborted) {
+                throw error;
+            }
+            await delay(getRetryDelay(error, attempt, options), undefined, { signal });
+        }
+    }
+}
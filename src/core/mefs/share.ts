@@ -0,0 +1,109 @@
+import { hkdfSync, randomBytes } from 'node:crypto';
+import { ethers } from 'ethers';
+import { decryptData, encryptData } from './crypto.js';
+import { VaultEntry } from './vault.js';
+
+/**
+ * MEFS Share Module
+ * Shares the keys of a private file with another wallet using ECIES on secp256k1:
+ * the keys are encrypted with AES-256-GCM under a key agreed between a random ephemeral key
+ * and the recipient's public key, so only the holder of the recipient's private key can open them.
+ *
+ * Share tokens are encoded as: prefix | base64url(ephemeral public key (33 bytes) | encrypted keys)
+ */
+
+export interface ShareEntry extends VaultEntry {
+    cid: string;
+}
+
+const SHARE_TOKEN_PREFIX = 'mefs-share-v1:';
+const PUBLIC_KEY_LENGTH = 33;
+
+/**
+ * Derive the AES-256 key wrapping the shared keys
+ * @param signingKey - The ephemeral key when sharing, the recipient's key when opening
+ * @param publicKey - The other party's compressed public key
+ * @param ephemeralPublicKey - The compressed ephemeral public key, bound into the derived key
+ */
+function deriveShareKey(signingKey: ethers.SigningKey, publicKey: string, ephemeralPublicKey: Uint8Array): Uint8Array {
+    // The shared secret is an uncompressed point, its x coordinate is the ECDH secret
+    const sharedPoint = ethers.getBytes(signingKey.computeSharedSecret(publicKey));
+    return new Uint8Array(hkdfSync('sha256', sharedPoint.subarray(1, 33), ephemeralPublicKey, 'mefs-share', 32));
+}
+
+/**
+ * Normalize a secp256k1 public key to its compressed form
+ * @param publicKey - Compressed or uncompressed public key, hex encoded with or without 0x prefix
+ * @returns The compressed public key (0x-prefixed)
+ */
+export function normalizePublicKey(publicKey: string): string {
+    const hex = publicKey.startsWith('0x') ? publicKey : `0x${publicKey}`;
+    try {
+        return ethers.SigningKey.computePublicKey(hex, true);
+    } catch (error) {
+        throw new Error('Invalid public key', { cause: error });
+    }
+}
+
+/**
+ * Get the public key of a private key, to be given to people sharing files with it
+ * @param privateKey - Hex string of the private key (with or without 0x prefix)
+ * @returns The compressed public key (0x-prefixed)
+ */
+export function getPublicKey(privateKey: string): string {
+    const cleanKey = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
+    return new ethers.SigningKey(cleanKey).compressedPublicKey;
+}
+
+/**
+ * Encrypt the keys of a file for a recipient
+ * @param entry - The CID and keys of the file
+ * @param recipientPublicKey - The recipient's secp256k1 public key
+ * @returns The share token
+ */
+export function createShareToken(entry: ShareEntry, recipientPublicKey: string): string {
+    const publicKey = normalizePublicKey(recipientPublicKey);
+
+    const ephemeralKey = new ethers.SigningKey(randomBytes(32));
+    const ephemeralPublicKey = ethers.getBytes(ephemeralKey.compressedPublicKey);
+    const shareKey = deriveShareKey(ephemeralKey, publicKey, ephemeralPublicKey);
+
+    const payload = new TextEncoder().encode(
+        JSON.stringify({ cid: entry.cid, key: entry.key, keyHandle: entry.keyHandle })
+    );
+    const token = Buffer.concat([ephemeralPublicKey, encryptData(payload, shareKey)]);
+    return SHARE_TOKEN_PREFIX + token.toString('base64url');
+}
+
+/**
+ * Decrypt a share token created by createShareToken
+ * @param token - The share token
+ * @param privateKey - The recipient's private key (with or without 0x prefix)
+ * @returns The CID and keys of the shared file
+ */
+export async function openShareToken(token: string, privateKey: string): Promise<ShareEntry> {
+    if (!token.startsWith(SHARE_TOKEN_PREFIX)) {
+        throw new Error('Invalid share token');
+    }
+    const data = Buffer.from(token.slice(SHARE_TOKEN_PREFIX.length), 'base64url');
+    if (data.length <= PUBLIC_KEY_LENGTH) {
+        throw new Error('Invalid share token');
+    }
+
+    const ephemeralPublicKey = new Uint8Array(data.subarray(0, PUBLIC_KEY_LENGTH));
+    let payload: Uint8Array;
+    try {
+        const recipientKey = new ethers.SigningKey(privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`);
+        const shareKey = deriveShareKey(recipientKey, ethers.hexlify(ephemeralPublicKey), ephemeralPublicKey);
+        payload = await decryptData(new Uint8Array(data.subarray(PUBLIC_KEY_LENGTH)), shareKey);
+    } catch (error) {
+        throw new Error('Failed to open share token: it was not shared with this wallet', { cause: error });
+    }
+
+    const entry = JSON.parse(new TextDecoder().decode(payload)) as ShareEntry;
+    return {
+        cid: entry.cid,
+        key: entry.key,
+        keyHandle: entry.keyHandle,
+    };
+}
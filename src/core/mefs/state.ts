@@ -0,0 +1,70 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * MEFS State File Module
+ * Reads and updates the local files the server keeps its state in (upload index, upload journal, key vault).
+ * Updates of a file are serialized so concurrent tool calls do not overwrite each other, and written
+ * to a temporary file first so a crash never leaves a truncated file behind.
+ */
+
+// Pending update of each file
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+/**
+ * Read a state file
+ * @param filePath - The file
+ * @returns The content, or undefined if the file does not exist yet
+ */
+export async function readStateFile(filePath: string): Promise<Buffer | undefined> {
+    try {
+        return await readFile(filePath);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Wait for the pending update of a state file, so a read sees every update started before it
+ * @param filePath - The file
+ */
+export async function waitForStateFile(filePath: string): Promise<void> {
+    await pendingWrites.get(filePath)?.catch(() => undefined);
+}
+
+/**
+ * Update a state file after the updates started before
+ * @param filePath - The file
+ * @param update - Returns the new content, usually computed from the current content
+ */
+export async function updateStateFile(filePath: string, update: () => Promise<string | Uint8Array>): Promise<void> {
+    const previous = pendingWrites.get(filePath) ?? Promise.resolve();
+
+    const write = previous.catch(() => undefined).then(async () => {
+        const data = await update();
+
+        await mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+        const tempPath = `${filePath}.${randomUUID()}.tmp`;
+        try {
+            await writeFile(tempPath, data, { mode: 0o600 });
+            await rename(tempPath, filePath);
+        } catch (error) {
+            await rm(tempPath, { force: true });
+            throw error;
+        }
+    });
+
+    pendingWrites.set(filePath, write);
+    try {
+        await write;
+    } finally {
+        if (pendingWrites.get(filePath) === write) {
+            pendingWrites.delete(filePath);
+        }
+    }
+}
@@ -23,4 +23,70 @@ export function base64ToBytes(base64Str: string): Uint8Array {
         }
         throw new Error('Invalid base64 format');
     }
-}
\ No newline at end of file
+}
+
+const MIME_TYPES: Record<string, string> = {
+    txt: 'text/plain',
+    md: 'text/markdown',
+    csv: 'text/csv',
+    html: 'text/html',
+    htm: 'text/html',
+    css: 'text/css',
+    js: 'text/javascript',
+    xml: 'application/xml',
+    json: 'application/json',
+    pdf: 'application/pdf',
+    zip: 'application/zip',
+    gz: 'application/gzip',
+    tar: 'application/x-tar',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    ogg: 'audio/ogg',
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+    doc: 'application/msword',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    xls: 'application/vnd.ms-excel',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Detects the MIME type of a file from its extension
+ * @param filename - The file name (must include the extension)
+ * @returns The MIME type, or application/octet-stream if unknown
+ */
+export function detectMimeType(filename: string): string {
+    const extension = filename.split('.').pop()?.toLowerCase() || '';
+    return MIME_TYPES[extension] || 'application/octet-stream';
+}
+
+/**
+ * Resolves the MIME type of a downloaded file, without parameters such as charset
+ * @param contentType - The Content-Type returned by the gateway, if any
+ * @param filename - The file name, used when the gateway returns no type
+ * @returns The lower-case MIME type
+ */
+export function resolveMimeType(contentType: string | undefined, filename: string): string {
+    return (contentType || detectMimeType(filename)).split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Checks whether a MIME type describes text content (text/*, JSON or XML)
+ * @param mimeType - The MIME type without parameters
+ * @returns True if the content can be returned as text
+ */
+export function isTextMimeType(mimeType: string): boolean {
+    return (
+        mimeType.startsWith('text/') ||
+        mimeType === 'application/json' ||
+        mimeType === 'application/xml' ||
+        mimeType.endsWith('+json') ||
+        mimeType.endsWith('+xml')
+    );
+}
@@ -0,0 +1,107 @@
+import { hkdfSync } from 'node:crypto';
+import { MefsConfig } from './config.js';
+import { decryptData, encryptData } from './crypto.js';
+import { readStateFile, updateStateFile, waitForStateFile } from './state.js';
+
+/**
+ * MEFS Key Vault Module
+ * Remembers the encryption keys of uploaded files so they can be retrieved without passing the key again.
+ * The vault is a local file encrypted with a key derived from the server's MEFS_PRIVATE_KEY,
+ * entries are kept per wallet so one identity cannot look up the keys of another.
+ */
+
+export interface VaultEntry {
+    key?: string; // Gateway encryption key
+    keyHandle?: string; // End-to-end encryption key handle
+}
+
+export interface KeyVault {
+    path: string;
+    key: Uint8Array;
+}
+
+// Wallet address -> CID -> keys
+type VaultContents = Record<string, Record<string, VaultEntry>>;
+
+/**
+ * Get the key vault of the server identity
+ * @param config - The server's default MEFS configuration
+ * @returns The key vault, or undefined if no private key or vault path is configured
+ */
+export function getKeyVault(config: MefsConfig): KeyVault | undefined {
+    if (!config.privateKey || !config.keyVaultPath) {
+        return undefined;
+    }
+
+    const secret = Buffer.from(config.privateKey.replace(/^0x/, ''), 'hex');
+    const key = hkdfSync('sha256', secret, 'mefs-mcp', 'key-vault', 32);
+
+    return {
+        path: config.keyVaultPath,
+        key: new Uint8Array(key),
+    };
+}
+
+function ownerKey(owner: MefsConfig): string {
+    return owner.address?.toLowerCase() ?? 'default';
+}
+
+async function readVault(vault: KeyVault): Promise<VaultContents> {
+    const data = await readStateFile(vault.path);
+    if (!data) {
+        return {};
+    }
+
+    try {
+        const decrypted = await decryptData(data, vault.key);
+        return JSON.parse(new TextDecoder().decode(decrypted)) as VaultContents;
+    } catch (error) {
+        throw new Error(`Failed to open key vault ${vault.path}, was it created with a different MEFS_PRIVATE_KEY?`, { cause: error });
+    }
+}
+
+/**
+ * Store the keys of files owned by a wallet, merging them with keys already stored for the same CIDs
+ * @param vault - The key vault
+ * @param owner - The MEFS configuration of the wallet that owns the files
+ * @param entries - The keys to store, by CID
+ */
+export async function saveKeys(vault: KeyVault, owner: MefsConfig, entries: Record<string, VaultEntry>): Promise<void> {
+    await updateStateFile(vault.path, async () => {
+        const contents = await readVault(vault);
+        const ownerEntries = contents[ownerKey(owner)] ?? {};
+
+        for (const [cid, entry] of Object.entries(entries)) {
+            ownerEntries[cid] = {
+                ...ownerEntries[cid],
+                ...(entry.key && { key: entry.key }),
+                ...(entry.keyHandle && { keyHandle: entry.keyHandle }),
+            };
+        }
+
+        contents[ownerKey(owner)] = ownerEntries;
+        return encryptData(new TextEncoder().encode(JSON.stringify(contents)), vault.key);
+    });
+}
+
+/**
+ * Look up the stored keys of files owned by a wallet
+ * @param vault - The key vault
+ * @param owner - The MEFS configuration of the wallet that owns the files
+ * @param cids - The CIDs to look up
+ * @returns The stored keys by CID, CIDs without stored keys are omitted
+ */
+export async function lookupKeys(vault: KeyVault, owner: MefsConfig, cids: string[]): Promise<Record<string, VaultEntry>> {
+    // Wait for pending updates so a key stored by a concurrent upload is found
+    await waitForStateFile(vault.path);
+
+    const ownerEntries = (await readVault(vault))[ownerKey(owner)] ?? {};
+
+    const result: Record<string, VaultEntry> = {};
+    for (const cid of cids) {
+        if (ownerEntries[cid]) {
+            result[cid] = ownerEntries[cid];
+        }
+    }
+    return result;
+}
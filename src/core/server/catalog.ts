@@ -0,0 +1,61 @@
+import { MefsConfig } from '../mefs/config.js';
+
+/**
+ * Catalog of MEFS objects known to this server, used to list them as MCP resources.
+ * Objects are recorded per wallet, so a client only sees the files of the identity it uses.
+ * The catalog lives in memory and is lost when the server restarts.
+ */
+
+export interface CatalogEntry {
+  cid: string;
+  filename: string;
+  contentType?: string;
+  size?: number;
+}
+
+const catalogs = new Map<string, Map<string, CatalogEntry>>();
+
+const catalogKey = (config: MefsConfig) => config.address?.toLowerCase() ?? 'default';
+
+/**
+ * Record an object stored under a MEFS identity, replacing any earlier entry for the same CID
+ *
+ * @param config - The MEFS configuration of the identity that owns the object
+ * @param entry - The object's metadata
+ */
+export const recordObject = (config: MefsConfig, entry: CatalogEntry) => {
+  const key = catalogKey(config);
+  let catalog = catalogs.get(key);
+  if (!catalog) {
+    catalog = new Map();
+    catalogs.set(key, catalog);
+  }
+  catalog.set(entry.cid, entry);
+};
+
+/**
+ * List the objects recorded for a MEFS identity, oldest first
+ *
+ * @param config - The MEFS configuration of the identity
+ * @returns The recorded objects
+ */
+export const listObjects = (config: MefsConfig): CatalogEntry[] => {
+  return [...(catalogs.get(catalogKey(config))?.values() ?? [])];
+};
+
+/**
+ * Remove an object from the catalog of a MEFS identity, e.g. after it was deleted
+ *
+ * @param config - The MEFS configuration of the identity that owned the object
+ * @param cid - The CID of the object
+ */
+export const forgetObject = (config: MefsConfig, cid: string) => {
+  catalogs.get(catalogKey(config))?.delete(cid);
+};
+
+/**
+ * Remove all recorded objects
+ */
+export const clearCatalog = () => {
+  catalogs.clear();
+};
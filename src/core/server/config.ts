@@ -1,4 +1,5 @@
 import 'dotenv/config';
+import path from 'node:path';
 import { McpServerConfig } from './types.js';
 // Required for REST transport mode in MCP.so Cloud
 import { getParamValue } from '@chatmcp/sdk/utils/index.js';
@@ -11,6 +12,11 @@ export const loadConfig = (): McpServerConfig => {
     getParamValue('transportMode') || process.env.MCP_TRANSPORT_MODE?.trim() || 'stdio';
   const maxFileSizeBytes = parseInt(process.env.MAX_FILE_SIZE || '104857600', 10);
   const endpoint = getParamValue('endpoint') || process.env.MCP_ENDPOINT?.trim() || '/rest';
+  const allowedRoots = (process.env.MCP_ALLOWED_ROOTS || '')
+    .split(path.delimiter)
+    .map(root => root.trim())
+    .filter(root => root.length > 0)
+    .map(root => path.resolve(root));
 
   if (isNaN(port) || port < 0 || port > 65535) {
     throw new Error('Invalid port number');
@@ -20,7 +26,12 @@ export const loadConfig = (): McpServerConfig => {
     throw new Error('Invalid connection timeout');
   }
 
-  if (transportMode !== 'stdio' && transportMode !== 'sse' && transportMode !== 'rest') {
+  if (
+    transportMode !== 'stdio' &&
+    transportMode !== 'sse' &&
+    transportMode !== 'http' &&
+    transportMode !== 'rest'
+  ) {
     throw new Error('Invalid transport mode');
   }
 
@@ -32,8 +43,9 @@ export const loadConfig = (): McpServerConfig => {
     port,
     host,
     connectionTimeoutMs,
-    transportMode: transportMode as 'stdio' | 'sse' | 'rest',
+    transportMode: transportMode as McpServerConfig['transportMode'],
     maxFileSizeBytes,
     endpoint: endpoint || '/',
+    allowedRoots,
   };
 };
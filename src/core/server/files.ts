@@ -0,0 +1,148 @@
+import path from 'node:path';
+import { createHash, randomUUID } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { lstat, realpath, rename, rm } from 'node:fs/promises';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream } from 'node:stream/web';
+import { McpServerConfig } from './types.js';
+
+/**
+ * Local file system access for tools that read from or write to disk.
+ * Every path must resolve (after following symlinks) to a location inside one of the allowed roots.
+ */
+
+const isInsideRoot = (target: string, root: string) => {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+};
+
+const assertInsideRoots = async (resolved: string, filePath: string, allowedRoots: string[]) => {
+  for (const root of allowedRoots) {
+    const realRoot = await realpath(root).catch(() => path.resolve(root));
+    if (isInsideRoot(resolved, realRoot)) {
+      return;
+    }
+  }
+
+  throw new Error(`Access denied: ${filePath} is outside the allowed directories`);
+};
+
+const assertEnabled = (allowedRoots: string[]) => {
+  if (allowedRoots.length === 0) {
+    throw new Error('Local file access is disabled. Configure MCP_ALLOWED_ROOTS to enable it.');
+  }
+};
+
+/**
+ * Get the directories local file tools may use.
+ * Local file access is only offered to local (stdio) clients, remote clients get none.
+ *
+ * @param config - The server configuration
+ * @returns The allowed root directories
+ */
+export const getLocalFileRoots = (config?: McpServerConfig): string[] => {
+  if (!config || config.transportMode !== 'stdio') {
+    return [];
+  }
+  return config.allowedRoots ?? [];
+};
+
+/**
+ * Resolve the real location of an existing path inside the allowed roots
+ *
+ * @param filePath - The path requested by the client
+ * @param allowedRoots - Directories the server may access
+ * @returns The resolved absolute path
+ */
+export const resolveAllowedPath = async (filePath: string, allowedRoots: string[] = []) => {
+  assertEnabled(allowedRoots);
+
+  let resolved: string;
+  try {
+    resolved = await realpath(path.resolve(filePath));
+  } catch (error) {
+    throw new Error(`File not found: ${filePath}`, { cause: error });
+  }
+
+  await assertInsideRoots(resolved, filePath, allowedRoots);
+  return resolved;
+};
+
+/**
+ * Resolve a path to write to inside the allowed roots.
+ * The parent directory must exist; an existing file is only replaced when overwrite is set.
+ *
+ * @param filePath - The path requested by the client
+ * @param allowedRoots - Directories the server may access
+ * @param overwrite - Whether an existing file may be replaced
+ * @returns The resolved absolute path
+ */
+export const resolveAllowedOutputPath = async (
+  filePath: string,
+  allowedRoots: string[] = [],
+  overwrite = false
+) => {
+  assertEnabled(allowedRoots);
+
+  const absolute = path.resolve(filePath);
+  let directory: string;
+  try {
+    directory = await realpath(path.dirname(absolute));
+  } catch (error) {
+    throw new Error(`Directory not found: ${path.dirname(filePath)}`, { cause: error });
+  }
+
+  const resolved = path.join(directory, path.basename(absolute));
+  await assertInsideRoots(resolved, filePath, allowedRoots);
+
+  const existing = await lstat(resolved).catch(() => undefined);
+  if (existing) {
+    if (!existing.isFile()) {
+      throw new Error(`Not a regular file: ${filePath}`);
+    }
+    if (!overwrite) {
+      throw new Error(`File already exists: ${filePath}`);
+    }
+  }
+
+  return resolved;
+};
+
+/**
+ * Stream data to a file, computing its size and SHA-256 checksum on the way.
+ * Data is written to a temporary file first, so an interrupted transfer never leaves a partial file behind.
+ *
+ * @param stream - The data to write
+ * @param filePath - The resolved destination path
+ * @returns The number of bytes written and the hex encoded SHA-256 checksum
+ */
+export const writeStreamToFile = async (stream: ReadableStream<Uint8Array>, filePath: string) => {
+  const hash = createHash('sha256');
+  let size = 0;
+
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${randomUUID()}.part`);
+
+  try {
+    await pipeline(
+      Readable.fromWeb(stream),
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          hash.update(chunk);
+          size += chunk.length;
+          callback(null, chunk);
+        },
+      }),
+      createWriteStream(tempPath, { flags: 'wx' })
+    );
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+
+  return {
+    size,
+    sha256: hash.digest('hex'),
+  };
+};
@@ -1,9 +1,14 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerResources } from './resources/index.js';
 import { registerTools } from './tools/index.js';
 import { startStdioTransport } from './transports/stdio.js';
 import { startSSETransport } from './transports/sse.js';
+import { startRestTransport } from './transports/rest.js';
+import { startStreamableHTTPTransport } from './transports/streamable.js';
 import { McpServerConfig } from './types.js';
 import { loadMefsConfig, getAuthTokens } from '../mefs/config.js';
+import { getPublicKey } from '../mefs/share.js';
+import { getContentCache } from './storage/cache.js';
 /**
  * Creates the MCP Storage Server.
  * Registers all resources, tools, and prompts.
@@ -14,23 +19,46 @@ import { loadMefsConfig, getAuthTokens } from '../mefs/config.js';
 async function startMCPServer(mcpConfig: McpServerConfig): Promise<McpServer> {
   try {
     // Authenticate with MEFS API before starting server
-    console.log('Authenticating with MEFS API...');
     const mefsConfig = loadMefsConfig();
-    await getAuthTokens(mefsConfig);
-    console.log(`MEFS authentication successful. Access token obtained.`);
+    if (mefsConfig.storageBackend === 'local') {
+      // The local backend needs no gateway, the private key only identifies the owner of the files
+      console.log(`Using local storage in ${mefsConfig.localStoragePath}. Files are not uploaded to MEFS.`);
+    } else if (mefsConfig.privateKey) {
+      console.log('Authenticating with MEFS API...');
+      await getAuthTokens(mefsConfig);
+      console.log(`MEFS authentication successful. Access token obtained.`);
+      console.log(`Public key for receiving shared files: ${getPublicKey(mefsConfig.privateKey)}`);
+    } else {
+      console.log('No default MEFS identity configured. Clients must log in with their own wallet.');
+    }
+
+    const cache = getContentCache(mefsConfig);
+    if (cache) {
+      console.log(`Caching retrieved files in ${cache.path} (up to ${mefsConfig.cacheMaxBytes} bytes).`);
+    }
+
+    // Create a new MCP server instance with all resources, tools, and prompts registered
+    const createServer = () => {
+      const server = new McpServer({
+        name: 'MEFS Storage MCP Server',
+        version: '1.0.0',
+      });
+      registerResources(mefsConfig, server, mcpConfig);
+      registerTools(mefsConfig, server, mcpConfig);
+      // registerPrompts(server);
+      return server;
+    };
 
-    // Create a new MCP server instance
-    const server = new McpServer({
-      name: 'MEFS Storage MCP Server',
-      version: '1.0.0',
-    });
-    // Register all resources, tools, and prompts
-    // registerResources(server);
-    registerTools(mefsConfig, server);
-    // registerPrompts(server);
+    // The first server is created up front so registration errors surface at startup.
+    // It serves stdio and REST; SSE and Streamable HTTP create one server per session.
+    const server = createServer();
 
     if (mcpConfig.transportMode === 'sse') {
-      await startSSETransport(server, mcpConfig);
+      await startSSETransport(createServer, mcpConfig);
+    } else if (mcpConfig.transportMode === 'http') {
+      await startStreamableHTTPTransport(createServer, mcpConfig);
+    } else if (mcpConfig.transportMode === 'rest') {
+      await startRestTransport(server, mcpConfig);
     } else {
       await startStdioTransport(server, mcpConfig);
     }
@@ -0,0 +1,36 @@
+import { ToolExtra } from './types.js';
+
+/** Report at least every this many bytes when the total is unknown */
+const PROGRESS_STEP_BYTES = 1024 * 1024;
+
+/**
+ * Create a callback reporting the progress of a tool call with `notifications/progress`.
+ * Progress is only reported when the client asked for it by sending a progress token with the request.
+ * Notifications are sent for every percent of progress (or every MB when the total is unknown),
+ * not for every chunk read from the network.
+ *
+ * @param extra - Extra request information passed to the tool handler
+ * @returns The callback, or undefined if the client did not ask for progress
+ */
+export const createProgressReporter = (extra?: ToolExtra) => {
+  const progressToken = extra?._meta?.progressToken;
+  if (!extra || progressToken === undefined) {
+    return undefined;
+  }
+
+  let reported: number | undefined;
+  return (progress: number, total?: number) => {
+    const step = total ? total / 100 : PROGRESS_STEP_BYTES;
+    if (reported !== undefined && progress - reported < step && progress !== total) {
+      return;
+    }
+    reported = progress;
+
+    extra
+      .sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, total },
+      })
+      .catch(error => console.error('Failed to send progress notification:', error));
+  };
+};
@@ -0,0 +1,68 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { MefsConfig } from '../../mefs/config.js';
+import { isTextMimeType, resolveMimeType } from '../../mefs/utils.js';
+import { listObjects } from '../catalog.js';
+import { resolveMefsConfig } from '../sessions.js';
+import { createStorageBackend } from '../storage/index.js';
+import { McpServerConfig, ToolExtra } from '../types.js';
+
+/**
+ * 构造文件的资源 URI
+ * @param cid - 文件的 CID
+ */
+export const toMefsUri = (cid: string) => `mefs://${cid}`;
+
+export const fileResource = (mefsConfig: MefsConfig, mcpConfig?: McpServerConfig) => ({
+  name: 'file',
+  template: new ResourceTemplate(toMefsUri('{cid}'), {
+    // 列出当前身份上传过的文件
+    list: async (extra: ToolExtra) => {
+      let sessionConfig: MefsConfig;
+      try {
+        sessionConfig = resolveMefsConfig(mefsConfig, extra.sessionId);
+      } catch {
+        // 未登录的会话没有可列出的文件
+        return { resources: [] };
+      }
+
+      return {
+        resources: listObjects(sessionConfig).map(entry => ({
+          uri: toMefsUri(entry.cid),
+          name: entry.filename,
+          mimeType: entry.contentType,
+          size: entry.size,
+        })),
+      };
+    },
+  }),
+  metadata: {
+    description: 'A file stored in MEFS, addressed by its CID (Content ID)',
+  },
+  handler: async (uri: URL, variables: Variables, extra: ToolExtra) => {
+    const cid = Array.isArray(variables.cid) ? variables.cid[0] : variables.cid;
+
+    // 使用当前会话的 MEFS 身份
+    const sessionConfig = resolveMefsConfig(mefsConfig, extra.sessionId);
+
+    // 从存储后端下载文件（令牌失效时自动刷新并重试）
+    const result = await createStorageBackend(mefsConfig, sessionConfig).get(cid, undefined, {
+      maxBytes: mcpConfig?.maxFileSizeBytes,
+    });
+    const mimeType = resolveMimeType(result.contentType, result.filename);
+
+    if (isTextMimeType(mimeType)) {
+      try {
+        return {
+          contents: [{ uri: uri.href, mimeType, text: new TextDecoder('utf-8', { fatal: true }).decode(result.data) }],
+        };
+      } catch {
+        // 不是有效的 UTF-8 文本，作为二进制内容返回
+      }
+    }
+
+    return {
+      contents: [{ uri: uri.href, mimeType, blob: Buffer.from(result.data).toString('base64') }],
+    };
+  },
+});
@@ -0,0 +1,12 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { fileResource } from './file.js';
+import { MefsConfig } from '../../mefs/config.js';
+import { McpServerConfig } from '../types.js';
+
+export const registerResources = (mefsConfig: MefsConfig, server: McpServer, mcpConfig: McpServerConfig) => {
+  const resources = [fileResource(mefsConfig, mcpConfig)];
+
+  for (const resource of resources) {
+    server.resource(resource.name, resource.template, resource.metadata, resource.handler);
+  }
+};
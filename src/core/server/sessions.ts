@@ -0,0 +1,54 @@
+import { MefsConfig } from '../mefs/config.js';
+
+/**
+ * Per-session MEFS identities.
+ * HTTP transports can serve several clients at once; each client may log in with its own wallet
+ * so that files are stored in that wallet's space instead of the server's default identity.
+ */
+
+// Key used when the transport has no session concept (stdio)
+const LOCAL_SESSION_ID = 'local';
+
+const sessionIdentities = new Map<string, MefsConfig>();
+
+/**
+ * Bind a MEFS identity to an MCP session
+ *
+ * @param sessionId - The MCP session ID, undefined for stdio
+ * @param config - The MEFS configuration of the session's wallet
+ */
+export const setSessionIdentity = (sessionId: string | undefined, config: MefsConfig) => {
+  sessionIdentities.set(sessionId ?? LOCAL_SESSION_ID, config);
+};
+
+/**
+ * Remove the MEFS identity of a session, e.g. when its connection closes
+ *
+ * @param sessionId - The MCP session ID, undefined for stdio
+ */
+export const clearSessionIdentity = (sessionId: string | undefined) => {
+  sessionIdentities.delete(sessionId ?? LOCAL_SESSION_ID);
+};
+
+/**
+ * Resolve the MEFS configuration for the calling session.
+ * Falls back to the server's default identity (MEFS_PRIVATE_KEY) when the session has not logged in.
+ *
+ * @param defaultConfig - The server's default MEFS configuration
+ * @param sessionId - The MCP session ID, undefined for stdio
+ * @returns The MEFS configuration to use for the session
+ */
+export const resolveMefsConfig = (defaultConfig: MefsConfig, sessionId?: string): MefsConfig => {
+  const identity = sessionIdentities.get(sessionId ?? LOCAL_SESSION_ID);
+  if (identity) {
+    return identity;
+  }
+
+  if (!defaultConfig.privateKey) {
+    throw new Error(
+      'No MEFS identity for this session. Use the login_challenge and login tools to authenticate with your wallet.'
+    );
+  }
+
+  return defaultConfig;
+};
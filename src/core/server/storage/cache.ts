@@ -0,0 +1,482 @@
+import path from 'node:path';
+import { createHash, randomUUID } from 'node:crypto';
+import { openAsBlob } from 'node:fs';
+import { mkdir, open, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import type { FileHandle } from 'node:fs/promises';
+import { Readable } from 'node:stream';
+import { CID } from 'multiformats/cid';
+import { isVerifiableCid, verifyCid } from '../../mefs/cid.js';
+import { DownloadOptions, DownloadStreamResult, FileStat } from '../../mefs/client.js';
+import { MefsConfig } from '../../mefs/config.js';
+import { FileTooLargeError, IntegrityError, NotFoundError } from '../../mefs/errors.js';
+import type { StorageBackend } from './index.js';
+
+/**
+ * On-disk LRU cache of retrieved files, in front of a storage backend.
+ * Content is addressed by its CID and never changes, so it is served from disk until it is evicted.
+ * Private files are encrypted with a shared default key unless a key is given, so the gateway decides who may read them:
+ * files are cached per wallet and per gateway key (by a hash of both, the key itself is not stored).
+ * The file name and content type may change on the gateway, they are revalidated after cacheMetadataTtlMs.
+ * Public files retrieved with verification are checked against their CID once, before they are served from the cache.
+ *
+ * <cachePath>/<cid>.<wallet and key hash> holds the content, <cachePath>/index.json the entries in LRU order.
+ */
+
+interface CacheEntry {
+  id: string; // File name of the content, the CID and the hash of the wallet and key
+  cid: string;
+  owner: string; // Wallet that retrieved the file
+  size: number;
+  filename: string;
+  contentType?: string;
+  metadataAt: number; // When the metadata was last read from the backend, milliseconds since epoch
+  verified?: boolean; // Whether the content was checked against its CID
+}
+
+export interface CacheStatistics {
+  hits: number;
+  misses: number;
+  hitRate: number; // Hits per lookup, 0 before the first lookup
+  evictions: number; // Entries evicted to stay below the size cap
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+export interface ContentCache {
+  path: string;
+  /** Wrap the storage backend of an identity so the files it retrieved are served from the cache */
+  wrap(backend: StorageBackend, owner: MefsConfig): StorageBackend;
+  /** Remove the cached copies of a file retrieved by an identity, or of all its files when no CID is given */
+  evict(owner: MefsConfig, cid?: string): Promise<{ evicted: number; bytes: number }>;
+  statistics(): CacheStatistics;
+}
+
+const INDEX_FILE = 'index.json';
+
+// Caches are shared by all tool calls, one per directory
+const caches = new Map<string, ContentCache>();
+
+const ownerKey = (owner: MefsConfig) => owner.address?.toLowerCase() ?? 'default';
+
+const entryId = (cid: string, owner: MefsConfig, key?: string) =>
+  `${cid}.${createHash('sha256')
+    .update(JSON.stringify([ownerKey(owner), key ?? null]))
+    .digest('hex')
+    .slice(0, 16)}`;
+
+// Only well-formed CIDs are cached, they are used as file names
+const normalizeCid = (cid: string) => {
+  try {
+    return CID.parse(cid).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+const createContentCache = (cachePath: string, maxBytes: number, metadataTtlMs: number): ContentCache => {
+  // Map preserves insertion order: the least recently used entry comes first
+  const entries = new Map<string, CacheEntry>();
+  const counters = { hits: 0, misses: 0, evictions: 0 };
+  let bytes = 0;
+
+  const contentPath = (id: string) => path.join(cachePath, id);
+
+  const load = async () => {
+    await mkdir(cachePath, { recursive: true, mode: 0o700 });
+
+    // Content of interrupted downloads is never indexed
+    for (const name of await readdir(cachePath)) {
+      if (name.endsWith('.part')) {
+        await rm(contentPath(name), { force: true });
+      }
+    }
+
+    let stored: CacheEntry[];
+    try {
+      stored = JSON.parse(await readFile(contentPath(INDEX_FILE), 'utf8')) as CacheEntry[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read the cache index, starting with an empty cache:`, error);
+      }
+      return;
+    }
+
+    for (const entry of stored) {
+      const fileStat = await stat(contentPath(entry.id)).catch(() => undefined);
+      if (fileStat?.size === entry.size) {
+        entries.set(entry.id, entry);
+        bytes += entry.size;
+      }
+    }
+  };
+  const loaded = load().catch(error => console.error(`Failed to open the cache in ${cachePath}:`, error));
+
+  // Index writes are coalesced: a queued write saves every change made before it starts
+  let writing: Promise<void> = Promise.resolve();
+  let queued = false;
+  const persist = () => {
+    if (!queued) {
+      queued = true;
+      writing = writing.then(async () => {
+        queued = false;
+        const tempPath = contentPath(`.${INDEX_FILE}.${randomUUID()}.tmp`);
+        try {
+          await writeFile(tempPath, JSON.stringify([...entries.values()]), { mode: 0o600 });
+          await rename(tempPath, contentPath(INDEX_FILE));
+        } catch (error) {
+          await rm(tempPath, { force: true });
+          console.error('Failed to write the cache index:', error);
+        }
+      });
+    }
+    return writing;
+  };
+
+  const remove = async (entry: CacheEntry) => {
+    if (entries.get(entry.id) === entry) {
+      entries.delete(entry.id);
+      bytes -= entry.size;
+    }
+    await rm(contentPath(entry.id), { force: true });
+  };
+
+  const touch = (entry: CacheEntry) => {
+    entries.delete(entry.id);
+    entries.set(entry.id, entry);
+    void persist();
+  };
+
+  // Add a downloaded file, evicting the least recently used files to stay below the size cap
+  const commit = async (tempPath: string, entry: CacheEntry) => {
+    const previous = entries.get(entry.id);
+    if (previous) {
+      entries.delete(previous.id);
+      bytes -= previous.size;
+    }
+    await rename(tempPath, contentPath(entry.id));
+    entries.set(entry.id, entry);
+    bytes += entry.size;
+
+    for (const oldest of entries.values()) {
+      if (bytes <= maxBytes || oldest === entry) {
+        break;
+      }
+      await remove(oldest);
+      counters.evictions++;
+    }
+    await persist();
+  };
+
+  // Serve a cached file (or the requested range of it), undefined if its content is gone
+  const read = async (entry: CacheEntry, options: DownloadOptions = {}): Promise<DownloadStreamResult | undefined> => {
+    const start = Math.min(options.offset ?? 0, entry.size);
+    const end = options.length !== undefined ? Math.min(start + options.length, entry.size) : entry.size;
+    const size = end - start;
+    if (options.maxBytes !== undefined && size > options.maxBytes) {
+      throw new FileTooLargeError(options.maxBytes, size);
+    }
+
+    // Open the file before streaming it, so an eviction in the meantime cannot cut the stream short
+    let handle: FileHandle;
+    try {
+      handle = await open(contentPath(entry.id), 'r');
+    } catch {
+      await remove(entry);
+      void persist();
+      return undefined;
+    }
+
+    let received = 0;
+    const source = size > 0 ? handle.createReadStream({ start, end: end - 1 }) : Readable.from([]);
+    if (size === 0) {
+      await handle.close();
+    }
+    const body = (Readable.toWeb(source) as ReadableStream<Uint8Array>).pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          received += chunk.byteLength;
+          options.onProgress?.(received, size);
+          controller.enqueue(new Uint8Array(chunk));
+        },
+      })
+    );
+
+    return { body, filename: entry.filename, contentType: entry.contentType, size, totalSize: entry.size };
+  };
+
+  // Check the content of an entry cached without verification against its CID, false if it does not match
+  const verify = async (entry: CacheEntry) => {
+    try {
+      await verifyCid(entry.cid, await openAsBlob(contentPath(entry.id)));
+    } catch (error) {
+      if (!(error instanceof IntegrityError)) {
+        console.error(`Failed to verify the cached copy of ${entry.cid}:`, error);
+      }
+      return false;
+    }
+    entry.verified = true;
+    void persist();
+    return true;
+  };
+
+  // Copy a downloaded file to the cache while it is streamed to the caller.
+  // Cache failures never fail the download, the file is then simply not cached.
+  const fill = (
+    entry: Omit<CacheEntry, 'size' | 'filename' | 'contentType' | 'metadataAt'>,
+    result: DownloadStreamResult
+  ): ReadableStream<Uint8Array> => {
+    const { id, cid } = entry;
+    const reader = result.body.getReader();
+    const tempPath = contentPath(`.${id}.${randomUUID()}.part`);
+    let file: Promise<FileHandle | undefined> | undefined;
+    let written = 0;
+
+    const discard = async () => {
+      const handle = await file?.catch(() => undefined);
+      file = Promise.resolve(undefined);
+      await handle?.close().catch(() => undefined);
+      await rm(tempPath, { force: true });
+    };
+
+    // The temporary file is only created once there is something to cache
+    const openFile = () =>
+      (file ??= mkdir(cachePath, { recursive: true, mode: 0o700 }).then(() => open(tempPath, 'wx', 0o600)));
+
+    const write = async (chunk: Uint8Array) => {
+      const handle = await openFile();
+      if (!handle) {
+        return;
+      }
+      written += chunk.byteLength;
+      if (written > maxBytes) {
+        await discard();
+        return;
+      }
+      await handle.write(chunk);
+    };
+
+    const finish = async () => {
+      const handle = await openFile();
+      if (!handle) {
+        return;
+      }
+      await handle.close();
+      await commit(tempPath, {
+        ...entry,
+        size: written,
+        filename: result.filename,
+        contentType: result.contentType,
+        metadataAt: Date.now(),
+      });
+    };
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        let chunk: Awaited<ReturnType<typeof reader.read>>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          await discard();
+          controller.error(error);
+          return;
+        }
+
+        if (chunk.done) {
+          await finish().catch(async error => {
+            console.error(`Failed to cache ${cid}:`, error);
+            await discard();
+          });
+          controller.close();
+          return;
+        }
+
+        await write(chunk.value).catch(async error => {
+          console.error(`Failed to cache ${cid}:`, error);
+          await discard();
+        });
+        controller.enqueue(chunk.value);
+      },
+      async cancel(reason) {
+        await discard();
+        await reader.cancel(reason);
+      },
+    });
+  };
+
+  const wrap = (backend: StorageBackend, owner: MefsConfig): StorageBackend => {
+    // Revalidate the metadata of an entry once it is older than the TTL.
+    // A file deleted on the backend is evicted, other failures keep the cached metadata.
+    const revalidate = async (entry: CacheEntry, key?: string) => {
+      if (Date.now() - entry.metadataAt <= metadataTtlMs) {
+        return;
+      }
+      try {
+        const current = await backend.stat(entry.cid, key);
+        entry.filename = current.filename;
+        entry.contentType = current.contentType;
+        entry.metadataAt = Date.now();
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          await remove(entry);
+          void persist();
+          throw error;
+        }
+        console.error(`Failed to revalidate the metadata of ${entry.cid}, using the cached metadata:`, error);
+      }
+    };
+
+    const getStream = async (cid: string, key?: string, options: DownloadOptions = {}) => {
+      const normalized = normalizeCid(cid);
+      if (!normalized) {
+        return backend.getStream(cid, key, options);
+      }
+      await loaded;
+
+      // The backend checks public files against their CID, a copy cached without the check is checked before it is served
+      const verifying = options.public === true && isVerifiableCid(normalized);
+
+      const id = entryId(normalized, owner, key);
+      const entry = entries.get(id);
+      if (entry) {
+        await revalidate(entry, key);
+        if (verifying && !entry.verified && !(await verify(entry))) {
+          await remove(entry);
+          void persist();
+        }
+      }
+      if (entry && entries.get(id) === entry) {
+        const cached = await read(entry, options);
+        if (cached) {
+          counters.hits++;
+          touch(entry);
+          return cached;
+        }
+      }
+
+      counters.misses++;
+      const result = await backend.getStream(cid, key, options);
+
+      // Ranges are only served from a cached whole file, they are never cached themselves
+      const ranged = options.offset !== undefined || options.length !== undefined;
+      if (ranged || (result.size !== undefined && result.size > maxBytes)) {
+        return result;
+      }
+      return { ...result, body: fill({ id, cid: normalized, owner: ownerKey(owner), verified: verifying }, result) };
+    };
+
+    return {
+      ...backend,
+
+      get: async (cid, key, options) => {
+        const { body, filename, contentType, totalSize } = await getStream(cid, key, options);
+        return {
+          data: new Uint8Array(await new Response(body).arrayBuffer()),
+          filename,
+          contentType,
+          totalSize,
+        };
+      },
+
+      getStream,
+
+      stat: async (cid, key): Promise<FileStat> => {
+        const normalized = normalizeCid(cid);
+        await loaded;
+        const entry = normalized ? entries.get(entryId(normalized, owner, key)) : undefined;
+        if (!entry) {
+          return backend.stat(cid, key);
+        }
+
+        await revalidate(entry, key);
+        return { filename: entry.filename, contentType: entry.contentType, size: entry.size };
+      },
+
+      // The file is gone for every identity
+      delete: async cid => {
+        await backend.delete(cid);
+        await evictMatching(cid);
+      },
+    };
+  };
+
+  // Remove the entries of a CID (or all entries), only those of one identity if an owner is given
+  const evictMatching = async (cid?: string, owner?: MefsConfig) => {
+    await loaded;
+    const normalized = cid !== undefined ? normalizeCid(cid) : undefined;
+    if (cid !== undefined && !normalized) {
+      return { evicted: 0, bytes: 0 };
+    }
+
+    const matching = [...entries.values()].filter(
+      entry => (!normalized || entry.cid === normalized) && (!owner || entry.owner === ownerKey(owner))
+    );
+    for (const entry of matching) {
+      await remove(entry);
+    }
+    if (matching.length > 0) {
+      await persist();
+    }
+
+    return {
+      evicted: matching.length,
+      bytes: matching.reduce((total, entry) => total + entry.size, 0),
+    };
+  };
+
+  return {
+    path: cachePath,
+    wrap,
+    evict: (owner, cid) => evictMatching(cid, owner),
+    statistics: () => {
+      const lookups = counters.hits + counters.misses;
+      return {
+        ...counters,
+        hitRate: lookups > 0 ? counters.hits / lookups : 0,
+        entries: entries.size,
+        bytes,
+        maxBytes,
+      };
+    },
+  };
+};
+
+/**
+ * Get the content cache of the server
+ *
+ * @param config - The server's default MEFS configuration
+ * @returns The cache, or undefined if caching is disabled or files are stored locally anyway
+ */
+export const getContentCache = (config: MefsConfig): ContentCache | undefined => {
+  if (config.storageBackend === 'local' || !config.cachePath || !config.cacheMaxBytes) {
+    return undefined;
+  }
+
+  let cache = caches.get(config.cachePath);
+  if (!cache) {
+    cache = createContentCache(config.cachePath, config.cacheMaxBytes, config.cacheMetadataTtlMs ?? 0);
+    caches.set(config.cachePath, cache);
+  }
+  return cache;
+};
+
+/**
+ * Get the statistics of the caches opened by this server, reported by the health check
+ *
+ * @returns The statistics, or undefined if no cache is in use
+ */
+export const getCacheStatistics = (): CacheStatistics | undefined => {
+  if (caches.size === 0) {
+    return undefined;
+  }
+
+  const total = { hits: 0, misses: 0, evictions: 0, entries: 0, bytes: 0, maxBytes: 0 };
+  for (const cache of caches.values()) {
+    const statistics = cache.statistics();
+    for (const name of Object.keys(total) as (keyof typeof total)[]) {
+      total[name] += statistics[name];
+    }
+  }
+  const lookups = total.hits + total.misses;
+  return { ...total, hitRate: lookups > 0 ? total.hits / lookups : 0 };
+};
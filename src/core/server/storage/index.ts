@@ -0,0 +1,65 @@
+import { Blob } from 'node:buffer';
+import {
+  DownloadOptions,
+  DownloadResult,
+  DownloadStreamResult,
+  FileStat,
+  ListOptions,
+  ListResult,
+  UploadOptions,
+  UploadResult,
+} from '../../mefs/client.js';
+import { MefsConfig } from '../../mefs/config.js';
+import { getContentCache } from './cache.js';
+import { createLocalStorage } from './local.js';
+import { createMefsStorage } from './mefs.js';
+
+/**
+ * Storage backends the tools read files from and write files to.
+ * The MEFS backend talks to the gateway; the local backend keeps content-addressed files on disk,
+ * so the server can run offline, e.g. for development and agent tests.
+ */
+
+export interface PutOptions extends UploadOptions {
+  /** Identifies the content, e.g. its hash or its path, size and modification time, so an interrupted upload can resume */
+  source?: string;
+}
+
+export interface StorageBackend {
+  /** Store a file and return its CID */
+  put(file: Uint8Array | Blob, filename: string, options?: PutOptions): Promise<UploadResult>;
+  /** Read a file (or the requested range of it) into memory */
+  get(cid: string, key?: string, options?: DownloadOptions): Promise<DownloadResult>;
+  /** Open a file (or the requested range of it) as a stream */
+  getStream(cid: string, key?: string, options?: DownloadOptions): Promise<DownloadStreamResult>;
+  /** Get the metadata of a file without reading it */
+  stat(cid: string, key?: string): Promise<FileStat>;
+  /** List the files of the identity */
+  list(options?: ListOptions): Promise<ListResult>;
+  /** Delete a file of the identity */
+  delete(cid: string): Promise<void>;
+}
+
+/**
+ * Create the storage backend selected by MEFS_STORAGE_BACKEND for an identity.
+ * Files retrieved from MEFS are served from the content cache once they have been downloaded.
+ *
+ * @param mefsConfig - The server's default MEFS configuration, which selects the backend
+ * @param sessionConfig - The MEFS identity of the calling session
+ * @param signal - Aborts the transfers, e.g. when the tool call is cancelled
+ * @returns The storage backend
+ */
+export const createStorageBackend = (
+  mefsConfig: MefsConfig,
+  sessionConfig: MefsConfig,
+  signal?: AbortSignal
+): StorageBackend => {
+  if (mefsConfig.storageBackend === 'local') {
+    if (!mefsConfig.localStoragePath) {
+      throw new Error('The local storage backend requires MEFS_LOCAL_STORAGE_PATH');
+    }
+    return createLocalStorage(mefsConfig.localStoragePath, sessionConfig, signal);
+  }
+  const backend = createMefsStorage(mefsConfig, sessionConfig, signal);
+  return getContentCache(mefsConfig)?.wrap(backend, sessionConfig) ?? backend;
+};
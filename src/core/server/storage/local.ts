@@ -0,0 +1,153 @@
+import path from 'node:path';
+import { Blob } from 'node:buffer';
+import { createHash, randomUUID } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { CID } from 'multiformats/cid';
+import { cidFromSha256 } from '../../mefs/cid.js';
+import { applyListOptions, DownloadOptions, DownloadStreamResult, FileInfo } from '../../mefs/client.js';
+import { MefsConfig } from '../../mefs/config.js';
+import { FileTooLargeError, NotFoundError, ValidationError } from '../../mefs/errors.js';
+import { detectMimeType } from '../../mefs/utils.js';
+import type { StorageBackend } from './index.js';
+
+/**
+ * Content-addressed storage backend on the local disk, a stand-in for the MEFS gateway.
+ * Files are stored under their CIDv1 (raw codec, sha2-256), the same content always gets the same CID.
+ * Every identity has its own directory: <root>/<address>/<cid> holds the content, <cid>.json its metadata.
+ * Gateway keys are accepted but not applied, files are stored as uploaded.
+ *
+ * @param rootPath - The directory holding the files
+ * @param sessionConfig - The MEFS identity of the calling session
+ * @param signal - Aborts the transfers, e.g. when the tool call is cancelled
+ * @returns The storage backend
+ */
+export const createLocalStorage = (rootPath: string, sessionConfig: MefsConfig, signal?: AbortSignal): StorageBackend => {
+  const directory = path.join(rootPath, sessionConfig.address?.toLowerCase() || 'default');
+
+  // CIDs are used as file names, so anything else is rejected before touching the disk
+  const contentPath = (cid: string) => {
+    try {
+      return path.join(directory, CID.parse(cid).toString());
+    } catch (error) {
+      throw new ValidationError(`Invalid CID: ${cid}`, 400, { cause: error });
+    }
+  };
+
+  const readInfo = async (cid: string): Promise<FileInfo> => {
+    try {
+      return JSON.parse(await readFile(`${contentPath(cid)}.json`, 'utf8')) as FileInfo;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new NotFoundError(`File not found: ${cid}`, 404, { cause: error });
+      }
+      throw error;
+    }
+  };
+
+  const open = async (cid: string, options: DownloadOptions = {}): Promise<DownloadStreamResult> => {
+    const info = await readInfo(cid);
+    const start = Math.min(options.offset ?? 0, info.size);
+    const end = options.length !== undefined ? Math.min(start + options.length, info.size) : info.size;
+    const size = end - start;
+    if (options.maxBytes !== undefined && size > options.maxBytes) {
+      throw new FileTooLargeError(options.maxBytes, size);
+    }
+
+    let received = 0;
+    const source = size > 0 ? createReadStream(contentPath(cid), { start, end: end - 1, signal }) : Readable.from([]);
+    const body = (Readable.toWeb(source) as ReadableStream<Uint8Array>).pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          received += chunk.byteLength;
+          options.onProgress?.(received, size);
+          controller.enqueue(new Uint8Array(chunk));
+        },
+      })
+    );
+
+    return { body, filename: info.filename, contentType: info.contentType, size, totalSize: info.size };
+  };
+
+  return {
+    put: async (file, filename, options = {}) => {
+      await mkdir(directory, { recursive: true, mode: 0o700 });
+
+      const blob = file instanceof Blob ? file : new Blob([file as Uint8Array<ArrayBuffer>]);
+      const hash = createHash('sha256');
+      let written = 0;
+
+      // Write to a temporary file first, the CID is only known once all content is hashed
+      const tempPath = path.join(directory, `.${randomUUID()}.part`);
+      try {
+        await pipeline(
+          Readable.fromWeb(blob.stream() as NodeReadableStream<Uint8Array>),
+          new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+              hash.update(chunk);
+              written += chunk.length;
+              options.onProgress?.(written, blob.size);
+              callback(null, chunk);
+            },
+          }),
+          createWriteStream(tempPath, { flags: 'wx', mode: 0o600 }),
+          { signal }
+        );
+
+        const cid = cidFromSha256(hash.digest());
+        const info: FileInfo = {
+          cid,
+          filename,
+          size: written,
+          contentType: detectMimeType(filename),
+          public: options.public === true,
+          uploadedAt: new Date().toISOString(),
+        };
+        await rename(tempPath, contentPath(cid));
+        await writeFile(`${contentPath(cid)}.json`, JSON.stringify(info), { mode: 0o600 });
+
+        return { Mid: cid };
+      } catch (error) {
+        await rm(tempPath, { force: true });
+        throw error;
+      }
+    },
+
+    get: async (cid, _key, options) => {
+      const { body, filename, contentType, totalSize } = await open(cid, options);
+      return {
+        data: new Uint8Array(await new Response(body).arrayBuffer()),
+        filename,
+        contentType,
+        totalSize,
+      };
+    },
+
+    getStream: (cid, _key, options) => open(cid, options),
+
+    stat: async cid => {
+      const info = await readInfo(cid);
+      return { filename: info.filename, contentType: info.contentType, size: info.size };
+    },
+
+    list: async options => {
+      const names = await readdir(directory).catch(() => [] as string[]);
+      const files = await Promise.all(
+        names
+          .filter(name => name.endsWith('.json'))
+          .map(async name => JSON.parse(await readFile(path.join(directory, name), 'utf8')) as FileInfo)
+      );
+      files.sort((a, b) => (a.uploadedAt ?? '').localeCompare(b.uploadedAt ?? ''));
+      return applyListOptions(files, options);
+    },
+
+    delete: async cid => {
+      await readInfo(cid);
+      await rm(`${contentPath(cid)}.json`, { force: true });
+      await rm(contentPath(cid), { force: true });
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import { Blob } from 'node:buffer';
+import {
+  DEFAULT_CHUNK_SIZE,
+  deleteFile,
+  downloadFile,
+  downloadFileStream,
+  listFiles,
+  statFile,
+  uploadFile,
+} from '../../mefs/client.js';
+import { MefsConfig, withAuthTokens } from '../../mefs/config.js';
+import { uploadResumable } from '../uploads.js';
+import type { StorageBackend } from './index.js';
+
+/**
+ * Storage backend backed by the MEFS gateway.
+ * Every request runs with a valid access token of the identity, renewed when the gateway rejects it.
+ * Files larger than DEFAULT_CHUNK_SIZE are uploaded in chunks and resume when uploaded again.
+ *
+ * @param mefsConfig - The server's default MEFS configuration, which holds the upload journal path
+ * @param sessionConfig - The MEFS identity of the calling session
+ * @param signal - Aborts the requests, e.g. when the tool call is cancelled
+ * @returns The storage backend
+ */
+export const createMefsStorage = (
+  mefsConfig: MefsConfig,
+  sessionConfig: MefsConfig,
+  signal?: AbortSignal
+): StorageBackend => ({
+  put: async (file, filename, { source, ...options } = {}) => {
+    const size = file instanceof Blob ? file.size : file.length;
+    if (source && size > DEFAULT_CHUNK_SIZE) {
+      return uploadResumable(mefsConfig, sessionConfig, file, filename, options, source, signal);
+    }
+    return withAuthTokens(sessionConfig, apiConfig => uploadFile({ ...apiConfig, signal }, file, filename, options));
+  },
+
+  get: (cid, key, options) =>
+    withAuthTokens(sessionConfig, apiConfig => downloadFile({ ...apiConfig, signal }, cid, key, options)),
+
+  getStream: (cid, key, options) =>
+    withAuthTokens(sessionConfig, apiConfig => downloadFileStream({ ...apiConfig, signal }, cid, key, options)),
+
+  stat: (cid, key) => withAuthTokens(sessionConfig, apiConfig => statFile({ ...apiConfig, signal }, cid, key)),
+
+  list: options => withAuthTokens(sessionConfig, apiConfig => listFiles({ ...apiConfig, signal }, options)),
+
+  delete: cid => withAuthTokens(sessionConfig, apiConfig => deleteFile({ ...apiConfig, signal }, cid)),
+});
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { MefsConfig } from '../../mefs/config.js';
+import { resolveMefsConfig } from '../sessions.js';
+import { ContentCache } from '../storage/cache.js';
+import { ToolExtra } from '../types.js';
+import { toolError } from './error.js';
+
+const evictCacheInputSchema = z.object({
+  cid: z
+    .string()
+    .min(1, 'CID cannot be empty')
+    .optional()
+    .describe('The Content ID (CID) of the file to remove from the cache, with every key it was retrieved with'),
+  all: z
+    .boolean()
+    .optional()
+    .describe('Remove every file you retrieved from the cache (default: false)'),
+});
+
+export const evictCacheTool = (cache: ContentCache, mefsConfig: MefsConfig) => ({
+  name: 'evict_cache',
+  description:
+    'Remove files you retrieved from the local cache, so the next retrieve downloads them from MEFS again. Pass a CID to evict one file or all to evict every file you retrieved, files cached for other wallets are kept. Returns the number of evicted entries and the bytes freed.',
+  inputSchema: evictCacheInputSchema,
+  handler: async (input: z.infer<typeof evictCacheInputSchema>, extra?: ToolExtra) => {
+    try {
+      if (!input.cid && !input.all) {
+        throw new Error('Pass a cid to evict, or all to empty the cache');
+      }
+
+      // 只清除当前会话的 MEFS 身份缓存的文件
+      const sessionConfig = resolveMefsConfig(mefsConfig, extra?.sessionId);
+      const result = await cache.evict(sessionConfig, input.all ? undefined : input.cid);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              ...result,
+              cache: cache.statistics(),
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      console.error('Failed to evict cached files:', error);
+      return toolError(error, extra);
+    }
+  },
+});
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { MefsConfig } from '../../mefs/config.js';
+import { forgetUpload } from '../../mefs/dedup.js';
+import { MefsError, NotFoundError } from '../../mefs/errors.js';
+import { forgetObject } from '../catalog.js';
+import { resolveMefsConfig } from '../sessions.js';
+import { createStorageBackend } from '../storage/index.js';
+import { ToolExtra } from '../types.js';
+import { toolError } from './error.js';
+
+const deleteInputSchema = z.object({
+  cid: z
+    .string()
+    .min(1, 'CID cannot be empty')
+    .describe('The Content ID (CID) of the file to delete from MEFS'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('Only report what would be deleted, without deleting anything (default: false)'),
+  confirm: z
+    .boolean()
+    .optional()
+    .describe('Required to delete public files, which others may depend on (default: false)'),
+});
+
+export const deleteTool = (mefsConfig: MefsConfig) => ({
+  name: 'delete',
+  description:
+    'Delete (unpin) a file stored in your MEFS account by its CID. Use dryRun to check what would be deleted. Public files are only deleted with confirm set to true.',
+  inputSchema: deleteInputSchema,
+  handler: async (input: z.infer<typeof deleteInputSchema>, extra?: ToolExtra) => {
+    try {
+      // 使用当前会话的 MEFS 身份
+      const sessionConfig = resolveMefsConfig(mefsConfig, extra?.sessionId);
+
+      // 查找文件并删除（令牌失效时自动刷新并重试）
+      const storage = createStorageBackend(mefsConfig, sessionConfig, extra?.signal);
+
+      // 只能删除当前账户中的文件
+      const { files } = await storage.list();
+      const file = files.find(entry => entry.cid === input.cid);
+      if (!file) {
+        throw new NotFoundError(
+          `File ${input.cid} is not stored by account ${sessionConfig.address ?? 'default'}. It may belong to another account.`
+        );
+      }
+
+      if (!input.dryRun) {
+        // 公开文件可能被他人使用，需要确认后才能删除
+        if (file.public && !input.confirm) {
+          throw new MefsError(`File ${input.cid} is public. Set confirm to true to delete it.`, 'INVALID_REQUEST');
+        }
+
+        await storage.delete(input.cid);
+        forgetObject(sessionConfig, input.cid);
+
+        // 删除后再次上传相同内容时需要重新上传
+        if (mefsConfig.uploadIndexPath) {
+          await forgetUpload(mefsConfig.uploadIndexPath, input.cid).catch(error =>
+            console.error('Failed to update the upload index:', error)
+          );
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              cid: file.cid,
+              filename: file.filename,
+              size: file.size,
+              public: file.public,
+              deleted: !input.dryRun,
+              dryRun: input.dryRun === true,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      console.error('Failed to delete file:', error);
+      return toolError(error, extra);
+    }
+  },
+});
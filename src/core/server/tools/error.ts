@@ -0,0 +1,37 @@
+import { CancelledError, FileTooLargeError, getErrorCode, IntegrityError } from '../../mefs/errors.js';
+import { ToolExtra } from '../types.js';
+
+/**
+ * Build the error result of a tool call, with a stable code next to the name and message.
+ * Transfers aborted because the client cancelled the call are reported as cancelled.
+ *
+ * @param error - The error thrown by the tool
+ * @param extra - The request context, its signal tells whether the client cancelled the call
+ * @param details - Additional fields of the error result
+ * @returns The tool result
+ */
+export const toolError = (error: unknown, extra?: ToolExtra, details: Record<string, unknown> = {}) => {
+  // 客户端取消请求时中止的传输返回统一的取消错误
+  const failure = extra?.signal?.aborted
+    ? new CancelledError('The request was cancelled by the client', { cause: error })
+    : error;
+
+  return {
+    content: [
+      {
+        error: true,
+        type: 'text' as const,
+        text: JSON.stringify({
+          name: failure instanceof Error ? failure.name : 'Error',
+          code: getErrorCode(failure),
+          message: failure instanceof Error ? failure.message : 'Unknown error',
+          cause: failure instanceof Error && failure.cause ? (failure.cause as Error).message : null,
+          ...(failure instanceof FileTooLargeError ? { limit: failure.limit, size: failure.size } : {}),
+          ...(failure instanceof IntegrityError ? { expected: failure.expected, actual: failure.actual } : {}),
+          ...(failure instanceof CancelledError ? { cancelled: true } : {}),
+          ...details,
+        }),
+      },
+    ],
+  };
+};
@@ -1,15 +1,59 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { uploadTool } from './upload.js';
+import { uploadPathTool } from './uploadPath.js';
 import { retrieveTool } from './retrieve.js';
+import { listTool } from './list.js';
+import { deleteTool } from './delete.js';
+import { statTool } from './stat.js';
+import { shareTool } from './share.js';
+import { exportKeysTool, importKeysTool } from './keys.js';
+import { loginChallengeTool, loginTool } from './login.js';
+import { evictCacheTool } from './cache.js';
 import { MefsConfig } from '../../mefs/config.js';
+import { getKeyVault } from '../../mefs/vault.js';
+import { getLocalFileRoots } from '../files.js';
+import { getContentCache } from '../storage/cache.js';
+import { McpServerConfig } from '../types.js';
 
-export const registerTools = (mefsConfig: MefsConfig, server: McpServer) => {
+export const registerTools = (mefsConfig: MefsConfig, server: McpServer, mcpConfig: McpServerConfig) => {
   const tools = [
-    retrieveTool(mefsConfig),
-    uploadTool(mefsConfig),
+    retrieveTool(mefsConfig, mcpConfig),
+    uploadTool(mefsConfig, mcpConfig),
+    listTool(mefsConfig),
+    deleteTool(mefsConfig),
+    statTool(mefsConfig),
+    shareTool(mefsConfig),
   ];
 
   for (const tool of tools) {
     server.tool(tool.name, tool.description, tool.inputSchema.shape, tool.handler);
   }
+
+  // Logging in binds a wallet to the MCP session, the stateless REST transport has no sessions
+  if (mcpConfig.transportMode !== 'rest') {
+    for (const tool of [loginChallengeTool(mefsConfig), loginTool(mefsConfig, mcpConfig)]) {
+      server.tool(tool.name, tool.description, tool.inputSchema.shape, tool.handler);
+    }
+  }
+
+  // Local file access is only offered to local (stdio) clients with configured directories
+  if (getLocalFileRoots(mcpConfig).length > 0) {
+    const tool = uploadPathTool(mefsConfig, mcpConfig);
+    server.tool(tool.name, tool.description, tool.inputSchema.shape, tool.handler);
+  }
+
+  // The key vault needs the server's private key to encrypt the stored keys
+  const vault = getKeyVault(mefsConfig);
+  if (vault) {
+    for (const tool of [exportKeysTool(mefsConfig, vault), importKeysTool(mefsConfig, vault)]) {
+      server.tool(tool.name, tool.description, tool.inputSchema.shape, tool.handler);
+    }
+  }
+
+  // Retrieved files are only cached when the cache is enabled
+  const cache = getContentCache(mefsConfig);
+  if (cache) {
+    const tool = evictCacheTool(cache, mefsConfig);
+    server.tool(tool.name, tool.description, tool.inputSchema.shape, tool.handler);
+  }
 };
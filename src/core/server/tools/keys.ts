@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { MefsConfig } from '../../mefs/config.js';
+import { KeyVault, lookupKeys, saveKeys } from '../../mefs/vault.js';
+import { resolveMefsConfig } from '../sessions.js';
+import { ToolExtra } from '../types.js';
+import { toolError } from './error.js';
+
+const exportKeysInputSchema = z.object({
+  cids: z
+    .array(z.string().min(1, 'CID cannot be empty'))
+    .min(1, 'At least one CID is required')
+    .describe('The CIDs of the files whose keys to export'),
+});
+
+const importKeysInputSchema = z.object({
+  keys: z
+    .array(
+      z
+        .object({
+          cid: z.string().min(1, 'CID cannot be empty').describe('The CID of the file'),
+          key: z.string().optional().describe('Gateway encryption key of the file'),
+          keyHandle: z.string().optional().describe('End-to-end encryption key handle of the file'),
+        })
+        .refine(entry => entry.key || entry.keyHandle, { message: 'Each entry needs a key or keyHandle' })
+    )
+    .min(1, 'At least one key is required')
+    .describe('The keys to import, as returned by export_keys'),
+});
+
+export const exportKeysTool = (mefsConfig: MefsConfig, vault: KeyVault) => ({
+  name: 'export_keys',
+  description:
+    'Export the encryption keys stored in the key vault for the given CIDs, e.g. to share encrypted files with someone else. Anyone with the keys can decrypt the files.',
+  inputSchema: exportKeysInputSchema,
+  handler: async (input: z.infer<typeof exportKeysInputSchema>, extra?: ToolExtra) => {
+    try {
+      // 只能导出当前身份的密钥
+      const sessionConfig = resolveMefsConfig(mefsConfig, extra?.sessionId);
+      const stored = await lookupKeys(vault, sessionConfig, input.cids);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              keys: Object.entries(stored).map(([cid, entry]) => ({ cid, ...entry })),
+              missing: input.cids.filter(cid => !stored[cid]),
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      console.error('Failed to export keys:', error);
+      return toolError(error, extra);
+    }
+  },
+});
+
+export const importKeysTool = (mefsConfig: MefsConfig, vault: KeyVault) => ({
+  name: 'import_keys',
+  description:
+    'Import encryption keys exported with export_keys into the key vault, so the files can be retrieved without passing their keys.',
+  inputSchema: importKeysInputSchema,
+  handler: async (input: z.infer<typeof importKeysInputSchema>, extra?: ToolExtra) => {
+    try {
+      // 密钥保存在当前身份下
+      const sessionConfig = resolveMefsConfig(mefsConfig, extra?.sessionId);
+      await saveKeys(
+        vault,
+        sessionConfig,
+        Object.fromEntries(input.keys.map(({ cid, key, keyHandle }) => [cid, { key, keyHandle }]))
+      );
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              imported: input.keys.map(entry => entry.cid),
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      console.error('Failed to import keys:', error);
+      return toolError(error, extra);
+    }
+  },
+});
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { MefsConfig } from '../../mefs/config.js';
+import { recordObject } from '../catalog.js';
+import { resolveMefsConfig } from '../sessions.js';
+import { createStorageBackend } from '../storage/index.js';
+import { ToolExtra } from '../types.js';
+import { toolError } from './error.js';
+
+const dateSchema = z
+  .string()
+  .refine(value => !isNaN(Date.parse(value)), { message: 'Invalid date, expected ISO 8601' });
+
+const listInputSchema = z.object({
+  prefix: z.string().optional().describe('Only list files whose name starts with this prefix (optional)'),
+  contentType: z
+    .string()
+    .optional()
+    .describe('Only list files of this MIME type, or of a family such as image/* (optional)'),
+  since: dateSchema.optional().describe('Only list files uploaded at or after this ISO 8601 date (optional)'),
+  until: dateSchema.optional().describe('Only list files uploaded before this ISO 8601 date (optional)'),
+  offset: z.number().int().min(0).optional().describe('Number of matching files to skip (default: 0)'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe('Maximum number of files to return (default: 100, maximum: 1000)'),
+});
+
+const DEFAULT_LIMIT = 100;
+
+export const listTool = (mefsConfig: MefsConfig) => ({
+  name: 'list',
+  description:
+    'List the files stored in your MEFS account. Supports filtering by name prefix, content type and upload date, and pagination with offset and limit. Returns the CID, filename, size, public flag and upload time of each file.',
+  inputSchema: listInputSchema,
+  handler: async (input: z.infer<typeof listInputSchema>, extra?: ToolExtra) => {
+    try {
+      // 使用当前会话的 MEFS 身份
+      const sessionConfig = resolveMefsConfig(mefsConfig, extra?.sessionId);
+
+      // 查询账户中的文件（令牌失效时自动刷新并重试）
+      const result = await createStorageBackend(mefsConfig, sessionConfig).list({
+        prefix: input.prefix,
+        contentType: input.contentType,
+        since: input.since ? new Date(input.since) : undefined,
+        until: input.until ? new Date(input.until) : undefined,
+        offset: input.offset,
+        limit: input.limit ?? DEFAULT_LIMIT,
+      });
+
+      // 记录列出的文件，以便作为资源列出
+      for (const file of result.files) {
+        recordObject(sessionConfig, {
+          cid: file.cid,
+          filename: file.filename,
+          contentType: file.contentType,
+          size: file.size,
+        });
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+      };
+    } catch (error) {
+      console.error('Failed to list files:', error);
+      return toolError(error, extra);
+    }
+  },
+});
@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import { getChallenge, login, recoverSigner } from '../../mefs/auth.js';
+import { MefsConfig, setAuthTokens } from '../../mefs/config.js';
+import { MefsError } from '../../mefs/errors.js';
+import { setSessionIdentity } from '../sessions.js';
+import { McpServerConfig, ToolExtra } from '../types.js';
+import { toolError } from './error.js';
+
+const loginChallengeInputSchema = z.object({
+  address: z
+    .string()
+    .regex(/^0x[0-9a-fA-F]{40}$/, 'Invalid Ethereum address')
+    .describe('The Ethereum address of the wallet that will sign the login message'),
+});
+
+const loginInputSchema = z.object({
+  message: z
+    .string()
+    .min(1, 'Message cannot be empty')
+    .describe('The challenge message returned by the login_challenge tool'),
+  signature: z
+    .string()
+    .regex(/^0x[0-9a-fA-F]+$/, 'Invalid signature format')
+    .describe('The EIP-191 signature of the challenge message (personal_sign), 0x-prefixed hex'),
+});
+
+export const loginChallengeTool = (mefsConfig: MefsConfig) => ({
+  name: 'login_challenge',
+  description:
+    'Get a login challenge message for your own wallet. Sign the returned message with your wallet (personal_sign) and pass it to the login tool to store files in your own MEFS space.',
+  inputSchema: loginChallengeInputSchema,
+  handler: async (input: z.infer<typeof loginChallengeInputSchema>) => {
+    try {
+      const message = await getChallenge({
+        apiBaseUrl: mefsConfig.apiBaseUrl,
+        origin: mefsConfig.origin,
+        chainId: mefsConfig.chainId,
+        address: input.address,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              address: input.address,
+              message,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      console.error('Failed to get login challenge:', error);
+      return toolError(error);
+    }
+  },
+});
+
+export const loginTool = (mefsConfig: MefsConfig, mcpConfig?: McpServerConfig) => ({
+  name: 'login',
+  description:
+    'Log in to MEFS with a challenge message signed by your wallet. Subsequent tool calls in this session use your wallet identity instead of the server default.',
+  inputSchema: loginInputSchema,
+  handler: async (input: z.infer<typeof loginInputSchema>, extra?: ToolExtra) => {
+    try {
+      // 身份绑定到 MCP 会话；没有会话的 HTTP 传输中登录会切换所有客户端的身份
+      if (!extra?.sessionId && mcpConfig && mcpConfig.transportMode !== 'stdio') {
+        throw new MefsError(
+          `Logging in requires an MCP session, which the ${mcpConfig.transportMode} transport does not provide. Use the SSE or Streamable HTTP transport.`,
+          'INVALID_REQUEST'
+        );
+      }
+
+      // 校验签名并恢复签名者地址
+      const address = recoverSigner(input.message, input.signature);
+
+      const loginResponse = await login(mefsConfig, input.message, input.signature);
+
+      // 会话身份只持有令牌，不持有私钥
+      const identity: MefsConfig = {
+        apiBaseUrl: mefsConfig.apiBaseUrl,
+        origin: mefsConfig.origin,
+        chainId: mefsConfig.chainId,
+        address,
+      };
+      setAuthTokens(identity, {
+        accessToken: loginResponse.accessToken,
+        refreshToken: loginResponse.refreshToken,
+      });
+      setSessionIdentity(extra?.sessionId, identity);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              address,
+              newAccount: loginResponse.newAccount,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      console.error('Failed to log in:', error);
+      return toolError(error, extra);
+    }
+  },
+});
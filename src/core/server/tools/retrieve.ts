@@ -1,11 +1,27 @@
 import { z } from 'zod';
-import { downloadFile } from '../../mefs/client.js';
-import { getAuthTokens } from '../../mefs/config.js';
 import { MefsConfig } from '../../mefs/config.js';
+import { createDecryptStream, decodeKeyHandle, decryptData } from '../../mefs/crypto.js';
+import { openShareToken, ShareEntry } from '../../mefs/share.js';
+import { getKeyVault, lookupKeys, VaultEntry } from '../../mefs/vault.js';
+import { isTextMimeType, resolveMimeType } from '../../mefs/utils.js';
+import { getLocalFileRoots, resolveAllowedOutputPath, writeStreamToFile } from '../files.js';
+import { createProgressReporter } from '../progress.js';
+import { toMefsUri } from '../resources/file.js';
+import { resolveMefsConfig } from '../sessions.js';
+import { createStorageBackend } from '../storage/index.js';
+import { McpServerConfig, ToolExtra } from '../types.js';
+import { toolError } from './error.js';
 
 type RetrieveInput = {
   cid: string;
   key?: string;
+  keyHandle?: string;
+  shareToken?: string;
+  public?: boolean;
+  offset?: number;
+  length?: number;
+  outputPath?: string;
+  overwrite?: boolean;
 };
 
 // Schema with CID
@@ -17,7 +33,46 @@ const retrieveInputSchema = z.object({
   key: z
     .string()
     .optional()
-    .describe('Decryption key for encrypted files (optional, defaults to f1d4a0b37124c3a7 if file is not public)'),
+    .describe(
+      'Gateway decryption key for the file (optional, looked up in the key vault or defaults to f1d4a0b37124c3a7 if file is not public)'
+    ),
+  keyHandle: z
+    .string()
+    .optional()
+    .describe(
+      'The keyHandle returned when the file was uploaded with encrypt, used to decrypt it (optional, looked up in the key vault)'
+    ),
+  shareToken: z
+    .string()
+    .optional()
+    .describe('A share token created for this server with the share tool, used to decrypt a file shared by someone else'),
+  public: z
+    .boolean()
+    .optional()
+    .describe('Whether the file is public, whole public files are checked against their CID (default: false)'),
+  offset: z
+    .number()
+    .int()
+    .min(0, 'Offset cannot be negative')
+    .optional()
+    .describe('Only retrieve the file from this byte on (default: 0)'),
+  length: z
+    .number()
+    .int()
+    .positive('Length must be positive')
+    .optional()
+    .describe('Only retrieve this many bytes, e.g. the first few KB of a log (default: the rest of the file)'),
+  outputPath: z
+    .string()
+    .min(1, 'Output path cannot be empty')
+    .optional()
+    .describe(
+      'Write the file to this local path instead of returning its content (must be inside one of the allowed directories)'
+    ),
+  overwrite: z
+    .boolean()
+    .optional()
+    .describe('Whether to replace an existing file at outputPath (default: false)'),
 });
 
 /**
@@ -29,28 +84,131 @@ function bytesToBase64(data: Uint8Array): string {
   return Buffer.from(data).toString('base64');
 }
 
-export const retrieveTool = (mefsConfig: MefsConfig) => ({
+/**
+ * 根据 MIME 类型将文件内容转换为 MCP 原生内容
+ * 图片和音频返回 image/audio 内容，文本直接解码，其他二进制文件作为嵌入资源返回
+ * 文件片段无法作为图片或音频显示，文本片段边界处被截断的字符替换为 U+FFFD
+ * @param cid - 文件的 CID
+ * @param data - 文件数据的字节数组
+ * @param mimeType - 不含参数的 MIME 类型
+ * @param partial - 是否只是文件的一部分
+ */
+function toFileContent(cid: string, data: Uint8Array, mimeType: string, partial = false) {
+  if (!partial && mimeType.startsWith('image/')) {
+    return { type: 'image' as const, data: bytesToBase64(data), mimeType };
+  }
+  if (!partial && mimeType.startsWith('audio/')) {
+    return { type: 'audio' as const, data: bytesToBase64(data), mimeType };
+  }
+  if (isTextMimeType(mimeType)) {
+    try {
+      return { type: 'text' as const, text: new TextDecoder('utf-8', { fatal: !partial }).decode(data) };
+    } catch {
+      // 不是有效的 UTF-8 文本，作为二进制资源返回
+    }
+  }
+  return {
+    type: 'resource' as const,
+    resource: {
+      uri: toMefsUri(cid),
+      mimeType,
+      blob: bytesToBase64(data),
+    },
+  };
+}
+
+export const retrieveTool = (mefsConfig: MefsConfig, mcpConfig?: McpServerConfig) => ({
   name: 'retrieve',
   description:
-    'Retrieve a file from MEFS storage by its CID (Content ID). Returns the file content as a base64 encoded string.',
+    'Retrieve a file from MEFS storage by its CID (Content ID). Returns a metadata block followed by the file content: images and audio as image/audio content, text and JSON as plain text, and other files as an embedded resource. Files uploaded with encrypt are decrypted locally with their keyHandle, files shared by someone else with their share token. With offset and length only part of the file is retrieved, e.g. the header of a CSV, and the total size is reported. With outputPath the file is written to disk and only its metadata is returned.',
   inputSchema: retrieveInputSchema,
-  handler: async (input: RetrieveInput) => {
+  handler: async (input: RetrieveInput, extra?: ToolExtra) => {
     try {
-      // 获取认证令牌
-      const tokens = await getAuthTokens(mefsConfig);
-
-      // 从 MEFS 下载文件
-      const result = await downloadFile(
-        {
-          apiBaseUrl: mefsConfig.apiBaseUrl,
-          accessToken: tokens.accessToken,
-        },
-        input.cid,
-        input.key
-      );
-
-      // 转换为 base64 编码
-      const base64Content = bytesToBase64(result.data);
+      // 分享令牌只能用服务器的私钥解开
+      let shared: ShareEntry | undefined;
+      if (input.shareToken) {
+        if (!mefsConfig.privateKey) {
+          throw new Error('Share tokens can only be opened by a server configured with MEFS_PRIVATE_KEY');
+        }
+        shared = await openShareToken(input.shareToken, mefsConfig.privateKey);
+        if (shared.cid !== input.cid) {
+          throw new Error(`The share token is for ${shared.cid}, not ${input.cid}`);
+        }
+      }
+
+      // 使用当前会话的 MEFS 身份
+      const sessionConfig = resolveMefsConfig(mefsConfig, extra?.sessionId);
+
+      // 调用方未提供密钥时从本地密钥库查找
+      let stored: VaultEntry | undefined;
+      const vault = getKeyVault(mefsConfig);
+      if (vault && !shared && (!input.key || !input.keyHandle)) {
+        try {
+          stored = (await lookupKeys(vault, sessionConfig, [input.cid]))[input.cid];
+        } catch (error) {
+          console.error('Failed to read the key vault:', error);
+        }
+      }
+      const key = input.key ?? shared?.key ?? stored?.key;
+      const keyHandle = input.keyHandle ?? shared?.keyHandle ?? stored?.keyHandle;
+
+      // 端到端加密的文件在本地解密
+      const fileKey = keyHandle ? decodeKeyHandle(keyHandle) : undefined;
+
+      // 部分下载转换为 HTTP Range 请求；端到端加密的文件只能完整解密
+      const ranged = input.offset !== undefined || input.length !== undefined;
+      if (ranged && fileKey) {
+        throw new Error('offset and length cannot be used with end-to-end encrypted files');
+      }
+      // 客户端提供 progressToken 时报告下载进度
+      const downloadOptions = {
+        maxBytes: mcpConfig?.maxFileSizeBytes,
+        offset: input.offset,
+        length: input.length,
+        public: input.public,
+        onProgress: createProgressReporter(extra),
+      };
+      const range = (totalSize?: number) => (ranged ? { offset: input.offset ?? 0, totalSize } : {});
+      const storage = createStorageBackend(mefsConfig, sessionConfig, extra?.signal);
+
+      if (input.outputPath) {
+        // 校验输出路径位于允许的目录内
+        const filePath = await resolveAllowedOutputPath(
+          input.outputPath,
+          getLocalFileRoots(mcpConfig),
+          input.overwrite
+        );
+
+        // 以流的方式写入磁盘，不将整个文件加载到内存
+        const result = await storage.getStream(input.cid, key, downloadOptions);
+        const body = fileKey ? result.body.pipeThrough(createDecryptStream(fileKey)) : result.body;
+        const { size, sha256 } = await writeStreamToFile(body, filePath);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                cid: input.cid,
+                path: filePath,
+                filename: result.filename,
+                size,
+                contentType: result.contentType,
+                sha256,
+                ...range(result.totalSize),
+              }),
+            },
+          ],
+        };
+      }
+
+      // 从存储后端下载文件（令牌失效时自动刷新并重试）
+      const result = await storage.get(input.cid, key, downloadOptions);
+
+      const data = fileKey ? await decryptData(result.data, fileKey) : result.data;
+
+      // 网关未返回类型时根据文件名推断
+      const mimeType = resolveMimeType(result.contentType, result.filename);
 
       return {
         content: [
@@ -59,29 +217,17 @@ export const retrieveTool = (mefsConfig: MefsConfig) => ({
             text: JSON.stringify({
               cid: input.cid,
               filename: result.filename,
-              file: base64Content,
-              size: result.data.length,
+              size: data.length,
               contentType: result.contentType,
+              ...range(result.totalSize),
             }),
           },
+          toFileContent(input.cid, data, mimeType, ranged),
         ],
       };
     } catch (error) {
       console.error('Failed to retrieve file:', error);
-      return {
-        content: [
-          {
-            error: true,
-            type: 'text' as const,
-            text: JSON.stringify({
-              name: error instanceof Error ? error.name : 'Error',
-              message: error instanceof Error ? error.message : 'Unknown error',
-              cause: error instanceof Error && error.cause ? (error.cause as Error).message : null,
-              apiBaseUrl: mefsConfig.apiBaseUrl,
-            }),
-          },
-        ],
-      };
+      return toolError(error, extra, { apiBaseUrl: mefsConfig.apiBaseUrl });
     }
   },
 });
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { ethers } from 'ethers';
+import { MefsConfig } from '../../mefs/config.js';
+import { createShareToken, normalizePublicKey } from '../../mefs/share.js';
+import { getKeyVault, lookupKeys, VaultEntry } from '../../mefs/vault.js';
+import { resolveMefsConfig } from '../sessions.js';
+import { ToolExtra } from '../types.js';
+import { toolError } from './error.js';
+
+const shareInputSchema = z.object({
+  cid: z
+    .string()
+    .min(1, 'CID cannot be empty')
+    .describe('The Content ID (CID) of the file to share'),
+  recipientPublicKey: z
+    .string()
+    .regex(/^(0x)?[0-9a-fA-F]+$/, 'Invalid public key format')
+    .describe(
+      "The recipient's secp256k1 public key (compressed or uncompressed hex), printed by the recipient's server at startup"
+    ),
+  key: z
+    .string()
+    .optional()
+    .describe('Gateway encryption key of the file (optional, looked up in the key vault)'),
+  keyHandle: z
+    .string()
+    .optional()
+    .describe('The keyHandle returned when the file was uploaded with encrypt (optional, looked up in the key vault)'),
+});
+
+export const shareTool = (mefsConfig: MefsConfig) => ({
+  name: 'share',
+  description:
+    "Share a private file with another wallet. Encrypts the file's keys for the recipient's public key and returns a share token that only the recipient's server can open, by passing it to retrieve.",
+  inputSchema: shareInputSchema,
+  handler: async (input: z.infer<typeof shareInputSchema>, extra?: ToolExtra) => {
+    try {
+      const recipientPublicKey = normalizePublicKey(input.recipientPublicKey);
+
+      // 调用方未提供密钥时从本地密钥库查找
+      let stored: VaultEntry | undefined;
+      const vault = getKeyVault(mefsConfig);
+      if (vault && !input.key && !input.keyHandle) {
+        const sessionConfig = resolveMefsConfig(mefsConfig, extra?.sessionId);
+        stored = (await lookupKeys(vault, sessionConfig, [input.cid]))[input.cid];
+      }
+      const key = input.key ?? stored?.key;
+      const keyHandle = input.keyHandle ?? stored?.keyHandle;
+      if (!key && !keyHandle) {
+        throw new Error(`No keys found for ${input.cid}. Pass the key or keyHandle of the file.`);
+      }
+
+      const shareToken = createShareToken({ cid: input.cid, key, keyHandle }, recipientPublicKey);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              cid: input.cid,
+              recipient: ethers.computeAddress(recipientPublicKey),
+              shareToken,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      console.error('Failed to share file:', error);
+      return toolError(error, extra);
+    }
+  },
+});
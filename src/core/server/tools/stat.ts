@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { MefsConfig } from '../../mefs/config.js';
+import { getKeyVault, lookupKeys, VaultEntry } from '../../mefs/vault.js';
+import { resolveMefsConfig } from '../sessions.js';
+import { createStorageBackend } from '../storage/index.js';
+import { ToolExtra } from '../types.js';
+import { toolError } from './error.js';
+
+const statInputSchema = z.object({
+  cid: z
+    .string()
+    .min(1, 'CID cannot be empty')
+    .describe('The Content ID (CID) of the file to inspect'),
+  key: z
+    .string()
+    .optional()
+    .describe('Decryption key for encrypted files (optional, defaults to f1d4a0b37124c3a7 if file is not public)'),
+});
+
+export const statTool = (mefsConfig: MefsConfig) => ({
+  name: 'stat',
+  description:
+    'Get the metadata of a file in MEFS storage by its CID without downloading it. Returns the filename, size, content type, and for files of your own account whether the file is public and encrypted.',
+  inputSchema: statInputSchema,
+  handler: async (input: z.infer<typeof statInputSchema>, extra?: ToolExtra) => {
+    try {
+      // 使用当前会话的 MEFS 身份
+      const sessionConfig = resolveMefsConfig(mefsConfig, extra?.sessionId);
+
+      // 通过 HEAD 请求获取文件元数据（令牌失效时自动刷新并重试）
+      const storage = createStorageBackend(mefsConfig, sessionConfig, extra?.signal);
+      const [stat, listing] = await Promise.allSettled([storage.stat(input.cid, input.key), storage.list()]);
+      if (stat.status === 'rejected') {
+        throw stat.reason;
+      }
+
+      // 文件列表只用于判断公开状态，获取失败时状态未知
+      if (listing.status === 'rejected') {
+        console.error('Failed to list the account files:', listing.reason);
+      }
+      const owned =
+        listing.status === 'fulfilled' ? listing.value.files.find(file => file.cid === input.cid) : undefined;
+
+      // 上传时端到端加密的文件在本地密钥库中有 keyHandle
+      let stored: VaultEntry | undefined;
+      const vault = getKeyVault(mefsConfig);
+      if (vault) {
+        try {
+          stored = (await lookupKeys(vault, sessionConfig, [input.cid]))[input.cid];
+        } catch (error) {
+          console.error('Failed to read the key vault:', error);
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              cid: input.cid,
+              filename: stat.value.filename,
+              size: stat.value.size ?? owned?.size,
+              contentType: stat.value.contentType,
+              // 公开状态只能从当前账户的文件列表得知，非公开文件由网关加密存储
+              public: owned?.public ?? null,
+              encrypted: stored?.keyHandle ? true : owned ? !owned.public : null,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      console.error('Failed to stat file:', error);
+      return toolError(error, extra);
+    }
+  },
+});
@@ -1,7 +1,18 @@
+import { createHash } from 'node:crypto';
 import { z } from 'zod';
-import { base64ToBytes } from '../../mefs/utils.js';
-import { uploadFile } from '../../mefs/client.js';
-import { getAuthTokens, MefsConfig } from '../../mefs/config.js';
+import { base64ToBytes, detectMimeType } from '../../mefs/utils.js';
+import { MefsConfig } from '../../mefs/config.js';
+import { createContentFingerprint } from '../../mefs/dedup.js';
+import { encodeKeyHandle, encryptData, generateFileKey } from '../../mefs/crypto.js';
+import { FileTooLargeError } from '../../mefs/errors.js';
+import { getKeyVault, saveKeys } from '../../mefs/vault.js';
+import { recordObject } from '../catalog.js';
+import { createProgressReporter } from '../progress.js';
+import { resolveMefsConfig } from '../sessions.js';
+import { createStorageBackend } from '../storage/index.js';
+import { findDuplicateUpload, rememberUpload } from '../uploads.js';
+import { McpServerConfig, ToolExtra } from '../types.js';
+import { toolError } from './error.js';
 
 const uploadInputSchema = z.object({
   file: z
@@ -28,39 +39,122 @@ const uploadInputSchema = z.object({
   key: z
     .string()
     .optional()
-    .describe('Encryption key for the file (optional, defaults to f1d4a0b37124c3a7 if not public)'),
+    .describe(
+      'Gateway encryption key for the file (optional, the gateway uses the shared key f1d4a0b37124c3a7 if not public, use encrypt for end-to-end encryption)'
+    ),
   public: z
     .boolean()
     .optional()
     .describe('Whether the file should be public (default: false)'),
+  encrypt: z
+    .boolean()
+    .optional()
+    .describe(
+      'Encrypt the file with a random key before uploading it (default: false). The returned keyHandle is needed to retrieve the file.'
+    ),
+  force: z
+    .boolean()
+    .optional()
+    .describe(
+      'Upload the file even if the same content was uploaded before with the same settings (default: false, the existing CID is returned)'
+    ),
 });
 
-export const uploadTool = (mefsConfig: MefsConfig) => ({
+export const uploadTool = (mefsConfig: MefsConfig, mcpConfig?: McpServerConfig) => ({
   name: 'upload',
   description:
-    'Upload a file to MEFS storage. The file must be provided as a base64 encoded string. Returns the CID (Mid) of the uploaded file.',
+    'Upload a file to MEFS storage. The file must be provided as a base64 encoded string. Large files are uploaded in resumable chunks with progress notifications. Returns the CID (Mid) of the uploaded file, and with encrypt the keyHandle needed to retrieve it. Content uploaded before with the same settings is not uploaded again, its existing CID is returned with deduplicated set to true, and originalFilename is the name it was first uploaded with if that differs from name.',
   inputSchema: uploadInputSchema,
-  handler: async (input: z.infer<typeof uploadInputSchema>) => {
+  handler: async (input: z.infer<typeof uploadInputSchema>, extra?: ToolExtra) => {
     try {
       // 将 base64 字符串转换为字节数组
       const fileBytes = base64ToBytes(input.file);
 
-      // 获取认证令牌
-      const tokens = await getAuthTokens(mefsConfig);
+      // 在发起网络请求前检查文件大小
+      if (mcpConfig && fileBytes.length > mcpConfig.maxFileSizeBytes) {
+        throw new FileTooLargeError(mcpConfig.maxFileSizeBytes, fileBytes.length);
+      }
+
+      // 使用当前会话的 MEFS 身份
+      const sessionConfig = resolveMefsConfig(mefsConfig, extra?.sessionId);
+      const storage = createStorageBackend(mefsConfig, sessionConfig, extra?.signal);
+
+      // 相同内容以相同设置上传过时直接返回已有的 CID，不再消耗配额
+      // 按加密前的内容识别，端到端加密的密文每次都不同
+      const dedupOptions = { key: input.key, public: input.public, encrypt: input.encrypt };
+      const contentHash = createHash('sha256').update(fileBytes).digest('hex');
+      const fingerprint = createContentFingerprint(sessionConfig, contentHash, dedupOptions);
+      const duplicate = input.force
+        ? undefined
+        : await findDuplicateUpload(mefsConfig, sessionConfig, storage, fingerprint, dedupOptions);
+      if (duplicate) {
+        const { record, keyHandle } = duplicate;
+        recordObject(sessionConfig, {
+          cid: record.cid,
+          filename: record.filename,
+          contentType: detectMimeType(record.filename),
+          size: record.size,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                cid: record.cid,
+                filename: input.name,
+                // 网关中保存的仍是首次上传时的文件名
+                ...(record.filename !== input.name ? { originalFilename: record.filename } : {}),
+                size: record.size,
+                ...(keyHandle ? { keyHandle } : {}),
+                deduplicated: true,
+              }),
+            },
+          ],
+        };
+      }
+
+      // 端到端加密：使用每个文件独立的随机密钥在本地加密
+      const fileKey = input.encrypt ? generateFileKey() : undefined;
+      const uploadBytes = fileKey ? encryptData(fileBytes, fileKey) : fileBytes;
+
+      // 上传文件到存储后端（令牌失效时自动刷新并重试）
+      // 大文件分块上传，失败的分块自动重试，中断的上传按内容哈希续传
+      // 客户端提供 progressToken 时报告上传进度
+      const result = await storage.put(uploadBytes, input.name, {
+        key: input.key,
+        public: input.public,
+        onProgress: createProgressReporter(extra),
+        source: fileKey ? createHash('sha256').update(uploadBytes).digest('hex') : contentHash,
+      });
 
-      // 上传文件到 MEFS
-      const result = await uploadFile(
-        {
-          apiBaseUrl: mefsConfig.apiBaseUrl,
-          accessToken: tokens.accessToken,
-        },
-        fileBytes,
-        input.name,
-        {
-          key: input.key,
-          public: input.public,
+      // 记录上传的文件，以便作为资源列出
+      recordObject(sessionConfig, {
+        cid: result.Mid,
+        filename: input.name,
+        contentType: detectMimeType(input.name),
+        size: fileBytes.length,
+      });
+
+      // 将密钥保存到本地密钥库，retrieve 时可自动查找
+      const keyHandle = fileKey ? encodeKeyHandle(fileKey) : undefined;
+      const vault = getKeyVault(mefsConfig);
+      if (vault && (input.key || keyHandle)) {
+        try {
+          await saveKeys(vault, sessionConfig, { [result.Mid]: { key: input.key, keyHandle } });
+        } catch (error) {
+          // 上传已成功，密钥仍会在结果中返回
+          console.error('Failed to save keys to the key vault:', error);
         }
-      );
+      }
+
+      // 记录内容哈希对应的 CID，相同内容再次上传时直接返回
+      await rememberUpload(mefsConfig, fingerprint, {
+        cid: result.Mid,
+        filename: input.name,
+        size: fileBytes.length,
+        uploadedAt: Date.now(),
+      });
 
       return {
         content: [
@@ -70,6 +164,7 @@ export const uploadTool = (mefsConfig: MefsConfig) => ({
               cid: result.Mid,
               filename: input.name,
               size: fileBytes.length,
+              ...(keyHandle ? { keyHandle } : {}),
             }),
           },
         ],
@@ -95,19 +190,7 @@ export const uploadTool = (mefsConfig: MefsConfig) => ({
         };
       }
 
-      return {
-        content: [
-          {
-            error: true,
-            type: 'text' as const,
-            text: JSON.stringify({
-              name: error instanceof Error ? error.name : 'Error',
-              message: error instanceof Error ? error.message : 'Unknown error',
-              cause: error instanceof Error && error.cause ? (error.cause as Error).message : null,
-            }),
-          },
-        ],
-      };
+      return toolError(error, extra);
     }
   },
 });
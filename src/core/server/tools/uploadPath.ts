@@ -0,0 +1,131 @@
+import path from 'node:path';
+import { openAsBlob } from 'node:fs';
+import { readFile, stat } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import { MefsConfig } from '../../mefs/config.js';
+import { encodeKeyHandle, encryptData, generateFileKey } from '../../mefs/crypto.js';
+import { FileTooLargeError } from '../../mefs/errors.js';
+import { getKeyVault, saveKeys } from '../../mefs/vault.js';
+import { detectMimeType } from '../../mefs/utils.js';
+import { getLocalFileRoots, resolveAllowedPath } from '../files.js';
+import { recordObject } from '../catalog.js';
+import { createProgressReporter } from '../progress.js';
+import { resolveMefsConfig } from '../sessions.js';
+import { createStorageBackend } from '../storage/index.js';
+import { McpServerConfig, ToolExtra } from '../types.js';
+import { toolError } from './error.js';
+
+const uploadPathInputSchema = z.object({
+  path: z
+    .string()
+    .min(1, 'File path cannot be empty')
+    .describe('Path of the local file to upload (must be inside one of the allowed directories)'),
+  name: z
+    .string()
+    .min(1, 'File name cannot be empty')
+    .optional()
+    .describe('Name for the uploaded file (defaults to the base name of the path)'),
+  key: z
+    .string()
+    .optional()
+    .describe(
+      'Gateway encryption key for the file (optional, the gateway uses the shared key f1d4a0b37124c3a7 if not public, use encrypt for end-to-end encryption)'
+    ),
+  public: z
+    .boolean()
+    .optional()
+    .describe('Whether the file should be public (default: false)'),
+  encrypt: z
+    .boolean()
+    .optional()
+    .describe(
+      'Encrypt the file with a random key before uploading it (default: false). The returned keyHandle is needed to retrieve the file.'
+    ),
+});
+
+export const uploadPathTool = (mefsConfig: MefsConfig, mcpConfig: McpServerConfig) => ({
+  name: 'upload_path',
+  description:
+    'Upload a local file to MEFS storage by its path. The file is streamed from disk, so it does not need to be encoded. Returns the CID, size and MIME type of the uploaded file, and with encrypt the keyHandle needed to retrieve it.',
+  inputSchema: uploadPathInputSchema,
+  handler: async (input: z.infer<typeof uploadPathInputSchema>, extra?: ToolExtra) => {
+    try {
+      // 校验路径位于允许的目录内
+      const filePath = await resolveAllowedPath(input.path, getLocalFileRoots(mcpConfig));
+      const fileStat = await stat(filePath);
+      if (!fileStat.isFile()) {
+        throw new Error(`Not a regular file: ${input.path}`);
+      }
+      if (fileStat.size > mcpConfig.maxFileSizeBytes) {
+        throw new FileTooLargeError(mcpConfig.maxFileSizeBytes, fileStat.size);
+      }
+
+      const filename = input.name || path.basename(filePath);
+      const contentType = detectMimeType(filename);
+
+      // 端到端加密需要将文件读入内存后在本地加密（大小已受 maxFileSizeBytes 限制）
+      // 否则以流的方式读取文件，不将整个文件加载到内存
+      const fileKey = input.encrypt ? generateFileKey() : undefined;
+      const file = fileKey
+        ? encryptData(await readFile(filePath), fileKey)
+        : await openAsBlob(filePath, { type: contentType });
+
+      // 使用当前会话的 MEFS 身份
+      const sessionConfig = resolveMefsConfig(mefsConfig, extra?.sessionId);
+
+      // 上传文件到存储后端（令牌失效时自动刷新并重试）
+      // 大文件分块上传，失败的分块自动重试，中断的上传可以续传
+      // 客户端提供 progressToken 时报告上传进度
+      const storage = createStorageBackend(mefsConfig, sessionConfig, extra?.signal);
+      const result = await storage.put(file, filename, {
+        key: input.key,
+        public: input.public,
+        onProgress: createProgressReporter(extra),
+        // 加密内容每次不同，按密文识别；否则按路径、大小和修改时间识别
+        source:
+          file instanceof Uint8Array
+            ? createHash('sha256').update(file).digest('hex')
+            : `${filePath}:${fileStat.size}:${fileStat.mtimeMs}`,
+      });
+
+      // 记录上传的文件，以便作为资源列出
+      recordObject(sessionConfig, {
+        cid: result.Mid,
+        filename,
+        contentType,
+        size: fileStat.size,
+      });
+
+      // 将密钥保存到本地密钥库，retrieve 时可自动查找
+      const keyHandle = fileKey ? encodeKeyHandle(fileKey) : undefined;
+      const vault = getKeyVault(mefsConfig);
+      if (vault && (input.key || keyHandle)) {
+        try {
+          await saveKeys(vault, sessionConfig, { [result.Mid]: { key: input.key, keyHandle } });
+        } catch (error) {
+          // 上传已成功，密钥仍会在结果中返回
+          console.error('Failed to save keys to the key vault:', error);
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              cid: result.Mid,
+              filename,
+              size: fileStat.size,
+              contentType,
+              ...(keyHandle ? { keyHandle } : {}),
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      console.error('Failed to upload file from path:', error);
+      return toolError(error, extra);
+    }
+  },
+});
@@ -0,0 +1,97 @@
+import express from 'express';
+import cors from 'cors';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getCacheStatistics } from '../storage/cache.js';
+import { McpServerConfig, McpServerFactory } from '../types.js';
+
+/**
+ * Shared building blocks for the HTTP based transports (SSE, Streamable HTTP and REST).
+ */
+
+/**
+ * Create an express app with the CORS policy used by all HTTP transports.
+ *
+ * @param extraHeaders - Additional headers the transport reads from or sends to the client
+ * @returns The express app
+ */
+export const createHttpApp = (extraHeaders: string[] = []): express.Express => {
+  const app = express();
+
+  app.use(
+    cors({
+      origin: '*',
+      methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+      allowedHeaders: ['Content-Type', 'Authorization', ...extraHeaders],
+      credentials: true,
+      exposedHeaders: ['Content-Type', 'Access-Control-Allow-Origin', ...extraHeaders],
+    })
+  );
+
+  return app;
+};
+
+/**
+ * Register the health check and info endpoints.
+ *
+ * @param app - The express app
+ * @param mcpServer - The MCP server instance, or the factory creating one per session
+ * @param sessions - Active sessions keyed by session ID
+ * @param endpoints - Endpoints advertised on the info route
+ */
+export const registerInfoRoutes = (
+  app: express.Express,
+  mcpServer: McpServer | McpServerFactory,
+  sessions: Map<string, unknown>,
+  endpoints: Record<string, string>
+) => {
+  // Add a simple health check endpoint - required by MCP
+  app.get('/health', (req, res) => {
+    const cache = getCacheStatistics();
+    res.status(200).json({
+      status: 'ok',
+      server: mcpServer ? 'initialized' : 'initializing',
+      activeConnections: sessions.size,
+      connectedSessionIds: Array.from(sessions.keys()),
+      ...(cache ? { cache } : {}),
+    });
+  });
+
+  // Add a root endpoint for basic info
+  app.get('/', (req, res) => {
+    res.status(200).json({
+      name: 'MCP Server',
+      version: '1.0.0',
+      endpoints: {
+        ...endpoints,
+        health: '/health',
+      },
+      status: mcpServer ? 'ready' : 'initializing',
+      activeConnections: sessions.size,
+    });
+  });
+};
+
+/**
+ * Start the HTTP server and apply the configured connection timeout.
+ *
+ * @param app - The express app
+ * @param config - The server configuration
+ * @param label - Transport name used in the startup log
+ * @param path - Path of the main transport endpoint used in the startup log
+ * @returns The HTTP server instance
+ */
+export const listenHttpApp = (
+  app: express.Express,
+  config: McpServerConfig,
+  label: string,
+  path: string
+) => {
+  const httpServer = app.listen(config.port, config.host, () => {
+    console.error(`MCP ${label} Server running on http://${config.host}:${config.port}${path}`);
+  });
+
+  // Set server timeout
+  httpServer.timeout = config.connectionTimeoutMs;
+
+  return httpServer;
+};
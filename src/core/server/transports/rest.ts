@@ -0,0 +1,50 @@
+import express from 'express';
+import { RestServerTransport } from '@chatmcp/sdk/server/rest.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServerConfig } from '../types.js';
+import { createHttpApp, listenHttpApp, registerInfoRoutes } from './http.js';
+
+/**
+ * REST transport serves JSON-RPC over plain HTTP POST requests, one request per response.
+ * This is the mode used by MCP.so Cloud.
+ *
+ * Useful when you need:
+ * - Stateless request/response access without long-lived connections
+ * - Deployment behind load balancers or serverless proxies that do not support SSE
+ * - Simple integration from HTTP clients and scripts
+ *
+ * @param mcpServer - The MCP server instance
+ * @returns The HTTP server instance
+ */
+export const startRestTransport = async (mcpServer: McpServer, config: McpServerConfig) => {
+  const app = createHttpApp();
+  const endpoint = config.endpoint || '/rest';
+
+  // The transport is stateless, so a single instance serves every request
+  const transport = new RestServerTransport({ endpoint, port: config.port });
+  await mcpServer.connect(transport);
+
+  // JSON-RPC endpoint
+  app.post(endpoint, express.json({ limit: '4mb' }), async (req, res) => {
+    try {
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error(`Exception handling REST request: ${error}`);
+      if (!res.headersSent) {
+        res.status(500).json({
+          jsonrpc: '2.0',
+          id: req.body?.id ?? null,
+          error: {
+            code: -32000,
+            message: `Internal server error: ${error}`,
+          },
+        });
+      }
+    }
+  });
+
+  // Requests are not tied to sessions, so no connections are reported
+  registerInfoRoutes(app, mcpServer, new Map(), { rest: endpoint });
+
+  return listenHttpApp(app, config, 'REST', endpoint);
+};
@@ -1,8 +1,8 @@
-import express from 'express';
 import cors from 'cors';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { McpServerConfig } from '../types.js';
+import { McpServerConfig, McpServerFactory } from '../types.js';
+import { createHttpApp, listenHttpApp, registerInfoRoutes } from './http.js';
+import { clearSessionIdentity } from '../sessions.js';
 
 /**
  * SSE transport enables server-to-client streaming with HTTP POST requests for client-to-server communication.
@@ -14,26 +14,17 @@ import { McpServerConfig } from '../types.js';
  * - Integration with web applications
  * - Scalable deployment options
  *
+ * Every connection gets its own MCP server, since a server only sends messages on the last transport it was connected to.
+ *
  * See https://modelcontextprotocol.io/docs/concepts/transports#server-sent-events-sse for more information.
  *
- * @param mcpServer - The MCP server instance
- * @returns The MCP server and transport instance
+ * @param createServer - Creates the MCP server of a new connection
+ * @returns The HTTP server instance
  */
-export const startSSETransport = async (mcpServer: McpServer, config: McpServerConfig) => {
-  const app = express();
-  const router = express.Router();
-
-  app.use(
-    cors({
-      origin: '*',
-      methods: ['GET', 'POST', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
-      credentials: true,
-      exposedHeaders: ['Content-Type', 'Access-Control-Allow-Origin'],
-    })
-  );
-
-  // Preflight requests are handled by the global CORS middleware above
+export const startSSETransport = async (createServer: McpServerFactory, config: McpServerConfig) => {
+  const app = createHttpApp();
+
+  // Preflight requests are handled by the global CORS middleware from createHttpApp
   app.options('/sse', cors());
 
   // Keep track of active connections with session IDs
@@ -42,7 +33,7 @@ export const startSSETransport = async (mcpServer: McpServer, config: McpServerC
   // SSE endpoint
   // @ts-ignore
   app.get('/sse', async (req, res) => {
-    if (!mcpServer) {
+    if (!createServer) {
       console.error('Server not initialized yet, rejecting SSE connection');
       return res.status(503).send('Server not initialized');
     }
@@ -65,12 +56,13 @@ export const startSSETransport = async (mcpServer: McpServer, config: McpServerC
         if (transport) {
           console.error(`SSE connection closed for session: ${transport.sessionId}`);
           connections.delete(transport.sessionId);
+          clearSessionIdentity(transport.sessionId);
           res.end();
         }
       });
 
       // Connect transport to server - this must happen before sending any data
-      await mcpServer.connect(transport);
+      await createServer().connect(transport);
 
       // Send a valid JSON-RPC notification
       // We'll use the 'system.notify' method to inform the client about the session
@@ -99,7 +91,7 @@ export const startSSETransport = async (mcpServer: McpServer, config: McpServerC
     // Extract the session ID from the URL query parameters
     let sessionId = req.query.sessionId?.toString();
 
-    if (!mcpServer) {
+    if (!createServer) {
       console.error('Server not initialized yet');
       return res.status(503).json({
         jsonrpc: '2.0',
@@ -160,41 +152,10 @@ export const startSSETransport = async (mcpServer: McpServer, config: McpServerC
     }
   });
 
-  // Add a simple health check endpoint - required by MCP
-  app.get('/health', (req, res) => {
-    res.status(200).json({
-      status: 'ok',
-      server: mcpServer ? 'initialized' : 'initializing',
-      activeConnections: connections.size,
-      connectedSessionIds: Array.from(connections.keys()),
-    });
-  });
-
-  // Add a root endpoint for basic info
-  app.get('/', (req, res) => {
-    res.status(200).json({
-      name: 'MCP Server',
-      version: '1.0.0',
-      endpoints: {
-        sse: '/sse',
-        messages: '/messages',
-        health: '/health',
-      },
-      status: mcpServer ? 'ready' : 'initializing',
-      activeConnections: connections.size,
-    });
+  registerInfoRoutes(app, createServer, connections, {
+    sse: '/sse',
+    messages: '/messages',
   });
 
-  // Use the router
-  app.use(router);
-
-  // Start the HTTP server
-  const httpServer = app.listen(config.port, () => {
-    console.error(`MCP SSE Server running on http://${config.host}:${config.port}/sse`);
-  });
-
-  // Set server timeout
-  httpServer.timeout = config.connectionTimeoutMs;
-
-  return httpServer;
+  return listenHttpApp(app, config, 'SSE', '/sse');
 };
@@ -0,0 +1,233 @@
+import { randomUUID } from 'node:crypto';
+import express from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { McpServerConfig, McpServerFactory } from '../types.js';
+import { createHttpApp, listenHttpApp, registerInfoRoutes } from './http.js';
+import { clearSessionIdentity } from '../sessions.js';
+
+const MCP_ENDPOINT = '/mcp';
+
+/** Maximum number of events kept per session for stream resumption */
+const MAX_STORED_EVENTS = 1000;
+
+/** Maximum total size of the events kept per session, since retrieve results carry whole files */
+const MAX_STORED_EVENT_BYTES = 10 * 1024 * 1024;
+
+/** Sessions without an open request are closed after this time */
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * In-memory event store so clients can resume a dropped stream with `Last-Event-ID`.
+ * One store is created per session and discarded when the session closes.
+ */
+class SessionEventStore implements EventStore {
+  private events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage; size: number }>();
+  private counter = 0;
+  private totalBytes = 0;
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${++this.counter}`;
+    const size = Buffer.byteLength(JSON.stringify(message));
+    this.events.set(eventId, { streamId, message, size });
+    this.totalBytes += size;
+
+    // Drop the oldest events once a limit is reached (Map preserves insertion order)
+    while (this.events.size > MAX_STORED_EVENTS || this.totalBytes > MAX_STORED_EVENT_BYTES) {
+      const [oldest, event] = this.events.entries().next().value!;
+      this.events.delete(oldest);
+      this.totalBytes -= event.size;
+    }
+
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.get(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const lastEvent = this.events.get(lastEventId);
+    if (!lastEvent) {
+      return '';
+    }
+
+    let found = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (streamId !== lastEvent.streamId) {
+        continue;
+      }
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found) {
+        await send(eventId, message);
+      }
+    }
+
+    return lastEvent.streamId;
+  }
+}
+
+/**
+ * Streamable HTTP transport serves the whole MCP session through a single endpoint.
+ * Clients POST JSON-RPC messages, GET to open a server-to-client stream and DELETE to end the session.
+ * Sessions are identified by the `Mcp-Session-Id` header and streams can be resumed with `Last-Event-ID`.
+ * Sessions the client neither uses nor ends are closed once they have been idle for `SESSION_IDLE_TIMEOUT_MS`.
+ *
+ * Every session gets its own MCP server, since a server only sends responses and notifications on the last transport it was connected to.
+ *
+ * This is the successor of the SSE transport and is preferred for new clients.
+ *
+ * See https://modelcontextprotocol.io/docs/concepts/transports#streamable-http for more information.
+ *
+ * @param createServer - Creates the MCP server of a new session
+ * @returns The HTTP server instance
+ */
+export const startStreamableHTTPTransport = async (createServer: McpServerFactory, config: McpServerConfig) => {
+  const app = createHttpApp(['Mcp-Session-Id', 'Mcp-Protocol-Version', 'Last-Event-ID']);
+
+  // Keep track of active sessions by session ID
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+
+  // Idle timers of sessions without an open request, and the number of open requests of each session
+  const idleTimers = new Map<string, NodeJS.Timeout>();
+  const openRequests = new Map<string, number>();
+
+  const scheduleIdleClose = (sessionId: string) => {
+    clearTimeout(idleTimers.get(sessionId));
+    const timer = setTimeout(() => {
+      console.error(`Closing idle Streamable HTTP session: ${sessionId}`);
+      void sessions.get(sessionId)?.close();
+    }, SESSION_IDLE_TIMEOUT_MS);
+    timer.unref();
+    idleTimers.set(sessionId, timer);
+  };
+
+  // A session with an open request (e.g. a server-to-client stream) is not idle
+  const trackRequest = (sessionId: string, res: express.Response) => {
+    clearTimeout(idleTimers.get(sessionId));
+    idleTimers.delete(sessionId);
+    openRequests.set(sessionId, (openRequests.get(sessionId) ?? 0) + 1);
+
+    res.on('close', () => {
+      const remaining = (openRequests.get(sessionId) ?? 1) - 1;
+      if (remaining > 0) {
+        openRequests.set(sessionId, remaining);
+        return;
+      }
+      openRequests.delete(sessionId);
+      if (sessions.has(sessionId)) {
+        scheduleIdleClose(sessionId);
+      }
+    });
+  };
+
+  const sendError = (res: express.Response, status: number, code: number, message: string, id?: unknown) => {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      id: id ?? null,
+      error: {
+        code,
+        message,
+      },
+    });
+  };
+
+  // Client-to-server messages; an initialize request without a session starts a new session
+  app.post(MCP_ENDPOINT, express.json({ limit: '4mb' }), async (req, res) => {
+    const sessionId = req.header('mcp-session-id');
+
+    try {
+      let transport = sessionId ? sessions.get(sessionId) : undefined;
+
+      if (!transport) {
+        if (sessionId) {
+          console.error(`Session not found: ${sessionId}`);
+          return sendError(res, 404, -32001, 'Session not found', req.body?.id);
+        }
+
+        if (!isInitializeRequest(req.body)) {
+          return sendError(
+            res,
+            400,
+            -32000,
+            'No session ID provided. Please send an initialize request first.',
+            req.body?.id
+          );
+        }
+
+        const newTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          eventStore: new SessionEventStore(),
+          onsessioninitialized: id => {
+            sessions.set(id, newTransport);
+            scheduleIdleClose(id);
+          },
+        });
+
+        newTransport.onclose = () => {
+          if (newTransport.sessionId) {
+            console.error(`Streamable HTTP session closed: ${newTransport.sessionId}`);
+            sessions.delete(newTransport.sessionId);
+            clearTimeout(idleTimers.get(newTransport.sessionId));
+            idleTimers.delete(newTransport.sessionId);
+            openRequests.delete(newTransport.sessionId);
+            clearSessionIdentity(newTransport.sessionId);
+          }
+        };
+
+        await createServer().connect(newTransport);
+        transport = newTransport;
+      } else {
+        trackRequest(sessionId!, res);
+      }
+
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error(`Exception handling streamable HTTP request: ${error}`);
+      if (!res.headersSent) {
+        sendError(res, 500, -32000, `Internal server error: ${error}`, req.body?.id);
+      }
+    }
+  });
+
+  // Server-to-client stream (GET) and session termination (DELETE) require an existing session
+  const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+    const sessionId = req.header('mcp-session-id');
+    if (!sessionId) {
+      return sendError(res, 400, -32000, 'Missing Mcp-Session-Id header');
+    }
+
+    const transport = sessions.get(sessionId);
+    if (!transport) {
+      console.error(`Session not found: ${sessionId}`);
+      return sendError(res, 404, -32001, 'Session not found');
+    }
+
+    trackRequest(sessionId, res);
+
+    try {
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      console.error(`Exception handling streamable HTTP request: ${error}`);
+      if (!res.headersSent) {
+        sendError(res, 500, -32000, `Internal server error: ${error}`);
+      }
+    }
+  };
+
+  app.get(MCP_ENDPOINT, handleSessionRequest);
+  app.delete(MCP_ENDPOINT, handleSessionRequest);
+
+  registerInfoRoutes(app, createServer, sessions, {
+    mcp: MCP_ENDPOINT,
+  });
+
+  return listenHttpApp(app, config, 'Streamable HTTP', MCP_ENDPOINT);
+};
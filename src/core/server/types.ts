@@ -1,4 +1,7 @@
 // import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
 
 /**
  * Configuration for the MCP server
@@ -7,7 +10,7 @@ export interface McpServerConfig {
   /** Connection timeout in milliseconds */
   connectionTimeoutMs: number;
   /** Transport mode */
-  transportMode: 'stdio' | 'sse' | 'rest';
+  transportMode: 'stdio' | 'sse' | 'http' | 'rest';
   /** Port number */
   port: number;
   /** Host name */
@@ -16,8 +19,22 @@ export interface McpServerConfig {
   maxFileSizeBytes: number;
   /** REST endpoint */
   endpoint?: string;
+  /** Local directories that file system tools may read from and write to */
+  allowedRoots?: string[];
 }
 
+/**
+ * Create an MCP server with all tools and resources registered.
+ * An MCP server serves a single transport, so session based transports create one per session.
+ */
+export type McpServerFactory = () => McpServer;
+
+/**
+ * Extra request information passed by the MCP SDK to tool handlers
+ * (session ID, abort signal, progress token, notification sender)
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
 // /**
 //  * MCP tool definition
 //  */
@@ -0,0 +1,144 @@
+import { Blob } from 'node:buffer';
+import { UploadOptions, uploadFileChunked } from '../mefs/client.js';
+import { MefsConfig, withAuthTokens } from '../mefs/config.js';
+import { DedupOptions, findUpload, forgetUpload, recordUpload, UploadRecord } from '../mefs/dedup.js';
+import { NotFoundError } from '../mefs/errors.js';
+import {
+  createUploadFingerprint,
+  loadUploadSession,
+  removeUploadSession,
+  saveUploadSession,
+} from '../mefs/journal.js';
+import { getKeyVault, lookupKeys } from '../mefs/vault.js';
+import type { StorageBackend } from './storage/index.js';
+
+/**
+ * Upload a large file in chunks, resuming an interrupted upload of the same content.
+ * The session is recorded in the upload journal after every chunk, so the upload can
+ * also resume after a server restart. Journal failures are logged and never fail the upload.
+ *
+ * @param mefsConfig - The server's default MEFS configuration, which holds the journal path
+ * @param sessionConfig - The MEFS identity uploading the file
+ * @param file - The file content
+ * @param filename - The name of the uploaded file
+ * @param options - The upload options, onProgress is called with the bytes received by the gateway so far
+ * @param source - Identifies the content, e.g. its hash or its path, size and modification time
+ * @param signal - Aborts the upload when the tool call is cancelled, the session stays in the journal
+ * @returns The upload result
+ */
+export const uploadResumable = async (
+  mefsConfig: MefsConfig,
+  sessionConfig: MefsConfig,
+  file: Uint8Array | Blob,
+  filename: string,
+  options: UploadOptions,
+  source: string,
+  signal?: AbortSignal
+) => {
+  const journalPath = mefsConfig.uploadJournalPath;
+  const fingerprint = createUploadFingerprint(sessionConfig, source, filename, options);
+
+  let session = journalPath
+    ? await loadUploadSession(journalPath, fingerprint).catch(error => {
+        console.error('Failed to read the upload journal:', error);
+        return undefined;
+      })
+    : undefined;
+
+  // A retry after a token refresh resumes from the last completed chunk
+  const result = await withAuthTokens(sessionConfig, apiConfig =>
+    uploadFileChunked({ ...apiConfig, signal }, file, filename, {
+      ...options,
+      session,
+      onSession: async next => {
+        session = next;
+        if (journalPath) {
+          await saveUploadSession(journalPath, fingerprint, next).catch(error =>
+            console.error('Failed to update the upload journal:', error)
+          );
+        }
+      },
+    })
+  );
+
+  if (journalPath) {
+    await removeUploadSession(journalPath, fingerprint).catch(error =>
+      console.error('Failed to update the upload journal:', error)
+    );
+  }
+
+  return result;
+};
+
+/**
+ * Find an earlier upload of the same content with the same settings, so it does not have to be uploaded again.
+ * The file must still be stored, and for end-to-end encrypted content its keyHandle must be in the key vault.
+ * Index failures are logged and never fail the upload, the content is then simply uploaded again.
+ *
+ * @param mefsConfig - The server's default MEFS configuration, which holds the upload index path
+ * @param sessionConfig - The MEFS identity uploading the file
+ * @param storage - The storage backend of the identity
+ * @param fingerprint - The fingerprint of the content, from createContentFingerprint
+ * @param options - The upload options
+ * @returns The earlier upload and its keyHandle, or undefined if the content has to be uploaded
+ */
+export const findDuplicateUpload = async (
+  mefsConfig: MefsConfig,
+  sessionConfig: MefsConfig,
+  storage: StorageBackend,
+  fingerprint: string,
+  options: DedupOptions
+): Promise<{ record: UploadRecord; keyHandle?: string } | undefined> => {
+  const indexPath = mefsConfig.uploadIndexPath;
+  if (!indexPath) {
+    return undefined;
+  }
+
+  try {
+    const record = await findUpload(indexPath, fingerprint);
+    if (!record) {
+      return undefined;
+    }
+
+    // The random key of end-to-end encrypted content is only kept in the key vault
+    let keyHandle: string | undefined;
+    if (options.encrypt) {
+      const vault = getKeyVault(mefsConfig);
+      keyHandle = vault ? (await lookupKeys(vault, sessionConfig, [record.cid]))[record.cid]?.keyHandle : undefined;
+      if (!keyHandle) {
+        return undefined;
+      }
+    }
+
+    // The file may have been deleted by another client in the meantime
+    try {
+      await storage.stat(record.cid, options.key);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        await forgetUpload(indexPath, record.cid);
+        return undefined;
+      }
+      throw error;
+    }
+
+    return { record, keyHandle };
+  } catch (error) {
+    console.error('Failed to look up the upload index:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Remember an upload, so the same content is not uploaded again
+ *
+ * @param mefsConfig - The server's default MEFS configuration, which holds the upload index path
+ * @param fingerprint - The fingerprint of the content, from createContentFingerprint
+ * @param record - The upload
+ */
+export const rememberUpload = async (mefsConfig: MefsConfig, fingerprint: string, record: UploadRecord) => {
+  if (mefsConfig.uploadIndexPath) {
+    await recordUpload(mefsConfig.uploadIndexPath, fingerprint, record).catch(error =>
+      console.error('Failed to update the upload index:', error)
+    );
+  }
+};
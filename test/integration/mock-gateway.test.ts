@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { authenticate, getChallenge, login } from '../../src/core/mefs/auth.js';
+import { downloadFile, listFiles, statFile, uploadFile, uploadFileChunked } from '../../src/core/mefs/client.js';
+import { clearAuthTokens, MefsConfig, withAuthTokens } from '../../src/core/mefs/config.js';
+import { retrieveTool } from '../../src/core/server/tools/retrieve.js';
+import { uploadTool } from '../../src/core/server/tools/upload.js';
+import { deleteTool } from '../../src/core/server/tools/delete.js';
+import { MockGateway, startMockGateway } from './mock-gateway.js';
+
+/**
+ * Client and tool paths against the bundled mock gateway, no MEFS API needed
+ */
+describe('MEFS Mock Gateway Integration Tests', () => {
+  const wallet = new ethers.Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+  const content = new TextEncoder().encode('This is a test file for upload');
+
+  let gateway: MockGateway;
+  let config: MefsConfig;
+
+  beforeAll(async () => {
+    gateway = await startMockGateway();
+  });
+
+  afterAll(async () => {
+    await gateway.close();
+  });
+
+  beforeEach(() => {
+    gateway.reset();
+    clearAuthTokens();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    config = {
+      apiBaseUrl: gateway.url,
+      origin: 'https://memo.io',
+      chainId: 985,
+      privateKey: wallet.privateKey,
+      address: wallet.address,
+      retry: { baseDelayMs: 0 },
+    };
+  });
+
+  describe('authentication', () => {
+    it('should log in with a signed challenge', async () => {
+      const tokens = await authenticate(config);
+
+      expect(tokens.accessToken).toBeTruthy();
+      expect(tokens.refreshToken).toBeTruthy();
+    });
+
+    it('should reject signatures of another wallet', async () => {
+      const message = await getChallenge(config);
+      const signature = await ethers.Wallet.createRandom().signMessage(message);
+
+      await expect(login(config, message, signature)).rejects.toMatchObject({ name: 'AuthError', status: 401 });
+    });
+
+    it('should not accept a challenge twice', async () => {
+      const message = await getChallenge(config);
+      const signature = await wallet.signMessage(message);
+      await login(config, message, signature);
+
+      await expect(login(config, message, signature)).rejects.toMatchObject({ status: 401 });
+    });
+  });
+
+  describe('files', () => {
+    it('should upload and download a file', async () => {
+      const { Mid } = await withAuthTokens(config, apiConfig => uploadFile(apiConfig, content, 'test-file.txt'));
+      const result = await withAuthTokens(config, apiConfig => downloadFile(apiConfig, Mid));
+
+      expect(Mid).toMatch(/^bafkrei/);
+      expect(result).toMatchObject({ filename: 'test-file.txt', contentType: 'text/plain' });
+      expect(new TextDecoder().decode(result.data)).toBe('This is a test file for upload');
+    });
+
+    it('should check the key of private files', async () => {
+      const { Mid } = await withAuthTokens(config, apiConfig =>
+        uploadFile(apiConfig, content, 'test-file.txt', { key: 'secret' })
+      );
+
+      await expect(withAuthTokens(config, apiConfig => downloadFile(apiConfig, Mid))).rejects.toMatchObject({
+        name: 'AuthError',
+        status: 403,
+      });
+      await expect(withAuthTokens(config, apiConfig => downloadFile(apiConfig, Mid, 'secret'))).resolves.toBeDefined();
+    });
+
+    it('should serve ranges, metadata and listings', async () => {
+      const { Mid } = await withAuthTokens(config, apiConfig => uploadFile(apiConfig, content, 'test-file.txt'));
+
+      const part = await withAuthTokens(config, apiConfig => downloadFile(apiConfig, Mid, undefined, { offset: 10, length: 4 }));
+      expect(new TextDecoder().decode(part.data)).toBe('test');
+      expect(part.totalSize).toBe(content.length);
+
+      await expect(withAuthTokens(config, apiConfig => statFile(apiConfig, Mid))).resolves.toMatchObject({
+        filename: 'test-file.txt',
+        size: content.length,
+      });
+      await expect(withAuthTokens(config, listFiles)).resolves.toMatchObject({
+        total: 1,
+        files: [{ cid: Mid, filename: 'test-file.txt', public: false }],
+      });
+    });
+
+    it('should upload large files in chunks', async () => {
+      const { Mid } = await withAuthTokens(config, apiConfig =>
+        uploadFileChunked(apiConfig, content, 'test-file.txt', { chunkSize: 8 })
+      );
+      const result = await withAuthTokens(config, apiConfig => downloadFile(apiConfig, Mid));
+
+      expect(result.data).toEqual(content);
+      expect(gateway.requests.filter(request => request.startsWith('PUT'))).toHaveLength(4);
+    });
+  });
+
+  describe('faults', () => {
+    it('should renew the access token after a 401', async () => {
+      await withAuthTokens(config, listFiles);
+      gateway.faults = { unauthorized: 1, only: /^\/mefs\// };
+
+      await expect(withAuthTokens(config, listFiles)).resolves.toMatchObject({ total: 0 });
+      expect(gateway.requests).toContain('GET /refresh');
+    });
+
+    it('should retry gateway errors of idempotent requests', async () => {
+      await withAuthTokens(config, listFiles);
+      gateway.faults = { serverErrors: 2 };
+
+      await expect(withAuthTokens(config, listFiles)).resolves.toMatchObject({ total: 0 });
+      expect(gateway.requests.filter(request => request === 'GET /mefs/listobjects')).toHaveLength(4);
+    });
+
+    it('should not retry uploads', async () => {
+      await withAuthTokens(config, listFiles);
+      gateway.faults = { serverErrors: 1 };
+
+      await expect(
+        withAuthTokens(config, apiConfig => uploadFile(apiConfig, content, 'test-file.txt'))
+      ).rejects.toMatchObject({ name: 'GatewayError', code: 'GATEWAY_ERROR', status: 503 });
+      expect(gateway.files.size).toBe(0);
+    });
+
+    it('should fail downloads of truncated bodies', async () => {
+      const { Mid } = await withAuthTokens(config, apiConfig => uploadFile(apiConfig, content, 'test-file.txt'));
+      gateway.faults = { truncateBodies: true };
+
+      await expect(withAuthTokens(config, apiConfig => downloadFile(apiConfig, Mid))).rejects.toThrow();
+    });
+
+    it('should detect tampered downloads of public files', async () => {
+      const { Mid } = await withAuthTokens(config, apiConfig =>
+        uploadFile(apiConfig, content, 'test-file.txt', { public: true })
+      );
+      gateway.faults = { corruptBodies: true };
+
+      await expect(
+        withAuthTokens(config, apiConfig => downloadFile(apiConfig, Mid, undefined, { public: true }))
+      ).rejects.toMatchObject({
+        name: 'IntegrityError',
+        expected: Mid,
+      });
+    });
+
+    it('should abort slow requests when cancelled', async () => {
+      await withAuthTokens(config, listFiles);
+      gateway.faults = { latencyMs: 5000 };
+
+      await expect(
+        withAuthTokens(config, apiConfig => listFiles({ ...apiConfig, signal: AbortSignal.timeout(50) }))
+      ).rejects.toMatchObject({ name: 'TimeoutError' });
+    });
+  });
+
+  describe('tools', () => {
+    it('should upload, retrieve and delete a file', async () => {
+      const upload = await uploadTool(config).handler({
+        file: Buffer.from(content).toString('base64'),
+        name: 'test-file.txt',
+      });
+      const { cid } = JSON.parse(upload.content[0].text);
+
+      const retrieve = await retrieveTool(config).handler({ cid });
+      expect(retrieve.content[1]).toEqual({ type: 'text', text: 'This is a test file for upload' });
+
+      const deleted = await deleteTool(config).handler({ cid });
+      expect(JSON.parse(deleted.content[0].text)).toMatchObject({ cid, deleted: true });
+      expect(gateway.files.size).toBe(0);
+    });
+
+    it('should report gateway errors with their code', async () => {
+      const retrieve = await retrieveTool(config).handler({ cid: 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e' });
+
+      expect(JSON.parse((retrieve.content[0] as { text: string }).text)).toMatchObject({ name: 'NotFoundError', code: 'NOT_FOUND' });
+    });
+  });
+});
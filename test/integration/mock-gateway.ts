@@ -0,0 +1,393 @@
+import { randomBytes, createHash } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { Readable } from 'node:stream';
+import { setTimeout as delay } from 'node:timers/promises';
+import express from 'express';
+import { ethers } from 'ethers';
+import { CID } from 'multiformats/cid';
+import * as raw from 'multiformats/codecs/raw';
+import * as Digest from 'multiformats/hashes/digest';
+import { sha256 } from 'multiformats/hashes/sha2';
+
+/**
+ * In-process mock of the MEFS gateway, so client and tool paths can be tested offline.
+ *
+ * Implements the endpoints used by the server: /challenge, /login (with EIP-191 signature
+ * verification), /refresh, multipart upload to /mefs/, chunked uploads under /mefs/upload,
+ * download (GET/HEAD with Range support and key checks), /mefs/listobjects and DELETE /mefs/{cid}.
+ *
+ * Faults can be injected through `gateway.faults` to exercise the error handling of the client.
+ */
+
+/** Shared key the gateway applies to private files uploaded without a key */
+export const DEFAULT_GATEWAY_KEY = 'f1d4a0b37124c3a7';
+
+export interface GatewayFaults {
+  /** Delay every response by this many milliseconds */
+  latencyMs?: number;
+  /** Reject this many authenticated requests with 401, as if the access token had expired */
+  unauthorized?: number;
+  /** Fail this many requests with 503 */
+  serverErrors?: number;
+  /** Close downloads halfway through the body, after announcing the full length */
+  truncateBodies?: boolean;
+  /** Flip the first byte of downloads, as a tampering gateway would */
+  corruptBodies?: boolean;
+  /** Only inject faults into requests whose path matches */
+  only?: RegExp;
+}
+
+export interface StoredFile {
+  cid: string;
+  owner: string;
+  name: string;
+  data: Uint8Array;
+  contentType: string;
+  key?: string;
+  public: boolean;
+  uploadedAt: Date;
+}
+
+interface UploadSession {
+  owner: string;
+  name: string;
+  size: number;
+  chunkSize: number;
+  key?: string;
+  public: boolean;
+  chunks: Map<number, Uint8Array>;
+}
+
+export interface MockGateway {
+  /** Base URL to use as MEFS_API_BASE_URL / apiBaseUrl */
+  url: string;
+  /** Faults injected into the following requests, counters decrease as faults are injected */
+  faults: GatewayFaults;
+  /** Stored files by CID */
+  files: Map<string, StoredFile>;
+  /** Requests received, as "METHOD /path" */
+  requests: string[];
+  /** Forget all files, sessions, tokens, faults and recorded requests */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+const computeCid = (data: Uint8Array) =>
+  CID.createV1(raw.code, Digest.create(sha256.code, createHash('sha256').update(data).digest())).toString();
+
+// Access and refresh tokens are JWT shaped so the client can read their expiry
+const createToken = (address: string, type: 'access' | 'refresh', ttlSeconds: number) => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const payload = { sub: address, typ: type, exp: Math.floor(Date.now() / 1000) + ttlSeconds, jti: randomBytes(8).toString('hex') };
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(payload)}.${randomBytes(16).toString('base64url')}`;
+};
+
+/**
+ * Start a mock gateway on a random local port
+ *
+ * @returns The running gateway
+ */
+export const startMockGateway = async (): Promise<MockGateway> => {
+  const app = express();
+
+  const nonces = new Map<string, string>(); // nonce -> address
+  const tokens = new Map<string, { address: string; type: 'access' | 'refresh'; expiresAt: number }>();
+  const sessions = new Map<string, UploadSession>();
+
+  const issueToken = (address: string, type: 'access' | 'refresh') => {
+    const ttlSeconds = type === 'access' ? 3600 : 7 * 24 * 3600;
+    const token = createToken(address, type, ttlSeconds);
+    tokens.set(token, { address, type, expiresAt: Date.now() + ttlSeconds * 1000 });
+    return token;
+  };
+
+  // Resolve the bearer token of a request to its address
+  const authenticate = (req: express.Request, type: 'access' | 'refresh') => {
+    const token = req.header('authorization')?.replace(/^Bearer /, '');
+    const entry = token ? tokens.get(token) : undefined;
+    if (!entry || entry.type !== type || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return entry.address;
+  };
+
+  const gateway: MockGateway = {
+    url: '',
+    faults: {},
+    files: new Map(),
+    requests: [],
+    reset() {
+      gateway.faults = {};
+      gateway.files.clear();
+      gateway.requests.length = 0;
+      nonces.clear();
+      tokens.clear();
+      sessions.clear();
+    },
+    close: () => new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+
+  const injects = (req: express.Request) => !gateway.faults.only || gateway.faults.only.test(req.path);
+
+  // Record requests and inject faults before any route runs
+  app.use(async (req, res, next) => {
+    gateway.requests.push(`${req.method} ${req.path}`);
+    if (!injects(req)) {
+      return next();
+    }
+
+    const { faults } = gateway;
+    if (faults.latencyMs) {
+      await delay(faults.latencyMs);
+    }
+    if (faults.serverErrors) {
+      faults.serverErrors--;
+      res.status(503).send('injected gateway error');
+      return;
+    }
+    if (faults.unauthorized && req.header('authorization')) {
+      faults.unauthorized--;
+      res.status(401).send('injected unauthorized');
+      return;
+    }
+    next();
+  });
+
+  app.get('/challenge', (req, res) => {
+    const address = typeof req.query.address === 'string' ? req.query.address : undefined;
+    if (!address || !ethers.isAddress(address)) {
+      res.status(400).send('invalid address');
+      return;
+    }
+
+    const nonce = randomBytes(8).toString('hex');
+    nonces.set(nonce, ethers.getAddress(address));
+    const origin = req.header('origin') || 'https://memo.io';
+    res.type('text/plain').send(
+      [
+        `${new URL(origin).host} wants you to sign in with your Ethereum account:`,
+        ethers.getAddress(address),
+        '',
+        'Sign in to MEFS',
+        '',
+        `URI: ${origin}`,
+        'Version: 1',
+        `Chain ID: ${req.query.chainid ?? 985}`,
+        `Nonce: ${nonce}`,
+        `Issued At: ${new Date().toISOString()}`,
+      ].join('\n')
+    );
+  });
+
+  app.post('/login', express.json(), (req, res) => {
+    const { message, signature } = req.body ?? {};
+    const nonce = typeof message === 'string' ? message.match(/^Nonce: (\w+)$/m)?.[1] : undefined;
+    const address = nonce ? nonces.get(nonce) : undefined;
+    if (!address) {
+      res.status(401).send('unknown or used challenge');
+      return;
+    }
+
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(message, signature);
+    } catch {
+      res.status(401).send('invalid signature');
+      return;
+    }
+    if (signer !== address) {
+      res.status(401).send('signature does not match the challenge address');
+      return;
+    }
+
+    nonces.delete(nonce!);
+    const newAccount = ![...tokens.values()].some(entry => entry.address === address);
+    res.json({ accessToken: issueToken(address, 'access'), refreshToken: issueToken(address, 'refresh'), newAccount });
+  });
+
+  app.get('/refresh', (req, res) => {
+    const address = authenticate(req, 'refresh');
+    if (!address) {
+      res.status(401).send('invalid refresh token');
+      return;
+    }
+    res.json({ accessToken: issueToken(address, 'access') });
+  });
+
+  // Every file endpoint requires a valid access token
+  const files = express.Router();
+  files.use((req, res, next) => {
+    const address = authenticate(req, 'access');
+    if (!address) {
+      res.status(401).send('invalid token');
+      return;
+    }
+    res.locals.address = address;
+    next();
+  });
+
+  const store = (owner: string, name: string, data: Uint8Array, key: string | undefined, isPublic: boolean) => {
+    const cid = computeCid(data);
+    gateway.files.set(cid, {
+      cid,
+      owner,
+      name,
+      data,
+      contentType: name.endsWith('.txt') ? 'text/plain' : 'application/octet-stream',
+      key: isPublic ? undefined : key || DEFAULT_GATEWAY_KEY,
+      public: isPublic,
+      uploadedAt: new Date(),
+    });
+    return cid;
+  };
+
+  files.post('/', async (req, res) => {
+    const request = new Request(`http://gateway${req.originalUrl}`, {
+      method: 'POST',
+      headers: Object.entries(req.headers).flatMap(([name, value]) => (value === undefined ? [] : [[name, String(value)]])),
+      body: Readable.toWeb(req) as ReadableStream<Uint8Array>,
+      duplex: 'half',
+    } as RequestInit);
+    const form = await request.formData().catch(() => undefined);
+    const file = form?.get('file');
+    if (!form || !(file instanceof File)) {
+      res.status(400).send('missing file');
+      return;
+    }
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    const key = form.get('key');
+    const cid = store(res.locals.address, file.name, data, typeof key === 'string' ? key : undefined, form.get('public') === 'true');
+    res.json({ Mid: cid });
+  });
+
+  files.post('/upload', express.json(), (req, res) => {
+    const { name, size, chunkSize, key, public: isPublic } = req.body ?? {};
+    if (typeof name !== 'string' || !Number.isInteger(size) || !Number.isInteger(chunkSize) || chunkSize <= 0) {
+      res.status(400).send('invalid upload');
+      return;
+    }
+    const uploadId = randomBytes(8).toString('hex');
+    sessions.set(uploadId, { owner: res.locals.address, name, size, chunkSize, key, public: isPublic === true, chunks: new Map() });
+    res.json({ UploadId: uploadId });
+  });
+
+  files.put('/upload/:id/:index', express.raw({ type: () => true, limit: '64mb' }), (req, res) => {
+    const session = sessions.get(req.params.id);
+    if (!session || session.owner !== res.locals.address) {
+      res.status(404).send('unknown upload');
+      return;
+    }
+    session.chunks.set(Number(req.params.index), new Uint8Array(req.body as Buffer));
+    res.status(200).end();
+  });
+
+  files.post('/upload/:id/complete', (req, res) => {
+    const session = sessions.get(req.params.id);
+    if (!session || session.owner !== res.locals.address) {
+      res.status(404).send('unknown upload');
+      return;
+    }
+
+    const chunkCount = Math.max(1, Math.ceil(session.size / session.chunkSize));
+    const chunks = Array.from({ length: chunkCount }, (_, index) => session.chunks.get(index));
+    if (chunks.some(chunk => !chunk)) {
+      res.status(400).send('missing chunks');
+      return;
+    }
+    const data = new Uint8Array(Buffer.concat(chunks as Uint8Array[]));
+    if (data.length !== session.size) {
+      res.status(400).send('size mismatch');
+      return;
+    }
+
+    sessions.delete(req.params.id);
+    res.json({ Mid: store(session.owner, session.name, data, session.key, session.public) });
+  });
+
+  files.get('/listobjects', (_req, res) => {
+    const owned = [...gateway.files.values()].filter(file => file.owner === res.locals.address);
+    res.json({
+      Objects: owned.map(file => ({
+        Mid: file.cid,
+        Name: file.name,
+        Size: file.data.length,
+        ContentType: file.contentType,
+        Public: file.public,
+        ModTime: file.uploadedAt.toISOString(),
+      })),
+    });
+  });
+
+  files.get('/:cid', (req, res) => {
+    const file = gateway.files.get(req.params.cid);
+    if (!file) {
+      res.status(404).send('file not found');
+      return;
+    }
+    const key = typeof req.query.key === 'string' ? req.query.key : DEFAULT_GATEWAY_KEY;
+    if (!file.public && key !== file.key) {
+      res.status(403).send('invalid key');
+      return;
+    }
+
+    let data = file.data;
+    const range = req.header('range')?.match(/^bytes=(\d+)-(\d*)$/);
+    if (range) {
+      const start = Number(range[1]);
+      const end = range[2] ? Math.min(Number(range[2]), file.data.length - 1) : file.data.length - 1;
+      if (start >= file.data.length) {
+        res.status(416).set('Content-Range', `bytes */${file.data.length}`).end();
+        return;
+      }
+      data = file.data.subarray(start, end + 1);
+      res.status(206).set('Content-Range', `bytes ${start}-${end}/${file.data.length}`);
+    }
+
+    // setHeader keeps the content type as stored, res.set would add a charset
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.name}"`);
+    res.setHeader('Content-Length', String(data.length));
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    if (gateway.faults.corruptBodies && injects(req) && data.length > 0) {
+      data = Uint8Array.from(data);
+      data[0] ^= 0xff;
+    }
+
+    if (gateway.faults.truncateBodies && injects(req)) {
+      // Announce the full length but close the connection halfway through
+      res.flushHeaders();
+      res.write(data.subarray(0, Math.floor(data.length / 2)), () => res.socket?.destroy());
+      return;
+    }
+    res.end(data);
+  });
+
+  files.delete('/:cid', (req, res) => {
+    const file = gateway.files.get(req.params.cid);
+    if (!file) {
+      res.status(404).send('file not found');
+      return;
+    }
+    if (file.owner !== res.locals.address) {
+      res.status(403).send('forbidden');
+      return;
+    }
+    gateway.files.delete(file.cid);
+    res.status(200).end();
+  });
+
+  app.use('/mefs', files);
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  gateway.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return gateway;
+};
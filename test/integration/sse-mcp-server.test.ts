@@ -2,9 +2,12 @@ import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import path from 'path';
+import os from 'os';
 import fs from 'fs/promises';
+import { existsSync } from 'fs';
 import { fileURLToPath } from 'url';
-import { getTestEnv, TEST_FILEPATH } from './test-config.js';
+import { getTestEnv, SERVER_PATH } from './test-config.js';
+import { MockGateway, startMockGateway } from './mock-gateway.js';
 import { ChildProcess } from 'child_process';
 import { spawn } from 'child_process';
 
@@ -15,28 +18,30 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const PORT = 3002; // Specific port for SSE tests
 const TEST_HOST = 'localhost';
 
-// Skip tests if running in CI environment
-// These tests require specific environment configuration and external services
-// that might not be available in CI environments
-const isCI = process.env.CI === 'true';
-(isCI ? describe.skip : describe)('MCP Server SSE Integration Tests', () => {
+// These tests start the built server against the mock gateway, run `pnpm build` first
+const isBuilt = existsSync(SERVER_PATH);
+(isBuilt ? describe : describe.skip)('MCP Server SSE Integration Tests', () => {
   let client: Client;
   let tempFilePath: string;
+  let gateway: MockGateway;
+  let stateDir: string;
   let serverProcess: ChildProcess;
   let clientTransport: SSEClientTransport;
 
   // Create a temporary test file and start server
   beforeAll(async () => {
+    gateway = await startMockGateway();
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mefs-mcp-test-'));
+
     // Create a temporary file path
     tempFilePath = path.join(__dirname, '..', '..', 'temp-test-file.txt');
     await fs.writeFile(tempFilePath, 'This is a test file', 'utf8');
 
     // Start server as a separate process
     console.log('Starting SSE server process...');
-    serverProcess = spawn('node', ['dist/index.js'], {
+    serverProcess = spawn('node', [SERVER_PATH], {
       env: {
-        ...process.env,
-        ...getTestEnv(),
+        ...getTestEnv(gateway, stateDir),
         MCP_TRANSPORT_MODE: 'sse', // Set SSE mode
         MCP_SERVER_PORT: PORT.toString(), // Use the correct environment variable name
       },
@@ -91,6 +96,9 @@ const isCI = process.env.CI === 'true';
     if (serverProcess) {
       serverProcess.kill();
     }
+
+    await gateway.close();
+    await fs.rm(stateDir, { recursive: true, force: true });
   });
 
   it('should list available tools', async () => {
@@ -123,43 +131,35 @@ const isCI = process.env.CI === 'true';
 
     // Parse upload response
     const uploadResult = JSON.parse(uploadContent.text);
-    expect(uploadResult).toHaveProperty('root');
-    // The root can be either a string or an object with toString method
-    expect(uploadResult.root).toBeDefined();
-    expect(uploadResult).toHaveProperty('url');
-    expect(uploadResult).toHaveProperty('files');
-
-    // Test that files is an object with at least one entry
-    expect(typeof uploadResult.files).toBe('object');
-    expect(uploadResult.files).not.toBeNull();
-
-    // Get the first file entry (could be array or object format from dag-json)
-    const fileEntries = Object.entries(uploadResult.files);
-    expect(fileEntries.length).toBeGreaterThan(0);
-
-    // Check the first file entry (could be in different formats depending on serialization)
-    const firstFile = fileEntries[0];
-    expect(firstFile).toBeDefined();
+    expect(uploadResult).toMatchObject({ filename: 'test-file.txt', size: fileBuffer.length });
+    expect(typeof uploadResult.cid).toBe('string');
+
+    // The file is stored on the gateway under the returned CID
+    expect(gateway.files.get(uploadResult.cid)?.name).toBe('test-file.txt');
   }, 30_000); // Increase the timeout for upload test
 
   it('should retrieve a file', async () => {
+    const uploadResponse = await client.callTool({
+      name: 'upload',
+      arguments: {
+        file: Buffer.from('This is a file to retrieve').toString('base64'),
+        name: 'retrieve-file.txt',
+      },
+    });
+    const { cid } = JSON.parse((uploadResponse.content as Array<{ type: string; text: string }>)[0].text);
+
     // Call retrieve tool
     const retrieveResponse = await client.callTool({
       name: 'retrieve',
       arguments: {
-        filepath: TEST_FILEPATH,
+        cid,
       },
     });
 
-    // Type assertion for retrieve response
-    const retrieveContent = (retrieveResponse.content as Array<{ type: string; text: string }>)[0];
-    expect(retrieveContent).toHaveProperty('text');
-
-    // Parse retrieve response
-    const retrieveResult = JSON.parse(retrieveContent.text);
-    expect(retrieveResult).toHaveProperty('data');
-    // MIME type may or may not be present depending on server configuration
-    // so we don't assert on it to make the test more robust
+    // The metadata block is followed by the text content
+    const retrieveContent = retrieveResponse.content as Array<{ type: string; text: string }>;
+    expect(JSON.parse(retrieveContent[0].text)).toMatchObject({ cid });
+    expect(retrieveContent[1]).toEqual({ type: 'text', text: 'This is a file to retrieve' });
   }, 30_000); // Increase timeout for retrieve test
 
   it('should handle invalid upload parameters', async () => {
@@ -179,12 +179,12 @@ const isCI = process.env.CI === 'true';
   });
 
   it('should handle invalid retrieve parameters', async () => {
-    // Test with invalid CID format (missing filename)
+    // Test with a missing CID
     try {
       await client.callTool({
         name: 'retrieve',
         arguments: {
-          filepath: 'invalid-cid', // Missing the required filename
+          filepath: 'invalid-cid', // Not a retrieve parameter
         },
       });
       // Should not reach here
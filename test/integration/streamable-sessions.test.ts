@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startStreamableHTTPTransport } from '../../src/core/server/transports/streamable.js';
+import { McpServerConfig } from '../../src/core/server/types.js';
+
+/**
+ * Concurrent Streamable HTTP sessions with real SDK clients, each session must be served by its own MCP server
+ */
+describe('Streamable HTTP Sessions Integration Tests', () => {
+  const config: McpServerConfig = {
+    host: '127.0.0.1',
+    port: 0,
+    connectionTimeoutMs: 30000,
+    transportMode: 'http',
+    maxFileSizeBytes: 1024 * 1024,
+  };
+
+  // Reports the session that handled the call, with a progress notification on the way
+  const createServer = () => {
+    const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    server.tool('whoami', { delayMs: z.number() }, async ({ delayMs }, extra) => {
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken: extra._meta?.progressToken ?? 0, progress: 1, total: 1 },
+      });
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      return { content: [{ type: 'text' as const, text: extra.sessionId ?? '' }] };
+    });
+    return server;
+  };
+
+  let httpServer: Server;
+  let url: URL;
+
+  const connect = async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(url);
+    await client.connect(transport);
+    return { client, transport };
+  };
+
+  const whoami = async (client: Client, delayMs: number) => {
+    const onprogress = vi.fn();
+    const result = await client.callTool({ name: 'whoami', arguments: { delayMs } }, undefined, {
+      onprogress,
+      timeout: 5000,
+    });
+    return { sessionId: (result.content as { text: string }[])[0].text, onprogress };
+  };
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    httpServer = await startStreamableHTTPTransport(createServer, config);
+    if (!httpServer.listening) {
+      await once(httpServer, 'listening');
+    }
+    url = new URL(`http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`);
+  });
+
+  afterAll(async () => {
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('should answer every session on its own transport', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    // The first call is still running when the second session calls
+    const [firstResult, secondResult] = await Promise.all([whoami(first.client, 200), whoami(second.client, 0)]);
+
+    expect(firstResult.sessionId).toBe(first.transport.sessionId);
+    expect(secondResult.sessionId).toBe(second.transport.sessionId);
+    expect(firstResult.onprogress).toHaveBeenCalledTimes(1);
+    expect(secondResult.onprogress).toHaveBeenCalledTimes(1);
+
+    // Closing one session leaves the other working
+    await first.transport.terminateSession();
+    await first.client.close();
+    expect((await whoami(second.client, 0)).sessionId).toBe(second.transport.sessionId);
+
+    await second.client.close();
+  });
+});
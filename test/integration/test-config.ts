@@ -1,29 +1,26 @@
-import dotenv from 'dotenv';
-
-dotenv.config();
+import path from 'node:path';
+import type { MockGateway } from './mock-gateway.js';
 
 /**
  * Integration test configuration
- * Provides test keys and delegation for integration tests
+ * Runs the built server against the mock gateway, so no MEFS API or credentials are needed
  */
 
-// Valid test CID that can be used for retrieve tests
-export const TEST_CID = 'bafybeibv7vzycdcnydl5n5lbws6lul2omkm6a6b5wmqt77sicrwnhesy7y';
-
-// Test file name to use for retrieve tests
-export const TEST_FILENAME = 'bmoney.txt';
-
-// Combined CID/filename path for retrieve tests
-export const TEST_FILEPATH = `${TEST_CID}/${TEST_FILENAME}`;
+// The server started by the integration tests
+export const SERVER_PATH = path.resolve('dist', 'index.js');
 
-if (!process.env.PRIVATE_KEY || !process.env.DELEGATION) {
-  throw new Error('PRIVATE_KEY and DELEGATION must be set');
-}
+// Well-known development key, only ever used against the mock gateway
+export const TEST_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
 
-// Test environment configuration
-export const getTestEnv = () => ({
+// Test environment configuration, local state is kept in stateDir instead of ~/.mefs-mcp
+export const getTestEnv = (gateway: MockGateway, stateDir: string) => ({
   ...process.env,
   NODE_ENV: 'test',
-  PRIVATE_KEY: process.env.PRIVATE_KEY || '',
-  DELEGATION: process.env.DELEGATION || '',
+  MEFS_API_BASE_URL: gateway.url,
+  MEFS_PRIVATE_KEY: TEST_PRIVATE_KEY,
+  MEFS_STORAGE_BACKEND: 'mefs',
+  MEFS_KEY_VAULT_PATH: path.join(stateDir, 'keys.vault'),
+  MEFS_UPLOAD_JOURNAL_PATH: path.join(stateDir, 'uploads.json'),
+  MEFS_UPLOAD_INDEX_PATH: path.join(stateDir, 'uploaded.json'),
+  MEFS_CACHE_DIR: path.join(stateDir, 'cache'),
 });
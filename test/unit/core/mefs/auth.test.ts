@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { signMessage, getChallenge, login, authenticate } from '../../../../src/core/mefs/auth.js';
+import { signMessage, getChallenge, login, authenticate, refreshAccessToken, getTokenExpiry } from '../../../../src/core/mefs/auth.js';
+import { MefsApiError } from '../../../../src/core/mefs/errors.js';
 import type { AuthConfig } from '../../../../src/core/mefs/auth.js';
 
 // Mock ethers
@@ -160,6 +161,25 @@ Issued At: 2024-01-01T00:00:00Z`;
 
             await expect(getChallenge(config)).rejects.toThrow('Failed to get challenge');
         });
+
+        it('should expose the HTTP status on failure', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 503,
+                statusText: 'Service Unavailable',
+                text: async () => 'down',
+            } as any);
+
+            const config: AuthConfig = {
+                apiBaseUrl: 'https://api.mefs.io:10000/produce',
+                origin: 'https://memo.io',
+                retry: { retries: 0 },
+            };
+
+            const error = await getChallenge(config).catch(e => e);
+            expect(error).toBeInstanceOf(MefsApiError);
+            expect(error.status).toBe(503);
+        });
     });
 
     describe('login', () => {
@@ -221,6 +241,109 @@ Issued At: 2024-01-01T00:00:00Z`;
         });
     });
 
+    describe('refreshAccessToken', () => {
+        const config: AuthConfig = {
+            apiBaseUrl: 'https://api.mefs.io:10000/produce',
+            origin: 'https://memo.io',
+        };
+
+        it('should request a new access token with the refresh token', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({ accessToken: 'new-access-token' }),
+            } as any);
+
+            const result = await refreshAccessToken(config, 'mock-refresh-token');
+            expect(result).toEqual({
+                accessToken: 'new-access-token',
+                refreshToken: 'mock-refresh-token',
+            });
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('/refresh'),
+                expect.objectContaining({
+                    method: 'GET',
+                    headers: expect.objectContaining({
+                        Authorization: 'Bearer mock-refresh-token',
+                    }),
+                })
+            );
+        });
+
+        it('should use a rotated refresh token when returned', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({ accessToken: 'new-access-token', refreshToken: 'new-refresh-token' }),
+            } as any);
+
+            const result = await refreshAccessToken(config, 'mock-refresh-token');
+            expect(result.refreshToken).toBe('new-refresh-token');
+        });
+
+        it('should throw error on failed refresh', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 401,
+                statusText: 'Unauthorized',
+                text: async () => 'token expired',
+            } as any);
+
+            await expect(refreshAccessToken(config, 'mock-refresh-token')).rejects.toThrow(
+                'Failed to refresh token'
+            );
+        });
+
+        it('should retry network failures and report them as gateway errors', async () => {
+            const retried = { ...config, retry: { retries: 1, baseDelayMs: 0 } };
+            mockFetch.mockRejectedValueOnce(new TypeError('fetch failed')).mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({ accessToken: 'new-access-token' }),
+            } as any);
+
+            await expect(refreshAccessToken(retried, 'mock-refresh-token')).resolves.toMatchObject({
+                accessToken: 'new-access-token',
+            });
+
+            mockFetch.mockRejectedValueOnce(new TypeError('fetch failed')).mockRejectedValueOnce(new TypeError('fetch failed'));
+            await expect(getChallenge(retried)).rejects.toMatchObject({
+                name: 'GatewayError',
+                code: 'GATEWAY_ERROR',
+                message: 'Failed to get challenge: fetch failed',
+            });
+            expect(mockFetch).toHaveBeenCalledTimes(4);
+        });
+
+        it('should throw error when response has no access token', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({}),
+            } as any);
+
+            await expect(refreshAccessToken(config, 'mock-refresh-token')).rejects.toThrow(
+                'response does not contain an access token'
+            );
+        });
+    });
+
+    describe('getTokenExpiry', () => {
+        const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+        it('should read the exp claim of a JWT', () => {
+            const token = `${encode({ alg: 'HS256' })}.${encode({ exp: 1700000000 })}.signature`;
+            expect(getTokenExpiry(token)).toBe(1700000000 * 1000);
+        });
+
+        it('should return undefined for tokens without exp', () => {
+            const token = `${encode({ alg: 'HS256' })}.${encode({ sub: 'user' })}.signature`;
+            expect(getTokenExpiry(token)).toBeUndefined();
+        });
+
+        it('should return undefined for opaque tokens', () => {
+            expect(getTokenExpiry('mock-access-token')).toBeUndefined();
+            expect(getTokenExpiry('a.b.c')).toBeUndefined();
+        });
+    });
+
     describe('authenticate', () => {
         it('should authenticate successfully with private key', async () => {
             const mockChallenge = `memo.io wants you to sign in with your Ethereum account:
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { Blob } from 'node:buffer';
+import { CID } from 'multiformats/cid';
+import { base36 } from 'multiformats/bases/base36';
+import {
+    computeCid,
+    createCidVerifyStream,
+    isVerifiableCid,
+    verifyCid,
+} from '../../../../src/core/mefs/cid.js';
+import { IntegrityError } from '../../../../src/core/mefs/errors.js';
+
+describe('MEFS CID', () => {
+    // CIDv1 (raw, sha2-256) of "hello world"
+    const helloCID = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+    const hello = new TextEncoder().encode('hello world');
+    const dagCID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+
+    it('should compute the CID of bytes and blobs', async () => {
+        expect(await computeCid(hello)).toBe(helloCID);
+        expect(await computeCid(new Blob([hello]))).toBe(helloCID);
+    });
+
+    it('should only verify CIDs of raw content', () => {
+        expect(isVerifiableCid(helloCID)).toBe(true);
+        expect(isVerifiableCid(dagCID)).toBe(false);
+        expect(isVerifiableCid('not-a-cid')).toBe(false);
+    });
+
+    it('should verify content whatever base the CID is encoded in', async () => {
+        await expect(verifyCid(helloCID, hello)).resolves.toBeUndefined();
+        await expect(verifyCid(CID.parse(helloCID).toString(base36), hello)).resolves.toBeUndefined();
+    });
+
+    it('should reject content not matching its CID', async () => {
+        const error = await verifyCid(helloCID, new TextEncoder().encode('hello there')).catch(e => e);
+
+        expect(error).toBeInstanceOf(IntegrityError);
+        expect(error.expected).toBe(helloCID);
+        expect(error.actual).toBe(await computeCid(new TextEncoder().encode('hello there')));
+    });
+
+    it('should accept content of CIDs that cannot be verified', async () => {
+        await expect(verifyCid(dagCID, hello)).resolves.toBeUndefined();
+    });
+
+    it('should verify streams at their end', async () => {
+        const stream = (text: string) => new Response(text).body!.pipeThrough(createCidVerifyStream(helloCID));
+
+        expect(await new Response(stream('hello world')).text()).toBe('hello world');
+        await expect(new Response(stream('hello there')).text()).rejects.toBeInstanceOf(IntegrityError);
+    });
+});
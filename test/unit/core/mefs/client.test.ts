@@ -0,0 +1,533 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    deleteFile,
+    downloadFile,
+    downloadFileStream,
+    listFiles,
+    statFile,
+    uploadFile,
+    uploadFileChunked,
+} from '../../../../src/core/mefs/client.js';
+import { FileTooLargeError, IntegrityError } from '../../../../src/core/mefs/errors.js';
+import type { ApiConfig } from '../../../../src/core/mefs/client.js';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+describe('MEFS Client', () => {
+    const mockFetch = vi.mocked(fetch);
+
+    const config: ApiConfig = {
+        apiBaseUrl: 'https://api.mefs.io:10000/produce',
+        accessToken: 'mock-access-token',
+        retry: { baseDelayMs: 0 },
+    };
+    const testCID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+
+    // Response streaming the given chunks, without a Content-Length header unless one is passed
+    const createResponse = (chunks: string[], headers: Record<string, string> = {}) => {
+        const cancel = vi.fn();
+        const body = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                const chunk = chunks.shift();
+                if (chunk === undefined) {
+                    controller.close();
+                } else {
+                    controller.enqueue(new TextEncoder().encode(chunk));
+                }
+            },
+            cancel,
+        });
+        const response = new Response(body, {
+            status: 200,
+            headers: {
+                'content-type': 'text/plain',
+                'content-disposition': 'attachment; filename="test.txt"',
+                ...headers,
+            },
+        });
+        return { response, cancel };
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe('downloadFile', () => {
+        it('should download the file with its metadata', async () => {
+            mockFetch.mockResolvedValue(createResponse(['hello ', 'world']).response);
+
+            const result = await downloadFile(config, testCID, 'secret');
+
+            expect(new TextDecoder().decode(result.data)).toBe('hello world');
+            expect(result.filename).toBe('test.txt');
+            expect(result.contentType).toBe('text/plain');
+            expect(mockFetch).toHaveBeenCalledWith(
+                `${config.apiBaseUrl}/mefs/${testCID}?key=secret`,
+                expect.objectContaining({
+                    headers: { Authorization: 'Bearer mock-access-token' },
+                })
+            );
+        });
+
+        it('should download files within the size limit', async () => {
+            mockFetch.mockResolvedValue(createResponse(['hello ', 'world'], { 'content-length': '11' }).response);
+
+            const result = await downloadFile(config, testCID, undefined, { maxBytes: 11 });
+
+            expect(result.data.length).toBe(11);
+        });
+
+        it('should reject files whose Content-Length exceeds the limit without reading them', async () => {
+            const { response, cancel } = createResponse(['hello ', 'world'], { 'content-length': '11' });
+            mockFetch.mockResolvedValue(response);
+
+            const error = await downloadFile(config, testCID, undefined, { maxBytes: 5 }).catch(e => e);
+
+            expect(error).toBeInstanceOf(FileTooLargeError);
+            expect(error).toMatchObject({ limit: 5, size: 11 });
+            expect(cancel).toHaveBeenCalled();
+        });
+
+        it('should abort the download once the limit is crossed', async () => {
+            const { response, cancel } = createResponse(['hello ', 'world', 'never read']);
+            mockFetch.mockResolvedValue(response);
+
+            const error = await downloadFile(config, testCID, undefined, { maxBytes: 8 }).catch(e => e);
+
+            expect(error).toBeInstanceOf(FileTooLargeError);
+            expect(error).toMatchObject({ limit: 8, size: 11 });
+            expect(cancel).toHaveBeenCalled();
+        });
+    });
+
+    describe('downloadFileStream', () => {
+        it('should return the body stream with its metadata', async () => {
+            mockFetch.mockResolvedValue(createResponse(['hello'], { 'content-length': '5' }).response);
+
+            const result = await downloadFileStream(config, testCID);
+
+            expect(await new Response(result.body).text()).toBe('hello');
+            expect(result).toMatchObject({ filename: 'test.txt', contentType: 'text/plain', size: 5 });
+        });
+
+        it('should error the stream once the limit is crossed', async () => {
+            mockFetch.mockResolvedValue(createResponse(['hello ', 'world']).response);
+
+            const result = await downloadFileStream(config, testCID, undefined, { maxBytes: 8 });
+
+            await expect(new Response(result.body).arrayBuffer()).rejects.toThrow(FileTooLargeError);
+        });
+    });
+
+    describe('progress', () => {
+        it('should report the bytes of the file sent while uploading', async () => {
+            let sentBody = '';
+            mockFetch.mockImplementation(async (_url, init) => {
+                sentBody = await new Response(init?.body).text();
+                return Response.json({ Mid: testCID });
+            });
+            const onProgress = vi.fn();
+            const file = new TextEncoder().encode('x'.repeat(1000));
+
+            const result = await uploadFile(config, file, 'test.txt', { onProgress });
+
+            expect(result).toEqual({ Mid: testCID });
+            expect(sentBody).toContain('filename="test.txt"');
+            expect(mockFetch.mock.calls[0][1]).toMatchObject({
+                duplex: 'half',
+                headers: { 'Content-Type': expect.stringMatching(/^multipart\/form-data; boundary=/) },
+            });
+            expect(onProgress).toHaveBeenLastCalledWith(1000, 1000);
+            expect(onProgress.mock.calls.every(([uploaded]) => uploaded <= 1000)).toBe(true);
+        });
+
+        it('should send FormData directly without a progress callback', async () => {
+            mockFetch.mockResolvedValue(Response.json({ Mid: testCID }));
+
+            await uploadFile(config, new TextEncoder().encode('test'), 'test.txt');
+
+            expect(mockFetch.mock.calls[0][1]?.body).toBeInstanceOf(FormData);
+        });
+
+        it('should report the bytes received while downloading', async () => {
+            mockFetch.mockResolvedValue(createResponse(['hello ', 'world'], { 'content-length': '11' }).response);
+            const onProgress = vi.fn();
+
+            await downloadFile(config, testCID, undefined, { onProgress });
+
+            expect(onProgress.mock.calls).toEqual([[6, 11], [11, 11]]);
+        });
+    });
+
+    describe('cancellation', () => {
+        it('should pass the abort signal to fetch', async () => {
+            const controller = new AbortController();
+            mockFetch.mockResolvedValue(createResponse(['hello']).response);
+
+            await downloadFile({ ...config, signal: controller.signal }, testCID);
+
+            expect(mockFetch.mock.calls[0][1]?.signal).toBe(controller.signal);
+        });
+
+        it('should not retry chunks of a cancelled upload', async () => {
+            const controller = new AbortController();
+            mockFetch.mockImplementation(async input => {
+                if (String(input).endsWith('/mefs/upload')) {
+                    return Response.json({ UploadId: 'upload-1' });
+                }
+                controller.abort();
+                throw new DOMException('This operation was aborted', 'AbortError');
+            });
+
+            await expect(
+                uploadFileChunked({ ...config, signal: controller.signal }, new Uint8Array(10), 'test.txt', { chunkSize: 4 })
+            ).rejects.toMatchObject({ name: 'AbortError' });
+            expect(mockFetch.mock.calls.filter(([, init]) => init?.method === 'PUT')).toHaveLength(1);
+        });
+    });
+
+    describe('integrity', () => {
+        // CIDv1 (raw, sha2-256) of "hello world"
+        const helloCID = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+        it('should verify downloads against their CID', async () => {
+            mockFetch.mockResolvedValue(createResponse(['hello ', 'world']).response);
+
+            const result = await downloadFile(config, helloCID, undefined, { public: true });
+
+            expect(new TextDecoder().decode(result.data)).toBe('hello world');
+        });
+
+        it('should reject downloads not matching their CID', async () => {
+            mockFetch.mockResolvedValue(createResponse(['hello ', 'there']).response);
+
+            const error = await downloadFile(config, helloCID, undefined, { public: true }).catch(e => e);
+
+            expect(error).toBeInstanceOf(IntegrityError);
+            expect(error).toMatchObject({ code: 'INTEGRITY_ERROR', expected: helloCID });
+        });
+
+        it('should not verify files that are not public', async () => {
+            mockFetch.mockImplementation(async () => createResponse(['hello ', 'there']).response);
+
+            // Encrypted by the gateway with the shared key or a key of their own
+            await expect(downloadFile(config, helloCID)).resolves.toBeDefined();
+            await expect(downloadFile(config, helloCID, 'gateway-key')).resolves.toBeDefined();
+        });
+
+        it('should verify the CID returned for an upload', async () => {
+            mockFetch.mockImplementation(async () => Response.json({ Mid: helloCID }));
+            const tampered = new TextEncoder().encode('hello there');
+
+            await expect(uploadFile(config, new TextEncoder().encode('hello world'), 'hello.txt', { public: true })).resolves.toEqual({ Mid: helloCID });
+            await expect(uploadFile(config, tampered, 'hello.txt', { public: true })).rejects.toBeInstanceOf(IntegrityError);
+            await expect(uploadFile(config, tampered, 'hello.txt')).resolves.toEqual({ Mid: helloCID });
+            await expect(uploadFile(config, tampered, 'hello.txt', { key: 'gateway-key' })).resolves.toEqual({ Mid: helloCID });
+        });
+    });
+
+    describe('ranged downloads', () => {
+        it('should request the range and report the total size', async () => {
+            mockFetch.mockResolvedValue(new Response('lo wo', {
+                status: 206,
+                headers: { 'content-range': 'bytes 3-7/11', 'content-length': '5' },
+            }));
+
+            const result = await downloadFile(config, testCID, undefined, { offset: 3, length: 5 });
+
+            expect(new TextDecoder().decode(result.data)).toBe('lo wo');
+            expect(result.totalSize).toBe(11);
+            expect(mockFetch).toHaveBeenCalledWith(
+                `${config.apiBaseUrl}/mefs/${testCID}`,
+                expect.objectContaining({
+                    headers: { Authorization: 'Bearer mock-access-token', Range: 'bytes=3-7' },
+                })
+            );
+        });
+
+        it('should request the rest of the file without a length', async () => {
+            mockFetch.mockResolvedValue(new Response('world', {
+                status: 206,
+                headers: { 'content-range': 'bytes 6-10/11' },
+            }));
+
+            const result = await downloadFileStream(config, testCID, undefined, { offset: 6 });
+
+            expect(await new Response(result.body).text()).toBe('world');
+            expect(result.totalSize).toBe(11);
+            expect(mockFetch.mock.calls[0][1]?.headers).toMatchObject({ Range: 'bytes=6-' });
+        });
+
+        it('should cut the slice when the gateway ignores the range', async () => {
+            const { response, cancel } = createResponse(['hello ', 'world', 'never read'], { 'content-length': '21' });
+            mockFetch.mockResolvedValue(response);
+
+            const result = await downloadFile(config, testCID, undefined, { offset: 3, length: 5, maxBytes: 5 });
+
+            expect(new TextDecoder().decode(result.data)).toBe('lo wo');
+            expect(result.totalSize).toBe(21);
+            expect(cancel).toHaveBeenCalled();
+        });
+
+        it('should apply the size limit to the slice', async () => {
+            mockFetch.mockResolvedValue(new Response('hello world', {
+                status: 206,
+                headers: { 'content-range': 'bytes 0-10/100', 'content-length': '11' },
+            }));
+
+            await expect(
+                downloadFile(config, testCID, undefined, { length: 11, maxBytes: 8 })
+            ).rejects.toMatchObject({ name: 'FileTooLargeError', limit: 8, size: 11 });
+        });
+    });
+
+    describe('listFiles', () => {
+        const objects = [
+            { Mid: 'cid-1', Name: 'reports/q1.pdf', Size: 100, ContentType: 'application/pdf', Public: true, ModTime: '2024-01-15T10:00:00Z' },
+            { Mid: 'cid-2', Name: 'reports/q2.pdf', Size: 200, ContentType: 'application/pdf', ModTime: '2024-04-15T10:00:00Z' },
+            { Mid: 'cid-3', Name: 'photo.png', Size: 300, ContentType: 'image/png', ModTime: 1717236000 },
+        ];
+
+        beforeEach(() => {
+            // A response body can only be read once, so create one per call
+            mockFetch.mockImplementation(async () => new Response(JSON.stringify({ Objects: objects })));
+        });
+
+        it('should return all files with normalized metadata', async () => {
+            const result = await listFiles(config);
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                `${config.apiBaseUrl}/mefs/listobjects`,
+                expect.objectContaining({
+                    headers: { Authorization: 'Bearer mock-access-token' },
+                })
+            );
+            expect(result.total).toBe(3);
+            expect(result.nextOffset).toBeUndefined();
+            expect(result.files[0]).toEqual({
+                cid: 'cid-1',
+                filename: 'reports/q1.pdf',
+                size: 100,
+                contentType: 'application/pdf',
+                public: true,
+                uploadedAt: '2024-01-15T10:00:00.000Z',
+            });
+            expect(result.files[1].public).toBe(false);
+            expect(result.files[2].uploadedAt).toBe('2024-06-01T10:00:00.000Z');
+        });
+
+        it('should filter by prefix, content type and date range', async () => {
+            expect((await listFiles(config, { prefix: 'reports/' })).total).toBe(2);
+            expect((await listFiles(config, { contentType: 'image/*' })).files.map(f => f.cid)).toEqual(['cid-3']);
+            expect((await listFiles(config, { contentType: 'application/pdf' })).total).toBe(2);
+
+            const range = await listFiles(config, {
+                since: new Date('2024-02-01T00:00:00Z'),
+                until: new Date('2024-06-01T10:00:00Z'),
+            });
+            expect(range.files.map(f => f.cid)).toEqual(['cid-2']);
+        });
+
+        it('should paginate the matching files', async () => {
+            const firstPage = await listFiles(config, { limit: 2 });
+            expect(firstPage.files.map(f => f.cid)).toEqual(['cid-1', 'cid-2']);
+            expect(firstPage.nextOffset).toBe(2);
+
+            const lastPage = await listFiles(config, { offset: 2, limit: 2 });
+            expect(lastPage.files.map(f => f.cid)).toEqual(['cid-3']);
+            expect(lastPage.nextOffset).toBeUndefined();
+        });
+
+        it('should handle an empty listing', async () => {
+            mockFetch.mockResolvedValue(new Response(JSON.stringify({ Objects: null })));
+
+            expect(await listFiles(config)).toEqual({ files: [], total: 0, nextOffset: undefined });
+        });
+
+        it('should throw AuthError when the token is rejected', async () => {
+            mockFetch.mockResolvedValue(new Response('unauthorized', { status: 401, statusText: 'Unauthorized' }));
+
+            await expect(listFiles(config)).rejects.toMatchObject({ name: 'AuthError', code: 'AUTH_FAILED', status: 401 });
+        });
+    });
+
+    describe('deleteFile', () => {
+        it('should send a DELETE request for the CID', async () => {
+            mockFetch.mockResolvedValue(new Response(null, { status: 200 }));
+
+            await deleteFile(config, testCID);
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                `${config.apiBaseUrl}/mefs/${testCID}`,
+                expect.objectContaining({
+                    method: 'DELETE',
+                    headers: { Authorization: 'Bearer mock-access-token' },
+                })
+            );
+        });
+
+        it('should report files of other accounts clearly', async () => {
+            mockFetch.mockResolvedValue(new Response('forbidden', { status: 403, statusText: 'Forbidden' }));
+
+            await expect(deleteFile(config, testCID)).rejects.toMatchObject({
+                status: 403,
+                message: `Failed to delete file: ${testCID} belongs to another account`,
+            });
+        });
+
+        it('should throw NotFoundError for unknown files', async () => {
+            mockFetch.mockResolvedValue(new Response('not found', { status: 404, statusText: 'Not Found' }));
+
+            await expect(deleteFile(config, testCID)).rejects.toMatchObject({ name: 'NotFoundError', code: 'NOT_FOUND', status: 404 });
+        });
+    });
+
+    describe('statFile', () => {
+        it('should read the metadata with a HEAD request', async () => {
+            mockFetch.mockResolvedValue(new Response(null, {
+                status: 200,
+                headers: {
+                    'content-type': 'application/pdf',
+                    'content-disposition': 'attachment; filename="report.pdf"',
+                    'content-length': '2048',
+                },
+            }));
+
+            const result = await statFile(config, testCID, 'secret');
+
+            expect(result).toEqual({ filename: 'report.pdf', contentType: 'application/pdf', size: 2048 });
+            expect(mockFetch).toHaveBeenCalledWith(
+                `${config.apiBaseUrl}/mefs/${testCID}?key=secret`,
+                expect.objectContaining({ method: 'HEAD' })
+            );
+        });
+
+        it('should throw NotFoundError for unknown files', async () => {
+            mockFetch.mockResolvedValue(new Response(null, { status: 404, statusText: 'Not Found' }));
+
+            await expect(statFile(config, testCID)).rejects.toMatchObject({
+                name: 'NotFoundError',
+                status: 404,
+                message: expect.stringContaining('Failed to stat file'),
+            });
+        });
+    });
+
+    describe('uploadFileChunked', () => {
+        const file = new TextEncoder().encode('0123456789');
+
+        // Route requests of the chunked upload protocol, failing the PUTs of the given chunks once
+        const mockGateway = (failingChunks: Record<number, number> = {}) => {
+            mockFetch.mockImplementation(async (input, init) => {
+                const url = String(input);
+                if (url.endsWith('/mefs/upload')) {
+                    return Response.json({ UploadId: 'upload-1' });
+                }
+                if (url.endsWith('/complete')) {
+                    return Response.json({ Mid: testCID });
+                }
+                const index = Number(url.split('/').pop());
+                if (init?.method === 'PUT' && failingChunks[index]) {
+                    const status = failingChunks[index];
+                    delete failingChunks[index];
+                    return new Response('failed', { status });
+                }
+                return new Response(null, { status: 200 });
+            });
+        };
+
+        const putUrls = () => mockFetch.mock.calls
+            .filter(([, init]) => init?.method === 'PUT')
+            .map(([url]) => String(url));
+
+        it('should upload the file in chunks and report the session and progress', async () => {
+            mockGateway();
+            const onSession = vi.fn();
+            const onProgress = vi.fn();
+
+            const result = await uploadFileChunked(config, file, 'test.txt', {
+                chunkSize: 4,
+                public: true,
+                onSession,
+                onProgress,
+            });
+
+            expect(result).toEqual({ Mid: testCID });
+            expect(JSON.parse(mockFetch.mock.calls[0][1]?.body as string)).toEqual({
+                name: 'test.txt',
+                size: 10,
+                chunkSize: 4,
+                public: true,
+            });
+            expect(putUrls()).toEqual([0, 1, 2].map(index => `${config.apiBaseUrl}/mefs/upload/upload-1/${index}`));
+            expect(onSession).toHaveBeenLastCalledWith({ uploadId: 'upload-1', chunkSize: 4, uploadedChunks: [0, 1, 2] });
+            expect(onProgress.mock.calls).toEqual([[0, 10], [4, 10], [8, 10], [10, 10]]);
+        });
+
+        it('should retry chunks failing with gateway errors', async () => {
+            mockGateway({ 1: 503 });
+
+            const result = await uploadFileChunked(config, file, 'test.txt', { chunkSize: 4 });
+
+            expect(result).toEqual({ Mid: testCID });
+            expect(putUrls().filter(url => url.endsWith('/1'))).toHaveLength(2);
+        });
+
+        it('should not retry chunks rejected by the gateway', async () => {
+            mockGateway({ 1: 400 });
+
+            await expect(
+                uploadFileChunked(config, file, 'test.txt', { chunkSize: 4 })
+            ).rejects.toMatchObject({ name: 'ValidationError', code: 'INVALID_REQUEST', status: 400, message: expect.stringContaining('Failed to upload chunk 1') });
+            expect(putUrls()).toHaveLength(2);
+        });
+
+        it('should only send the missing chunks when resuming a session', async () => {
+            mockGateway();
+            const onProgress = vi.fn();
+
+            await uploadFileChunked(config, file, 'test.txt', {
+                session: { uploadId: 'upload-0', chunkSize: 4, uploadedChunks: [0, 1] },
+                onProgress,
+            });
+
+            expect(putUrls()).toEqual([`${config.apiBaseUrl}/mefs/upload/upload-0/2`]);
+            expect(onProgress.mock.calls).toEqual([[8, 10], [10, 10]]);
+        });
+
+        it('should start over when the gateway no longer knows the session', async () => {
+            mockGateway({ 2: 404 });
+
+            const result = await uploadFileChunked(config, file, 'test.txt', {
+                chunkSize: 4,
+                session: { uploadId: 'upload-0', chunkSize: 4, uploadedChunks: [0, 1] },
+            });
+
+            expect(result).toEqual({ Mid: testCID });
+            expect(putUrls()).toEqual([
+                `${config.apiBaseUrl}/mefs/upload/upload-0/2`,
+                ...[0, 1, 2].map(index => `${config.apiBaseUrl}/mefs/upload/upload-1/${index}`),
+            ]);
+        });
+
+        it.each([404, 405])('should upload in a single request when the gateway answers %i to chunked uploads', async status => {
+            mockFetch.mockImplementation(async input => String(input).endsWith('/mefs/upload')
+                ? new Response('not supported', { status })
+                : Response.json({ Mid: testCID }));
+            const onSession = vi.fn();
+
+            const result = await uploadFileChunked(config, file, 'test.txt', { chunkSize: 4, onSession });
+
+            expect(result).toEqual({ Mid: testCID });
+            expect(String(mockFetch.mock.calls[1][0])).toBe(`${config.apiBaseUrl}/mefs/`);
+            expect(mockFetch.mock.calls[1][1]?.body).toBeInstanceOf(FormData);
+            expect(putUrls()).toEqual([]);
+            expect(onSession).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -1,5 +1,22 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { privateKeyToAddress, loadMefsConfig } from '../../../../src/core/mefs/config.js';
+import {
+    privateKeyToAddress,
+    loadMefsConfig,
+    getAuthTokens,
+    setAuthTokens,
+    clearAuthTokens,
+    withAuthTokens,
+} from '../../../../src/core/mefs/config.js';
+import type { MefsConfig } from '../../../../src/core/mefs/config.js';
+import { authenticate, refreshAccessToken } from '../../../../src/core/mefs/auth.js';
+import { MefsApiError } from '../../../../src/core/mefs/errors.js';
+
+// Mock the network calls of the auth module, keep token parsing
+vi.mock('../../../../src/core/mefs/auth.js', async importOriginal => ({
+    ...(await importOriginal<typeof import('../../../../src/core/mefs/auth.js')>()),
+    authenticate: vi.fn(),
+    refreshAccessToken: vi.fn(),
+}));
 
 describe('MEFS Config', () => {
     const originalEnv = process.env;
@@ -97,6 +114,35 @@ describe('MEFS Config', () => {
             consoleSpy.mockRestore();
         });
 
+        it('should fall back to the default retry settings for invalid values', () => {
+            process.env.MEFS_MAX_RETRIES = 'three';
+            process.env.MEFS_RETRY_BASE_DELAY_MS = '-1';
+            process.env.MEFS_RETRY_MAX_DELAY_MS = '2000';
+            const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => { });
+
+            const config = loadMefsConfig();
+            expect(config.retry).toEqual({ retries: 3, baseDelayMs: 500, maxDelayMs: 2000 });
+            expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('MEFS_MAX_RETRIES'));
+            expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('MEFS_RETRY_BASE_DELAY_MS'));
+
+            consoleSpy.mockRestore();
+        });
+
+        it('should fall back to the default cache settings for invalid values', () => {
+            process.env.MEFS_CACHE_MAX_BYTES = '1e9';
+            process.env.MEFS_CACHE_METADATA_TTL_MS = 'soon';
+            const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => { });
+
+            const config = loadMefsConfig();
+            expect(config.cacheMaxBytes).toBe(1024 * 1024 * 1024);
+            expect(config.cacheMetadataTtlMs).toBe(60 * 60 * 1000);
+
+            process.env.MEFS_CACHE_MAX_BYTES = '0';
+            expect(loadMefsConfig().cacheMaxBytes).toBe(0);
+
+            consoleSpy.mockRestore();
+        });
+
         it('should parse chain ID correctly', () => {
             process.env.MEFS_CHAIN_ID = '1';
             const config = loadMefsConfig();
@@ -107,5 +153,129 @@ describe('MEFS Config', () => {
             expect(config2.chainId).toBe(137);
         });
     });
-});
 
+    describe('token lifecycle', () => {
+        const mockAuthenticate = vi.mocked(authenticate);
+        const mockRefreshAccessToken = vi.mocked(refreshAccessToken);
+
+        const mefsConfig: MefsConfig = {
+            apiBaseUrl: 'https://api.mefs.io:10000/produce',
+            origin: 'https://memo.io',
+            privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+        };
+
+        // Build an unsigned JWT expiring the given number of seconds from now
+        const jwt = (name: string, expiresInSeconds: number) => {
+            const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+            const exp = Math.floor(Date.now() / 1000) + expiresInSeconds;
+            return `${encode({ alg: 'HS256' })}.${encode({ sub: name, exp })}.signature`;
+        };
+
+        beforeEach(() => {
+            clearAuthTokens();
+            mockAuthenticate.mockReset();
+            mockRefreshAccessToken.mockReset();
+            vi.spyOn(console, 'warn').mockImplementation(() => { });
+        });
+
+        it('should cache tokens without expiry', async () => {
+            mockAuthenticate.mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' });
+
+            await getAuthTokens(mefsConfig);
+            const tokens = await getAuthTokens(mefsConfig);
+
+            expect(tokens.accessToken).toBe('access');
+            expect(mockAuthenticate).toHaveBeenCalledTimes(1);
+        });
+
+        it('should refresh an access token that is about to expire', async () => {
+            const refreshToken = jwt('refresh', 3600);
+            mockAuthenticate.mockResolvedValue({ accessToken: jwt('access', 10), refreshToken });
+            mockRefreshAccessToken.mockResolvedValue({ accessToken: 'refreshed', refreshToken });
+
+            await getAuthTokens(mefsConfig);
+            const tokens = await getAuthTokens(mefsConfig);
+
+            expect(tokens.accessToken).toBe('refreshed');
+            expect(mockRefreshAccessToken).toHaveBeenCalledWith(mefsConfig, refreshToken);
+            expect(mockAuthenticate).toHaveBeenCalledTimes(1);
+        });
+
+        it('should log in again when the refresh token has expired', async () => {
+            mockAuthenticate
+                .mockResolvedValueOnce({ accessToken: jwt('access', 10), refreshToken: jwt('refresh', 10) })
+                .mockResolvedValueOnce({ accessToken: 'fresh', refreshToken: 'refresh' });
+
+            await getAuthTokens(mefsConfig);
+            const tokens = await getAuthTokens(mefsConfig);
+
+            expect(tokens.accessToken).toBe('fresh');
+            expect(mockRefreshAccessToken).not.toHaveBeenCalled();
+            expect(mockAuthenticate).toHaveBeenCalledTimes(2);
+        });
+
+        it('should log in again when the refresh fails', async () => {
+            mockAuthenticate
+                .mockResolvedValueOnce({ accessToken: jwt('access', 10), refreshToken: 'refresh' })
+                .mockResolvedValueOnce({ accessToken: 'fresh', refreshToken: 'refresh' });
+            mockRefreshAccessToken.mockRejectedValue(new Error('refresh rejected'));
+
+            await getAuthTokens(mefsConfig);
+            const tokens = await getAuthTokens(mefsConfig);
+
+            expect(tokens.accessToken).toBe('fresh');
+            expect(mockRefreshAccessToken).toHaveBeenCalledTimes(1);
+        });
+
+        it('should retry an operation once after a 401', async () => {
+            mockAuthenticate.mockResolvedValue({ accessToken: 'stale', refreshToken: 'refresh' });
+            mockRefreshAccessToken.mockResolvedValue({ accessToken: 'renewed', refreshToken: 'refresh' });
+
+            const operation = vi.fn()
+                .mockRejectedValueOnce(new MefsApiError('Failed to download file: 401 Unauthorized - ', 401))
+                .mockResolvedValueOnce('ok');
+
+            const result = await withAuthTokens(mefsConfig, operation);
+
+            expect(result).toBe('ok');
+            expect(operation).toHaveBeenNthCalledWith(1, { apiBaseUrl: mefsConfig.apiBaseUrl, accessToken: 'stale' });
+            expect(operation).toHaveBeenNthCalledWith(2, { apiBaseUrl: mefsConfig.apiBaseUrl, accessToken: 'renewed' });
+        });
+
+        it('should cache tokens per wallet address', async () => {
+            const otherConfig: MefsConfig = {
+                ...mefsConfig,
+                privateKey: undefined,
+                address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+            };
+            mockAuthenticate.mockResolvedValue({ accessToken: 'default', refreshToken: 'refresh' });
+            setAuthTokens(otherConfig, { accessToken: 'other', refreshToken: 'other-refresh' });
+
+            expect((await getAuthTokens(mefsConfig)).accessToken).toBe('default');
+            expect((await getAuthTokens(otherConfig)).accessToken).toBe('other');
+            expect(mockAuthenticate).toHaveBeenCalledTimes(1);
+        });
+
+        it('should ask wallet identities to log in again when refresh fails', async () => {
+            const walletConfig: MefsConfig = {
+                ...mefsConfig,
+                privateKey: undefined,
+                address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+            };
+            setAuthTokens(walletConfig, { accessToken: jwt('access', 10), refreshToken: 'refresh' });
+            mockRefreshAccessToken.mockRejectedValue(new Error('refresh rejected'));
+
+            await expect(getAuthTokens(walletConfig)).rejects.toThrow('please log in again');
+            expect(mockAuthenticate).not.toHaveBeenCalled();
+        });
+
+        it('should not retry other errors', async () => {
+            mockAuthenticate.mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' });
+            const operation = vi.fn().mockRejectedValue(new MefsApiError('Failed to download file: 500', 500));
+
+            await expect(withAuthTokens(mefsConfig, operation)).rejects.toThrow('500');
+            expect(operation).toHaveBeenCalledTimes(1);
+            expect(mockRefreshAccessToken).not.toHaveBeenCalled();
+        });
+    });
+});
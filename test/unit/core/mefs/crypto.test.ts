@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createDecryptStream,
+    decodeKeyHandle,
+    decryptData,
+    encodeKeyHandle,
+    encryptData,
+    generateFileKey,
+} from '../../../../src/core/mefs/crypto.js';
+
+describe('MEFS Crypto', () => {
+    const plaintext = new TextEncoder().encode('end-to-end encrypted content');
+
+    it('should generate a different random key for every file', () => {
+        const first = generateFileKey();
+        const second = generateFileKey();
+
+        expect(first).toHaveLength(32);
+        expect(Buffer.from(first).equals(Buffer.from(second))).toBe(false);
+    });
+
+    it('should round-trip key handles', () => {
+        const key = generateFileKey();
+        const handle = encodeKeyHandle(key);
+
+        expect(handle.startsWith('mefs-key-v1:')).toBe(true);
+        expect(decodeKeyHandle(handle)).toEqual(key);
+    });
+
+    it('should reject invalid key handles', () => {
+        expect(() => decodeKeyHandle('f1d4a0b37124c3a7')).toThrow('Invalid key handle');
+        expect(() => decodeKeyHandle('mefs-key-v1:c2hvcnQ')).toThrow('Invalid key handle');
+    });
+
+    it('should encrypt and decrypt file content', async () => {
+        const key = generateFileKey();
+        const encrypted = encryptData(plaintext, key);
+
+        expect(Buffer.from(encrypted).includes(Buffer.from(plaintext))).toBe(false);
+        expect(encrypted.length).toBe(plaintext.length + 8 + 12 + 16);
+        expect(await decryptData(encrypted, key)).toEqual(plaintext);
+    });
+
+    it('should use a fresh IV for every encryption', () => {
+        const key = generateFileKey();
+
+        expect(Buffer.from(encryptData(plaintext, key)).equals(Buffer.from(encryptData(plaintext, key)))).toBe(false);
+    });
+
+    it('should reject the wrong key', async () => {
+        const encrypted = encryptData(plaintext, generateFileKey());
+
+        await expect(decryptData(encrypted, generateFileKey())).rejects.toThrow('wrong key or corrupted data');
+    });
+
+    it('should reject tampered data', async () => {
+        const key = generateFileKey();
+        const encrypted = encryptData(plaintext, key);
+        encrypted[30] ^= 0xff;
+
+        await expect(decryptData(encrypted, key)).rejects.toThrow('wrong key or corrupted data');
+    });
+
+    it('should reject files that were not encrypted', async () => {
+        await expect(decryptData(plaintext, generateFileKey())).rejects.toThrow('not an encrypted MEFS file');
+    });
+
+    it('should decrypt streams split into arbitrary chunks', async () => {
+        const key = generateFileKey();
+        const encrypted = encryptData(plaintext, key);
+
+        // Deliver the file one byte at a time to cover chunks splitting the header and the tag
+        const source = new ReadableStream<Uint8Array>({
+            start(controller) {
+                for (const byte of encrypted) {
+                    controller.enqueue(new Uint8Array([byte]));
+                }
+                controller.close();
+            },
+        });
+
+        const decrypted = await new Response(source.pipeThrough(createDecryptStream(key))).arrayBuffer();
+        expect(new Uint8Array(decrypted)).toEqual(plaintext);
+    });
+});
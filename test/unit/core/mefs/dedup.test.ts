@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import {
+    createContentFingerprint,
+    findUpload,
+    forgetUpload,
+    recordUpload,
+} from '../../../../src/core/mefs/dedup.js';
+import type { MefsConfig } from '../../../../src/core/mefs/config.js';
+
+describe('MEFS Upload Index', () => {
+    const owner: MefsConfig = {
+        apiBaseUrl: 'https://api.mefs.io:10000/produce',
+        origin: 'https://memo.io',
+        chainId: 985,
+        address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    };
+    const record = { cid: 'cid-1', filename: 'test.txt', size: 4, uploadedAt: 1 };
+
+    let tempDir: string;
+    let indexPath: string;
+
+    beforeEach(async () => {
+        tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-dedup-'));
+        indexPath = path.join(tempDir, 'nested', 'uploaded.json');
+    });
+
+    afterEach(async () => {
+        await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should identify content by owner, hash and options', () => {
+        const fingerprint = createContentFingerprint(owner, 'sha256', { key: 'secret' });
+
+        expect(createContentFingerprint(owner, 'sha256', { key: 'secret' })).toBe(fingerprint);
+        expect(createContentFingerprint({ ...owner, address: undefined }, 'sha256', { key: 'secret' })).not.toBe(fingerprint);
+        expect(createContentFingerprint(owner, 'other', { key: 'secret' })).not.toBe(fingerprint);
+        expect(createContentFingerprint(owner, 'sha256', { key: 'secret', public: true })).not.toBe(fingerprint);
+        expect(createContentFingerprint(owner, 'sha256', { key: 'secret', encrypt: true })).not.toBe(fingerprint);
+        expect(fingerprint).not.toContain('secret');
+    });
+
+    it('should record, find and forget uploads', async () => {
+        expect(await findUpload(indexPath, 'content')).toBeUndefined();
+
+        await recordUpload(indexPath, 'content', record);
+        await recordUpload(indexPath, 'public-content', record);
+        expect(await findUpload(indexPath, 'content')).toEqual(record);
+
+        await forgetUpload(indexPath, 'cid-1');
+        expect(await findUpload(indexPath, 'content')).toBeUndefined();
+        expect(await findUpload(indexPath, 'public-content')).toBeUndefined();
+    });
+
+    it('should not lose concurrent updates', async () => {
+        await Promise.all([
+            recordUpload(indexPath, 'first', record),
+            recordUpload(indexPath, 'second', { ...record, cid: 'cid-2' }),
+        ]);
+
+        const contents = JSON.parse(await readFile(indexPath, 'utf-8'));
+        expect(Object.keys(contents).sort()).toEqual(['first', 'second']);
+    });
+});
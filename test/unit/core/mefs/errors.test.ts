@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+    AuthError,
+    CancelledError,
+    createNetworkError,
+    createResponseError,
+    FileTooLargeError,
+    GatewayError,
+    getErrorCode,
+    isRetryableError,
+    isUnauthorizedError,
+    MefsApiError,
+    NotFoundError,
+    QuotaExceededError,
+    RateLimitedError,
+    ValidationError,
+} from '../../../../src/core/mefs/errors.js';
+
+describe('MEFS Errors', () => {
+    describe('createResponseError', () => {
+        const classify = (status: number, body = '', headers?: Record<string, string>) =>
+            createResponseError('Failed to download file', new Response(body, { status, headers }));
+
+        it('should classify errors by status', async () => {
+            expect(await classify(401)).toBeInstanceOf(AuthError);
+            expect(await classify(403)).toBeInstanceOf(AuthError);
+            expect(await classify(404)).toBeInstanceOf(NotFoundError);
+            expect(await classify(402)).toBeInstanceOf(QuotaExceededError);
+            expect(await classify(507)).toBeInstanceOf(QuotaExceededError);
+            expect(await classify(429)).toBeInstanceOf(RateLimitedError);
+            expect(await classify(500)).toBeInstanceOf(GatewayError);
+            expect(await classify(503)).toBeInstanceOf(GatewayError);
+            expect(await classify(400)).toBeInstanceOf(ValidationError);
+            expect(await classify(409)).toBeInstanceOf(ValidationError);
+        });
+
+        it('should recognize quota errors by their body', async () => {
+            const error = await classify(400, 'insufficient balance for storage');
+
+            expect(error).toBeInstanceOf(QuotaExceededError);
+            expect(error).toMatchObject({ code: 'QUOTA_EXCEEDED', status: 400 });
+        });
+
+        it('should include the status and body in the message', async () => {
+            const error = await createResponseError(
+                'Failed to list files',
+                new Response('token expired', { status: 401, statusText: 'Unauthorized' })
+            );
+
+            expect(error.message).toBe('Failed to list files: 401 Unauthorized - token expired');
+            expect(error).toBeInstanceOf(MefsApiError);
+            expect(isUnauthorizedError(error)).toBe(true);
+        });
+
+        it('should parse Retry-After in seconds and as a date', async () => {
+            expect(await classify(429, '', { 'retry-after': '2' })).toMatchObject({ retryAfterMs: 2000 });
+
+            const date = new Date(Date.now() + 60_000).toUTCString();
+            const error = (await classify(429, '', { 'retry-after': date })) as RateLimitedError;
+            expect(error.retryAfterMs).toBeGreaterThan(50_000);
+            expect(error.retryAfterMs).toBeLessThanOrEqual(60_000);
+        });
+    });
+
+    it('should classify network failures as gateway errors', () => {
+        const cause = new TypeError('fetch failed');
+        const error = createNetworkError('Failed to list files', cause);
+
+        expect(error).toBeInstanceOf(GatewayError);
+        expect(error).toMatchObject({ status: 0, code: 'GATEWAY_ERROR', message: 'Failed to list files: fetch failed', cause });
+    });
+
+    it('should only retry transient errors', () => {
+        expect(isRetryableError(new GatewayError('down', 503))).toBe(true);
+        expect(isRetryableError(new RateLimitedError('slow down'))).toBe(true);
+        expect(isRetryableError(new AuthError('denied', 401))).toBe(false);
+        expect(isRetryableError(new ValidationError('bad', 400))).toBe(false);
+        expect(isRetryableError(new Error('boom'))).toBe(false);
+    });
+
+    it('should give every error a stable code', () => {
+        expect(getErrorCode(new NotFoundError('missing'))).toBe('NOT_FOUND');
+        expect(getErrorCode(new MefsApiError('odd', 302))).toBe('API_ERROR');
+        expect(getErrorCode(new FileTooLargeError(10, 20))).toBe('FILE_TOO_LARGE');
+        expect(getErrorCode(new CancelledError())).toBe('CANCELLED');
+        expect(getErrorCode(new Error('boom'))).toBe('INTERNAL_ERROR');
+        expect(getErrorCode('boom')).toBe('INTERNAL_ERROR');
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import {
+    createUploadFingerprint,
+    loadUploadSession,
+    removeUploadSession,
+    saveUploadSession,
+} from '../../../../src/core/mefs/journal.js';
+import type { MefsConfig } from '../../../../src/core/mefs/config.js';
+
+describe('MEFS Upload Journal', () => {
+    const owner: MefsConfig = {
+        apiBaseUrl: 'https://api.mefs.io:10000/produce',
+        origin: 'https://memo.io',
+        chainId: 985,
+        address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    };
+    const session = { uploadId: 'upload-1', chunkSize: 4, uploadedChunks: [0, 1] };
+
+    let tempDir: string;
+    let journalPath: string;
+
+    beforeEach(async () => {
+        tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-journal-'));
+        journalPath = path.join(tempDir, 'nested', 'uploads.json');
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should identify uploads by owner, content, name and options', () => {
+        const fingerprint = createUploadFingerprint(owner, 'sha256', 'test.txt', { key: 'secret' });
+
+        expect(createUploadFingerprint(owner, 'sha256', 'test.txt', { key: 'secret' })).toBe(fingerprint);
+        expect(createUploadFingerprint({ ...owner, address: undefined }, 'sha256', 'test.txt', { key: 'secret' })).not.toBe(fingerprint);
+        expect(createUploadFingerprint(owner, 'other', 'test.txt', { key: 'secret' })).not.toBe(fingerprint);
+        expect(createUploadFingerprint(owner, 'sha256', 'test.txt', { key: 'secret', public: true })).not.toBe(fingerprint);
+        expect(fingerprint).not.toContain('secret');
+    });
+
+    it('should save, load and remove upload sessions', async () => {
+        expect(await loadUploadSession(journalPath, 'upload')).toBeUndefined();
+
+        await saveUploadSession(journalPath, 'upload', session);
+        expect(await loadUploadSession(journalPath, 'upload')).toEqual(session);
+
+        await removeUploadSession(journalPath, 'upload');
+        expect(await loadUploadSession(journalPath, 'upload')).toBeUndefined();
+    });
+
+    it('should not lose concurrent updates', async () => {
+        await Promise.all([
+            saveUploadSession(journalPath, 'first', session),
+            saveUploadSession(journalPath, 'second', { ...session, uploadId: 'upload-2' }),
+        ]);
+
+        const contents = JSON.parse(await readFile(journalPath, 'utf-8'));
+        expect(Object.keys(contents).sort()).toEqual(['first', 'second']);
+    });
+
+    it('should ignore sessions older than a day', async () => {
+        await saveUploadSession(journalPath, 'upload', session);
+
+        vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 25 * 60 * 60 * 1000);
+        expect(await loadUploadSession(journalPath, 'upload')).toBeUndefined();
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AuthError, GatewayError, RateLimitedError } from '../../../../src/core/mefs/errors.js';
+import { getRetryDelay, withRetry } from '../../../../src/core/mefs/retry.js';
+
+describe('MEFS Retry', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe('getRetryDelay', () => {
+        it('should back off exponentially with full jitter', () => {
+            vi.spyOn(Math, 'random').mockReturnValue(0.5);
+            const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+            expect(getRetryDelay(new GatewayError('down', 503), 0, options)).toBe(50);
+            expect(getRetryDelay(new GatewayError('down', 503), 2, options)).toBe(200);
+            expect(getRetryDelay(new GatewayError('down', 503), 10, options)).toBe(500);
+        });
+
+        it('should wait as long as Retry-After asks, within the limit', () => {
+            vi.spyOn(Math, 'random').mockReturnValue(0);
+            const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+            expect(getRetryDelay(new RateLimitedError('slow down', 300), 0, options)).toBe(300);
+            expect(getRetryDelay(new RateLimitedError('slow down', 60_000), 0, options)).toBe(1000);
+        });
+    });
+
+    describe('withRetry', () => {
+        it('should retry transient errors until the operation succeeds', async () => {
+            const operation = vi.fn()
+                .mockRejectedValueOnce(new GatewayError('down', 503))
+                .mockRejectedValueOnce(new RateLimitedError('slow down'))
+                .mockResolvedValue('ok');
+
+            await expect(withRetry(operation, { baseDelayMs: 0 })).resolves.toBe('ok');
+            expect(operation).toHaveBeenCalledTimes(3);
+        });
+
+        it('should give up after the configured number of retries', async () => {
+            const operation = vi.fn().mockRejectedValue(new GatewayError('down', 503));
+
+            await expect(withRetry(operation, { retries: 2, baseDelayMs: 0 })).rejects.toBeInstanceOf(GatewayError);
+            expect(operation).toHaveBeenCalledTimes(3);
+        });
+
+        it('should not retry other errors', async () => {
+            const operation = vi.fn().mockRejectedValue(new AuthError('denied', 401));
+
+            await expect(withRetry(operation, { baseDelayMs: 0 })).rejects.toBeInstanceOf(AuthError);
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+
+        it('should stop retrying once aborted', async () => {
+            const controller = new AbortController();
+            const operation = vi.fn().mockImplementation(async () => {
+                controller.abort();
+                throw new GatewayError('down', 503);
+            });
+
+            await expect(withRetry(operation, { baseDelayMs: 0 }, controller.signal)).rejects.toBeInstanceOf(GatewayError);
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+    });
+});
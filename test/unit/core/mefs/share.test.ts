@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+    createShareToken,
+    getPublicKey,
+    normalizePublicKey,
+    openShareToken,
+} from '../../../../src/core/mefs/share.js';
+
+describe('MEFS Share', () => {
+    const recipientPrivateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+    const otherPrivateKey = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+    const entry = {
+        cid: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
+        key: 'gateway-key',
+        keyHandle: 'mefs-key-v1:AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+    };
+
+    it('should derive the public key of the recipient wallet', () => {
+        const publicKey = getPublicKey(recipientPrivateKey);
+
+        expect(publicKey).toMatch(/^0x0[23][0-9a-f]{64}$/);
+        expect(ethers.computeAddress(publicKey)).toBe('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266');
+        expect(getPublicKey(recipientPrivateKey.slice(2))).toBe(publicKey);
+    });
+
+    it('should accept compressed and uncompressed public keys', () => {
+        const wallet = new ethers.SigningKey(recipientPrivateKey);
+
+        expect(normalizePublicKey(wallet.publicKey)).toBe(wallet.compressedPublicKey);
+        expect(normalizePublicKey(wallet.compressedPublicKey.slice(2))).toBe(wallet.compressedPublicKey);
+        expect(() => normalizePublicKey('0x1234')).toThrow('Invalid public key');
+    });
+
+    it('should open share tokens with the recipient private key', async () => {
+        const token = createShareToken(entry, getPublicKey(recipientPrivateKey));
+
+        expect(token.startsWith('mefs-share-v1:')).toBe(true);
+        await expect(openShareToken(token, recipientPrivateKey)).resolves.toEqual(entry);
+    });
+
+    it('should use a new ephemeral key for every token', () => {
+        const publicKey = getPublicKey(recipientPrivateKey);
+
+        expect(createShareToken(entry, publicKey)).not.toBe(createShareToken(entry, publicKey));
+    });
+
+    it('should not open share tokens with another private key', async () => {
+        const token = createShareToken(entry, getPublicKey(recipientPrivateKey));
+
+        await expect(openShareToken(token, otherPrivateKey)).rejects.toThrow(
+            'Failed to open share token: it was not shared with this wallet'
+        );
+    });
+
+    it('should reject malformed share tokens', async () => {
+        await expect(openShareToken('mefs-key-v1:abc', recipientPrivateKey)).rejects.toThrow('Invalid share token');
+        await expect(openShareToken('mefs-share-v1:abc', recipientPrivateKey)).rejects.toThrow('Invalid share token');
+    });
+});
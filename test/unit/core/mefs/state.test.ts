@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp, readdir, readFile, rm, stat } from 'node:fs/promises';
+import { readStateFile, updateStateFile, waitForStateFile } from '../../../../src/core/mefs/state.js';
+
+describe('MEFS State File', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    const append = (value: number) => updateStateFile(filePath, async () => {
+        const data = await readStateFile(filePath);
+        const values = data ? JSON.parse(data.toString('utf-8')) as number[] : [];
+        return JSON.stringify([...values, value]);
+    });
+
+    beforeEach(async () => {
+        tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-state-'));
+        filePath = path.join(tempDir, 'nested', 'state.json');
+    });
+
+    afterEach(async () => {
+        await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should read missing files as undefined', async () => {
+        await expect(readStateFile(filePath)).resolves.toBeUndefined();
+    });
+
+    it('should serialize concurrent updates', async () => {
+        await Promise.all([1, 2, 3, 4].map(append));
+
+        expect(JSON.parse(await readFile(filePath, 'utf-8'))).toEqual([1, 2, 3, 4]);
+        expect((await stat(filePath)).mode & 0o777).toBe(0o600);
+    });
+
+    it('should keep the file when an update fails', async () => {
+        await append(1);
+
+        await expect(updateStateFile(filePath, async () => {
+            throw new Error('boom');
+        })).rejects.toThrow('boom');
+        await append(2);
+
+        expect(JSON.parse(await readFile(filePath, 'utf-8'))).toEqual([1, 2]);
+        expect(await readdir(path.dirname(filePath))).toEqual(['state.json']);
+    });
+
+    it('should let reads wait for pending updates', async () => {
+        const update = append(1);
+
+        await waitForStateFile(filePath);
+
+        expect(JSON.parse((await readStateFile(filePath))!.toString('utf-8'))).toEqual([1]);
+        await update;
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { getKeyVault, lookupKeys, saveKeys } from '../../../../src/core/mefs/vault.js';
+import type { KeyVault } from '../../../../src/core/mefs/vault.js';
+import type { MefsConfig } from '../../../../src/core/mefs/config.js';
+
+describe('MEFS Key Vault', () => {
+    const serverConfig: MefsConfig = {
+        apiBaseUrl: 'https://api.mefs.io:10000/produce',
+        origin: 'https://memo.io',
+        chainId: 985,
+        privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+        address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    };
+    const otherWallet: MefsConfig = { ...serverConfig, privateKey: undefined, address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' };
+
+    let tempDir: string;
+    let vault: KeyVault;
+
+    beforeEach(async () => {
+        tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-vault-'));
+        vault = getKeyVault({ ...serverConfig, keyVaultPath: path.join(tempDir, 'nested', 'keys.vault') })!;
+    });
+
+    afterEach(async () => {
+        await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should only be available with a private key and vault path', () => {
+        expect(getKeyVault(serverConfig)).toBeUndefined();
+        expect(getKeyVault({ ...serverConfig, privateKey: undefined, keyVaultPath: '/tmp/keys.vault' })).toBeUndefined();
+        expect(vault).toBeDefined();
+    });
+
+    it('should store and look up keys by CID', async () => {
+        await saveKeys(vault, serverConfig, { 'cid-1': { key: 'gateway-key' } });
+        await saveKeys(vault, serverConfig, { 'cid-1': { keyHandle: 'mefs-key-v1:abc' }, 'cid-2': { key: 'other' } });
+
+        expect(await lookupKeys(vault, serverConfig, ['cid-1', 'cid-2', 'cid-3'])).toEqual({
+            'cid-1': { key: 'gateway-key', keyHandle: 'mefs-key-v1:abc' },
+            'cid-2': { key: 'other' },
+        });
+    });
+
+    it('should return nothing before the vault file exists', async () => {
+        expect(await lookupKeys(vault, serverConfig, ['cid-1'])).toEqual({});
+    });
+
+    it('should keep the keys of different wallets apart', async () => {
+        await saveKeys(vault, serverConfig, { 'cid-1': { key: 'server-key' } });
+
+        expect(await lookupKeys(vault, otherWallet, ['cid-1'])).toEqual({});
+    });
+
+    it('should encrypt the vault file', async () => {
+        await saveKeys(vault, serverConfig, { 'cid-1': { key: 'gateway-key' } });
+
+        const contents = await readFile(vault.path);
+        expect(contents.includes(Buffer.from('gateway-key'))).toBe(false);
+        expect(contents.includes(Buffer.from('cid-1'))).toBe(false);
+    });
+
+    it('should not open a vault created with a different private key', async () => {
+        await saveKeys(vault, serverConfig, { 'cid-1': { key: 'gateway-key' } });
+
+        const otherVault = getKeyVault({
+            ...serverConfig,
+            privateKey: '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+            keyVaultPath: vault.path,
+        })!;
+
+        await expect(lookupKeys(otherVault, serverConfig, ['cid-1'])).rejects.toThrow('different MEFS_PRIVATE_KEY');
+    });
+
+    it('should not lose keys saved concurrently', async () => {
+        await Promise.all(
+            Array.from({ length: 5 }, (_, i) => saveKeys(vault, serverConfig, { [`cid-${i}`]: { key: `key-${i}` } }))
+        );
+
+        const stored = await lookupKeys(vault, serverConfig, ['cid-0', 'cid-1', 'cid-2', 'cid-3', 'cid-4']);
+        expect(Object.keys(stored)).toHaveLength(5);
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { clearCatalog, forgetObject, listObjects, recordObject } from '../../../../src/core/server/catalog.js';
+import { MefsConfig } from '../../../../src/core/mefs/config.js';
+
+describe('Object Catalog', () => {
+  const baseConfig: MefsConfig = {
+    apiBaseUrl: 'https://api.mefs.io:10000/produce',
+    origin: 'https://memo.io',
+    chainId: 985,
+  };
+  const alice: MefsConfig = { ...baseConfig, address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' };
+  const bob: MefsConfig = { ...baseConfig, address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' };
+
+  beforeEach(() => {
+    clearCatalog();
+  });
+
+  it('should list recorded objects in insertion order', () => {
+    recordObject(alice, { cid: 'cid-1', filename: 'a.txt', contentType: 'text/plain', size: 1 });
+    recordObject(alice, { cid: 'cid-2', filename: 'b.png', contentType: 'image/png', size: 2 });
+
+    expect(listObjects(alice).map(entry => entry.cid)).toEqual(['cid-1', 'cid-2']);
+  });
+
+  it('should keep objects of different identities apart', () => {
+    recordObject(alice, { cid: 'cid-1', filename: 'a.txt' });
+
+    expect(listObjects(bob)).toEqual([]);
+    expect(listObjects({ ...alice, address: alice.address!.toLowerCase() })).toHaveLength(1);
+  });
+
+  it('should replace earlier entries for the same CID', () => {
+    recordObject(alice, { cid: 'cid-1', filename: 'old.txt' });
+    recordObject(alice, { cid: 'cid-1', filename: 'new.txt' });
+
+    expect(listObjects(alice)).toEqual([{ cid: 'cid-1', filename: 'new.txt' }]);
+  });
+
+  it('should forget deleted objects', () => {
+    recordObject(alice, { cid: 'cid-1', filename: 'a.txt' });
+    recordObject(alice, { cid: 'cid-2', filename: 'b.txt' });
+
+    forgetObject(alice, 'cid-1');
+    forgetObject(bob, 'cid-2');
+
+    expect(listObjects(alice).map(entry => entry.cid)).toEqual(['cid-2']);
+  });
+});
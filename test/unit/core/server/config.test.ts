@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'node:path';
 import { loadConfig } from '../../../../src/core/server/config.js';
 
 describe('Server Configuration', () => {
@@ -29,6 +30,7 @@ describe('Server Configuration', () => {
       transportMode: 'stdio',
       maxFileSizeBytes: 1024 * 1024 * 100, // 100MB
       endpoint: '/rest',
+      allowedRoots: [],
     });
   });
 
@@ -41,6 +43,7 @@ describe('Server Configuration', () => {
       transportMode: 'stdio',
       maxFileSizeBytes: 1024 * 1024 * 100, // 100MB
       endpoint: '/rest',
+      allowedRoots: [],
     });
   });
 
@@ -60,6 +63,16 @@ describe('Server Configuration', () => {
     expect(() => loadConfig()).toThrow('Invalid transport mode');
   });
 
+  it('should accept streamable http transport mode', () => {
+    process.env.MCP_TRANSPORT_MODE = 'http';
+    expect(loadConfig().transportMode).toBe('http');
+  });
+
+  it('should parse allowed root directories', () => {
+    process.env.MCP_ALLOWED_ROOTS = ['/data/in', ' /data/out ', ''].join(path.delimiter);
+    expect(loadConfig().allowedRoots).toEqual(['/data/in', '/data/out']);
+  });
+
   it('should validate connection timeout', () => {
     process.env.MCP_CONNECTION_TIMEOUT = 'invalid';
     expect(() => loadConfig()).toThrow('Invalid connection timeout');
@@ -91,6 +104,7 @@ describe('Server Configuration', () => {
       maxFileSizeBytes: 1024 * 1024 * 100, // 100MB
       transportMode: 'stdio',
       endpoint: '/rest',
+      allowedRoots: [],
     });
   });
 
@@ -106,6 +120,7 @@ describe('Server Configuration', () => {
       maxFileSizeBytes: 1024 * 1024 * 100, // 100MB
       transportMode: 'stdio',
       endpoint: '/rest',
+      allowedRoots: [],
     });
   });
 });
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import path from 'node:path';
+import os from 'node:os';
+import { createHash } from 'node:crypto';
+import { mkdtemp, mkdir, readdir, readFile, rm, symlink, writeFile } from 'node:fs/promises';
+import { ReadableStream } from 'node:stream/web';
+import {
+  getLocalFileRoots,
+  resolveAllowedOutputPath,
+  resolveAllowedPath,
+  writeStreamToFile,
+} from '../../../../src/core/server/files.js';
+
+describe('Local File Access', () => {
+  let tempDir: string;
+  let allowedRoot: string;
+  let outsideFile: string;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-files-'));
+    allowedRoot = path.join(tempDir, 'allowed');
+    await mkdir(path.join(allowedRoot, 'nested'), { recursive: true });
+    await writeFile(path.join(allowedRoot, 'nested', 'inside.txt'), 'inside');
+
+    outsideFile = path.join(tempDir, 'outside.txt');
+    await writeFile(outsideFile, 'outside');
+    await symlink(outsideFile, path.join(allowedRoot, 'link.txt'));
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should resolve files inside an allowed root', async () => {
+    const resolved = await resolveAllowedPath(path.join(allowedRoot, 'nested', 'inside.txt'), [allowedRoot]);
+    expect(resolved.endsWith(path.join('nested', 'inside.txt'))).toBe(true);
+  });
+
+  it('should reject files outside the allowed roots', async () => {
+    await expect(resolveAllowedPath(outsideFile, [allowedRoot])).rejects.toThrow('Access denied');
+  });
+
+  it('should reject path traversal', async () => {
+    const traversal = path.join(allowedRoot, '..', 'outside.txt');
+    await expect(resolveAllowedPath(traversal, [allowedRoot])).rejects.toThrow('Access denied');
+  });
+
+  it('should reject symlinks pointing outside the allowed roots', async () => {
+    await expect(resolveAllowedPath(path.join(allowedRoot, 'link.txt'), [allowedRoot])).rejects.toThrow(
+      'Access denied'
+    );
+  });
+
+  it('should report missing files', async () => {
+    await expect(resolveAllowedPath(path.join(allowedRoot, 'missing.txt'), [allowedRoot])).rejects.toThrow(
+      'File not found'
+    );
+  });
+
+  it('should be disabled without allowed roots', async () => {
+    await expect(resolveAllowedPath(outsideFile, [])).rejects.toThrow('Local file access is disabled');
+  });
+
+  it('should only offer local file access in stdio mode', () => {
+    const config = {
+      host: 'localhost',
+      port: 3000,
+      connectionTimeoutMs: 5000,
+      maxFileSizeBytes: 1024,
+      allowedRoots: [allowedRoot],
+    };
+
+    expect(getLocalFileRoots({ ...config, transportMode: 'stdio' })).toEqual([allowedRoot]);
+    expect(getLocalFileRoots({ ...config, transportMode: 'sse' })).toEqual([]);
+    expect(getLocalFileRoots(undefined)).toEqual([]);
+  });
+
+  describe('Output Paths', () => {
+    it('should resolve new files inside an allowed root', async () => {
+      const resolved = await resolveAllowedOutputPath(path.join(allowedRoot, 'nested', 'new.txt'), [allowedRoot]);
+      expect(resolved.endsWith(path.join('nested', 'new.txt'))).toBe(true);
+    });
+
+    it('should reject output paths outside the allowed roots', async () => {
+      await expect(
+        resolveAllowedOutputPath(path.join(allowedRoot, '..', 'new.txt'), [allowedRoot])
+      ).rejects.toThrow('Access denied');
+    });
+
+    it('should reject missing output directories', async () => {
+      await expect(
+        resolveAllowedOutputPath(path.join(allowedRoot, 'missing', 'new.txt'), [allowedRoot])
+      ).rejects.toThrow('Directory not found');
+    });
+
+    it('should only replace existing files when overwrite is set', async () => {
+      const existing = path.join(allowedRoot, 'nested', 'inside.txt');
+
+      await expect(resolveAllowedOutputPath(existing, [allowedRoot])).rejects.toThrow('File already exists');
+      await expect(resolveAllowedOutputPath(existing, [allowedRoot], true)).resolves.toBeDefined();
+    });
+
+    it('should never write through symlinks', async () => {
+      await expect(
+        resolveAllowedOutputPath(path.join(allowedRoot, 'link.txt'), [allowedRoot], true)
+      ).rejects.toThrow('Not a regular file');
+    });
+  });
+
+  describe('Streaming Writes', () => {
+    const streamOf = (...chunks: string[]) =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue(new TextEncoder().encode(chunk));
+          }
+          controller.close();
+        },
+      });
+
+    it('should write the stream and return its size and checksum', async () => {
+      const target = path.join(allowedRoot, 'nested', 'streamed.txt');
+
+      const result = await writeStreamToFile(streamOf('hello ', 'world'), target);
+
+      expect(await readFile(target, 'utf8')).toBe('hello world');
+      expect(result).toEqual({
+        size: 11,
+        sha256: createHash('sha256').update('hello world').digest('hex'),
+      });
+    });
+
+    it('should not leave a partial file behind when the stream fails', async () => {
+      const dir = path.join(allowedRoot, 'failed');
+      await mkdir(dir);
+      const failing = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('partial'));
+          controller.error(new Error('Connection reset'));
+        },
+      });
+
+      await expect(writeStreamToFile(failing, path.join(dir, 'broken.txt'))).rejects.toThrow('Connection reset');
+      expect(await readdir(dir)).toEqual([]);
+    });
+  });
+});
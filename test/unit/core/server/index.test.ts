@@ -1,9 +1,12 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { startStdioTransport } from '../../../../src/core/server/transports/stdio.js';
 import { startSSETransport } from '../../../../src/core/server/transports/sse.js';
+import { startRestTransport } from '../../../../src/core/server/transports/rest.js';
+import { startStreamableHTTPTransport } from '../../../../src/core/server/transports/streamable.js';
 import { McpServerConfig } from '../../../../src/core/server/types.js';
 import startMCPServer from '../../../../src/core/server/index.js';
 import { registerTools } from '../../../../src/core/server/tools/index.js';
+import { registerResources } from '../../../../src/core/server/resources/index.js';
 
 // Mock the transports
 vi.mock('../../../../src/core/server/transports/stdio.js', () => ({
@@ -14,25 +17,45 @@ vi.mock('../../../../src/core/server/transports/sse.js', () => ({
   startSSETransport: vi.fn().mockResolvedValue({}),
 }));
 
+vi.mock('../../../../src/core/server/transports/streamable.js', () => ({
+  startStreamableHTTPTransport: vi.fn().mockResolvedValue({}),
+}));
+
 vi.mock('../../../../src/core/server/transports/rest.js', () => ({
   startRestTransport: vi.fn().mockResolvedValue({}),
 }));
 
+// Mock MEFS authentication
+vi.mock('../../../../src/core/mefs/config.js', () => ({
+  loadMefsConfig: vi.fn().mockReturnValue({}),
+  getAuthTokens: vi.fn().mockResolvedValue({
+    accessToken: 'mock-access-token',
+    refreshToken: 'mock-refresh-token',
+  }),
+}));
+
 // Mock the tools registration
 vi.mock('../../../../src/core/server/tools/index.js', () => ({
   registerTools: vi.fn(),
 }));
 
+// Mock the resources registration
+vi.mock('../../../../src/core/server/resources/index.js', () => ({
+  registerResources: vi.fn(),
+}));
+
 // Mock the McpServer class
 const mockTool = vi.fn();
 const mockConnect = vi.fn();
 
 vi.mock('@modelcontextprotocol/sdk/server/mcp.js', () => {
   return {
-    McpServer: vi.fn().mockImplementation(() => ({
-      tool: mockTool,
-      connect: mockConnect,
-    })),
+    McpServer: vi.fn().mockImplementation(function () {
+      return {
+        tool: mockTool,
+        connect: mockConnect,
+      };
+    }),
   };
 });
 
@@ -56,7 +79,8 @@ describe('MCP Server', () => {
 
     await startMCPServer(mockConfig);
 
-    expect(registerTools).toHaveBeenCalledWith(expect.any(Object), expect.any(Object));
+    expect(registerTools).toHaveBeenCalledWith(expect.any(Object), expect.any(Object), expect.any(Object));
+    expect(registerResources).toHaveBeenCalledWith(expect.any(Object), expect.any(Object), mockConfig);
     expect(startStdioTransport).toHaveBeenCalled();
     expect(startSSETransport).not.toHaveBeenCalled();
   });
@@ -66,17 +90,28 @@ describe('MCP Server', () => {
 
     await startMCPServer({ ...mockConfig, transportMode: 'sse' });
 
-    expect(registerTools).toHaveBeenCalledWith(expect.any(Object), expect.any(Object));
+    expect(registerTools).toHaveBeenCalledWith(expect.any(Object), expect.any(Object), expect.any(Object));
     expect(startSSETransport).toHaveBeenCalled();
     expect(startStdioTransport).not.toHaveBeenCalled();
   });
 
+  it('should initialize server with Streamable HTTP transport', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+
+    await startMCPServer({ ...mockConfig, transportMode: 'http' });
+
+    expect(startStreamableHTTPTransport).toHaveBeenCalled();
+    expect(startSSETransport).not.toHaveBeenCalled();
+    expect(startStdioTransport).not.toHaveBeenCalled();
+  });
+
   it('should initialize server with REST transport', async () => {
     vi.spyOn(console, 'error').mockImplementation(() => { });
 
     await startMCPServer({ ...mockConfig, transportMode: 'rest' });
 
-    expect(registerTools).toHaveBeenCalledWith(expect.any(Object), expect.any(Object));
+    expect(registerTools).toHaveBeenCalledWith(expect.any(Object), expect.any(Object), expect.any(Object));
+    expect(startRestTransport).toHaveBeenCalled();
     expect(startSSETransport).not.toHaveBeenCalled();
     expect(startStdioTransport).not.toHaveBeenCalled();
   });
@@ -86,7 +121,7 @@ describe('MCP Server', () => {
 
     await startMCPServer(mockConfig);
 
-    expect(registerTools).toHaveBeenCalledWith(expect.any(Object), expect.any(Object));
+    expect(registerTools).toHaveBeenCalledWith(expect.any(Object), expect.any(Object), expect.any(Object));
   });
 
   it('should handle initialization errors', async () => {
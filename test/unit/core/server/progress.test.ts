@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createProgressReporter } from '../../../../src/core/server/progress.js';
+
+describe('Progress Notifications', () => {
+  const createExtra = (progressToken?: string | number) =>
+    ({
+      _meta: progressToken === undefined ? undefined : { progressToken },
+      sendNotification: vi.fn().mockResolvedValue(undefined),
+    }) as any;
+
+  const reported = (extra: any) => extra.sendNotification.mock.calls.map(([notification]: any[]) => notification.params);
+
+  it('should not report progress unless the client sent a progress token', () => {
+    expect(createProgressReporter(undefined)).toBeUndefined();
+    expect(createProgressReporter(createExtra())).toBeUndefined();
+  });
+
+  it('should send progress notifications with the progress token', () => {
+    const extra = createExtra(7);
+    const report = createProgressReporter(extra)!;
+
+    report(50, 100);
+
+    expect(extra.sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 7, progress: 50, total: 100 },
+    });
+  });
+
+  it('should report every percent and the completion', () => {
+    const extra = createExtra('download');
+    const report = createProgressReporter(extra)!;
+
+    for (const progress of [10, 40, 60, 80, 110, 5000]) {
+      report(progress, 5000);
+    }
+
+    expect(reported(extra).map((params: any) => params.progress)).toEqual([10, 60, 110, 5000]);
+  });
+
+  it('should report every MB when the total is unknown', () => {
+    const extra = createExtra('download');
+    const report = createProgressReporter(extra)!;
+
+    for (const progress of [65536, 524288, 1114112, 2097152, 2162688]) {
+      report(progress);
+    }
+
+    expect(reported(extra).map((params: any) => params.progress)).toEqual([65536, 1114112, 2162688]);
+  });
+
+  it('should log failed notifications without throwing', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const extra = createExtra('upload');
+    extra.sendNotification.mockRejectedValue(new Error('Not connected'));
+
+    createProgressReporter(extra)!(1, 2);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(consoleError).toHaveBeenCalledWith('Failed to send progress notification:', expect.any(Error));
+    consoleError.mockRestore();
+  });
+});
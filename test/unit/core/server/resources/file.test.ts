@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fileResource } from '../../../../../src/core/server/resources/file.js';
+import { downloadFile } from '../../../../../src/core/mefs/client.js';
+import { getAuthTokens, MefsConfig } from '../../../../../src/core/mefs/config.js';
+import { clearCatalog, recordObject } from '../../../../../src/core/server/catalog.js';
+import { McpServerConfig } from '../../../../../src/core/server/types.js';
+
+// Mock MEFS client and config
+vi.mock('../../../../../src/core/mefs/client.js', () => ({
+  downloadFile: vi.fn(),
+}));
+
+vi.mock('../../../../../src/core/mefs/config.js', () => {
+  const getAuthTokens = vi.fn();
+  return {
+    getAuthTokens,
+    withAuthTokens: vi.fn(async (config: any, operation: any) => {
+      const tokens = await getAuthTokens(config);
+      return operation({ apiBaseUrl: config.apiBaseUrl, accessToken: tokens.accessToken });
+    }),
+    MefsConfig: {},
+  };
+});
+
+describe('File Resource', () => {
+  const mockDownloadFile = vi.mocked(downloadFile);
+  const mockGetAuthTokens = vi.mocked(getAuthTokens);
+
+  const mockMefsConfig: MefsConfig = {
+    apiBaseUrl: 'https://api.mefs.io:10000/produce',
+    origin: 'https://memo.io',
+    chainId: 985,
+    privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+    address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  };
+
+  const mockMcpConfig: McpServerConfig = {
+    port: 3001,
+    host: 'localhost',
+    connectionTimeoutMs: 30000,
+    transportMode: 'stdio',
+    maxFileSizeBytes: 1024 * 1024 * 10, // 10MB
+  };
+
+  const testCID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+  const extra = {} as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearCatalog();
+
+    mockGetAuthTokens.mockResolvedValue({
+      accessToken: 'mock-access-token',
+      refreshToken: 'mock-refresh-token',
+    });
+  });
+
+  it('should list the objects recorded for the identity', async () => {
+    recordObject(mockMefsConfig, { cid: testCID, filename: 'notes.txt', contentType: 'text/plain', size: 5 });
+
+    const resource = fileResource(mockMefsConfig, mockMcpConfig);
+    const result = await resource.template.listCallback!(extra);
+
+    expect(result.resources).toEqual([
+      {
+        uri: `mefs://${testCID}`,
+        name: 'notes.txt',
+        mimeType: 'text/plain',
+        size: 5,
+      },
+    ]);
+  });
+
+  it('should list nothing for sessions without an identity', async () => {
+    const { privateKey: _, ...anonymousConfig } = mockMefsConfig;
+
+    const resource = fileResource(anonymousConfig, mockMcpConfig);
+    const result = await resource.template.listCallback!(extra);
+
+    expect(result.resources).toEqual([]);
+  });
+
+  it('should read text files as text contents', async () => {
+    mockDownloadFile.mockResolvedValue({
+      data: new TextEncoder().encode('hello'),
+      filename: 'notes.txt',
+      contentType: 'text/plain; charset=utf-8',
+    });
+
+    const resource = fileResource(mockMefsConfig, mockMcpConfig);
+    const uri = new URL(`mefs://${testCID}`);
+    const result = await resource.handler(uri, { cid: testCID }, extra);
+
+    expect(result.contents).toEqual([{ uri: uri.href, mimeType: 'text/plain', text: 'hello' }]);
+    expect(mockDownloadFile).toHaveBeenCalledWith(expect.any(Object), testCID, undefined, {
+      maxBytes: mockMcpConfig.maxFileSizeBytes,
+    });
+  });
+
+  it('should read binary files as blob contents', async () => {
+    const data = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+    mockDownloadFile.mockResolvedValue({
+      data,
+      filename: 'photo.png',
+    });
+
+    const resource = fileResource(mockMefsConfig, mockMcpConfig);
+    const uri = new URL(`mefs://${testCID}`);
+    const result = await resource.handler(uri, { cid: testCID }, extra);
+
+    expect(result.contents).toEqual([
+      { uri: uri.href, mimeType: 'image/png', blob: Buffer.from(data).toString('base64') },
+    ]);
+  });
+
+  it('should propagate download errors', async () => {
+    mockDownloadFile.mockRejectedValue(new Error('File not found'));
+
+    const resource = fileResource(mockMefsConfig, mockMcpConfig);
+    await expect(resource.handler(new URL('mefs://missing'), { cid: 'missing' }, extra)).rejects.toThrow(
+      'File not found'
+    );
+  });
+});
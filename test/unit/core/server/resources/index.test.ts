@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerResources } from '../../../../../src/core/server/resources/index.js';
+import { MefsConfig } from '../../../../../src/core/mefs/config.js';
+import { McpServerConfig } from '../../../../../src/core/server/types.js';
+
+describe('Resource Registration', () => {
+  const mockMefsConfig: MefsConfig = {
+    apiBaseUrl: 'https://api.mefs.io:10000/produce',
+    origin: 'https://memo.io',
+    chainId: 985,
+    privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+    address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  };
+
+  const mockMcpConfig: McpServerConfig = {
+    port: 3001,
+    host: 'localhost',
+    connectionTimeoutMs: 30000,
+    transportMode: 'stdio',
+    maxFileSizeBytes: 1024 * 1024 * 10, // 10MB
+  };
+
+  it('should register the mefs:// file resource template', () => {
+    const server = {
+      resource: vi.fn(),
+    };
+
+    registerResources(mockMefsConfig, server as any, mockMcpConfig);
+
+    expect(server.resource).toHaveBeenCalledTimes(1);
+    expect(server.resource).toHaveBeenCalledWith(
+      'file',
+      expect.any(ResourceTemplate),
+      expect.objectContaining({ description: expect.any(String) }),
+      expect.any(Function)
+    );
+
+    const template: ResourceTemplate = server.resource.mock.calls[0][1];
+    expect(template.uriTemplate.toString()).toBe('mefs://{cid}');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  setSessionIdentity,
+  clearSessionIdentity,
+  resolveMefsConfig,
+} from '../../../../src/core/server/sessions.js';
+import { MefsConfig } from '../../../../src/core/mefs/config.js';
+
+describe('Session Identities', () => {
+  const defaultConfig: MefsConfig = {
+    apiBaseUrl: 'https://api.mefs.io:10000/produce',
+    origin: 'https://memo.io',
+    chainId: 985,
+    privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+    address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  };
+
+  const sessionConfig: MefsConfig = {
+    apiBaseUrl: 'https://api.mefs.io:10000/produce',
+    origin: 'https://memo.io',
+    chainId: 985,
+    address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  };
+
+  afterEach(() => {
+    clearSessionIdentity('session-1');
+    clearSessionIdentity('session-2');
+    clearSessionIdentity(undefined);
+  });
+
+  it('should fall back to the default identity', () => {
+    expect(resolveMefsConfig(defaultConfig, 'session-1')).toBe(defaultConfig);
+    expect(resolveMefsConfig(defaultConfig)).toBe(defaultConfig);
+  });
+
+  it('should resolve the identity bound to a session', () => {
+    setSessionIdentity('session-1', sessionConfig);
+
+    expect(resolveMefsConfig(defaultConfig, 'session-1')).toBe(sessionConfig);
+    expect(resolveMefsConfig(defaultConfig, 'session-2')).toBe(defaultConfig);
+  });
+
+  it('should bind stdio identities without a session ID', () => {
+    setSessionIdentity(undefined, sessionConfig);
+
+    expect(resolveMefsConfig(defaultConfig)).toBe(sessionConfig);
+    expect(resolveMefsConfig(defaultConfig, 'session-1')).toBe(defaultConfig);
+  });
+
+  it('should forget the identity when the session is cleared', () => {
+    setSessionIdentity('session-1', sessionConfig);
+    clearSessionIdentity('session-1');
+
+    expect(resolveMefsConfig(defaultConfig, 'session-1')).toBe(defaultConfig);
+  });
+
+  it('should require a login when there is no default identity', () => {
+    const { privateKey: _privateKey, ...withoutKey } = defaultConfig;
+
+    expect(() => resolveMefsConfig(withoutKey, 'session-1')).toThrow('No MEFS identity for this session');
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'node:path';
+import os from 'node:os';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { getCacheStatistics, getContentCache } from '../../../../../src/core/server/storage/cache.js';
+import { createLocalStorage } from '../../../../../src/core/server/storage/local.js';
+import { StorageBackend } from '../../../../../src/core/server/storage/index.js';
+import { MefsConfig } from '../../../../../src/core/mefs/config.js';
+
+describe('Content Cache', () => {
+  // CIDv1 (raw, sha2-256) of "hello world"
+  const helloCID = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+  const hello = new TextEncoder().encode('hello world');
+
+  const owner: MefsConfig = {
+    apiBaseUrl: 'https://api.mefs.io:10000/produce',
+    origin: 'https://memo.io',
+    address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  };
+
+  let storagePath: string;
+  let cachePath: string;
+  let backend: StorageBackend;
+
+  // Content files, without the index and its temporary files
+  const cachedFiles = async () =>
+    (await readdir(cachePath)).filter(name => !name.startsWith('.') && name !== 'index.json').sort();
+
+  const createCache = (options: Partial<MefsConfig> = {}) =>
+    getContentCache({ ...owner, cachePath, cacheMaxBytes: 1024, cacheMetadataTtlMs: 60000, ...options })!;
+
+  beforeEach(async () => {
+    storagePath = await mkdtemp(path.join(os.tmpdir(), 'mefs-storage-'));
+    cachePath = await mkdtemp(path.join(os.tmpdir(), 'mefs-cache-'));
+    backend = createLocalStorage(storagePath, owner);
+    vi.spyOn(backend, 'getStream');
+    vi.spyOn(backend, 'stat');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(storagePath, { recursive: true, force: true });
+    await rm(cachePath, { recursive: true, force: true });
+  });
+
+  it('should be disabled without a size cap or with local storage', () => {
+    expect(getContentCache({ ...owner, cachePath, cacheMaxBytes: 0 })).toBeUndefined();
+    expect(getContentCache({ ...owner, cachePath, cacheMaxBytes: 1024, storageBackend: 'local' })).toBeUndefined();
+  });
+
+  it('should serve retrieved files from the cache', async () => {
+    const cache = createCache();
+    const storage = cache.wrap(backend, owner);
+    await storage.put(hello, 'hello.txt');
+
+    const first = await storage.get(helloCID);
+    const second = await storage.get(helloCID);
+
+    expect(new TextDecoder().decode(second.data)).toBe('hello world');
+    expect(second).toMatchObject({ filename: first.filename, contentType: 'text/plain', totalSize: 11 });
+    expect(backend.getStream).toHaveBeenCalledTimes(1);
+    expect(cache.statistics()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5, entries: 1, bytes: 11 });
+    expect(getCacheStatistics()).toMatchObject({ hits: expect.any(Number), maxBytes: expect.any(Number) });
+
+    // The index is written next to the content
+    await vi.waitFor(async () => {
+      expect(JSON.parse(await readFile(path.join(cachePath, 'index.json'), 'utf8'))).toMatchObject([
+        { id: expect.stringMatching(new RegExp(`^${helloCID}\\.[0-9a-f]{16}$`)), cid: helloCID, size: 11, filename: 'hello.txt' },
+      ]);
+    });
+  });
+
+  it('should serve ranges from a cached file only', async () => {
+    const cache = createCache();
+    const storage = cache.wrap(backend, owner);
+    await storage.put(hello, 'hello.txt');
+
+    const uncached = await storage.getStream(helloCID, undefined, { offset: 0, length: 5 });
+    expect(await new Response(uncached.body).text()).toBe('hello');
+    expect(cache.statistics().entries).toBe(0);
+
+    await storage.get(helloCID);
+    const onProgress = vi.fn();
+    const part = await storage.getStream(helloCID, undefined, { offset: 6, length: 3, onProgress });
+
+    expect(await new Response(part.body).text()).toBe('wor');
+    expect(part).toMatchObject({ size: 3, totalSize: 11 });
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+    expect(backend.getStream).toHaveBeenCalledTimes(2);
+    await expect(storage.get(helloCID, undefined, { maxBytes: 4 })).rejects.toMatchObject({
+      name: 'FileTooLargeError',
+      size: 11,
+    });
+  });
+
+  it('should cache files per gateway key without storing the key', async () => {
+    const cache = createCache();
+    const storage = cache.wrap(backend, owner);
+    await storage.put(hello, 'hello.txt');
+
+    await storage.get(helloCID);
+    await storage.get(helloCID, 'secret-key');
+    await storage.get(helloCID, 'secret-key');
+
+    expect(backend.getStream).toHaveBeenCalledTimes(2);
+    const files = await cachedFiles();
+    expect(files).toHaveLength(2);
+    expect(files.some(name => name.includes('secret-key'))).toBe(false);
+  });
+
+  it('should cache files per identity', async () => {
+    const cache = createCache();
+    const storage = cache.wrap(backend, owner);
+    await storage.put(hello, 'hello.txt');
+    await storage.get(helloCID);
+
+    // Another wallet gets no cached copy, the backend decides whether it may read the file
+    const other = cache.wrap(backend, { ...owner, address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' });
+    await other.stat(helloCID);
+    await other.get(helloCID);
+
+    expect(backend.getStream).toHaveBeenCalledTimes(2);
+    expect(backend.stat).toHaveBeenCalledTimes(1);
+    expect(cache.statistics()).toMatchObject({ hits: 0, misses: 2, entries: 2 });
+  });
+
+  it('should evict the least recently used files beyond the size cap', async () => {
+    const cache = createCache({ cacheMaxBytes: 25 });
+    const storage = cache.wrap(backend, owner);
+    const { Mid: thereCID } = await storage.put(new TextEncoder().encode('hello there'), 'there.txt');
+    const { Mid: againCID } = await storage.put(new TextEncoder().encode('hello again'), 'again.txt');
+    await storage.put(hello, 'hello.txt');
+
+    await storage.get(helloCID);
+    await storage.get(thereCID);
+    await storage.get(helloCID);
+    await storage.get(againCID);
+
+    expect(cache.statistics()).toMatchObject({ evictions: 1, entries: 2, bytes: 22 });
+    expect((await cachedFiles()).map(name => name.split('.')[0])).toEqual([againCID, helloCID].sort());
+  });
+
+  it('should not cache files larger than the size cap', async () => {
+    const cache = createCache({ cacheMaxBytes: 8 });
+    const storage = cache.wrap(backend, owner);
+    await storage.put(hello, 'hello.txt');
+
+    await storage.get(helloCID);
+
+    expect(cache.statistics()).toMatchObject({ entries: 0, bytes: 0 });
+  });
+
+  it('should revalidate the metadata after the TTL', async () => {
+    const cache = createCache({ cacheMetadataTtlMs: 1000 });
+    const storage = cache.wrap(backend, owner);
+    await storage.put(hello, 'hello.txt');
+    await storage.get(helloCID);
+
+    await storage.stat(helloCID);
+    expect(backend.stat).not.toHaveBeenCalled();
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 2000);
+    await expect(storage.stat(helloCID)).resolves.toEqual({ filename: 'hello.txt', contentType: 'text/plain', size: 11 });
+    expect(backend.stat).toHaveBeenCalledTimes(1);
+
+    // A file deleted on the backend is evicted
+    await backend.delete(helloCID);
+    vi.setSystemTime(Date.now() + 2000);
+    await expect(storage.get(helloCID)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(cache.statistics().entries).toBe(0);
+  });
+
+  it('should evict single files and the whole cache', async () => {
+    const cache = createCache();
+    const storage = cache.wrap(backend, owner);
+    const { Mid: thereCID } = await storage.put(new TextEncoder().encode('hello there'), 'there.txt');
+    await storage.put(hello, 'hello.txt');
+    await storage.get(helloCID);
+    await storage.get(helloCID, 'secret-key');
+    await storage.get(thereCID);
+
+    await expect(cache.evict(owner, helloCID)).resolves.toEqual({ evicted: 2, bytes: 22 });
+    await expect(cache.evict(owner, 'not-a-cid')).resolves.toEqual({ evicted: 0, bytes: 0 });
+    await expect(cache.evict(owner)).resolves.toEqual({ evicted: 1, bytes: 11 });
+    expect(cache.statistics()).toMatchObject({ entries: 0, bytes: 0 });
+  });
+
+  it('should only evict the files of the given identity', async () => {
+    const cache = createCache();
+    const other = { ...owner, address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' };
+    await cache.wrap(backend, owner).put(hello, 'hello.txt');
+    await cache.wrap(backend, owner).get(helloCID);
+    await cache.wrap(backend, other).get(helloCID);
+
+    await expect(cache.evict(other)).resolves.toEqual({ evicted: 1, bytes: 11 });
+    await expect(cache.evict(other, helloCID)).resolves.toEqual({ evicted: 0, bytes: 0 });
+
+    await cache.wrap(backend, owner).get(helloCID);
+    expect(cache.statistics()).toMatchObject({ hits: 1, entries: 1 });
+  });
+
+  it('should verify a copy cached without verification before serving it as verified', async () => {
+    const cache = createCache();
+    const storage = cache.wrap(backend, owner);
+    await storage.put(hello, 'hello.txt');
+    await storage.get(helloCID);
+
+    // A copy that was tampered with on disk is downloaded again
+    const [name] = await cachedFiles();
+    await writeFile(path.join(cachePath, name), 'hello there');
+    expect(new TextDecoder().decode((await storage.get(helloCID)).data)).toBe('hello there');
+
+    const verified = await storage.get(helloCID, undefined, { public: true });
+    expect(new TextDecoder().decode(verified.data)).toBe('hello world');
+    expect(backend.getStream).toHaveBeenCalledTimes(2);
+
+    // The verified copy is served from the cache from now on
+    await storage.get(helloCID, undefined, { public: true });
+    expect(backend.getStream).toHaveBeenCalledTimes(2);
+    await vi.waitFor(async () => {
+      expect(JSON.parse(await readFile(path.join(cachePath, 'index.json'), 'utf8'))).toMatchObject([
+        { cid: helloCID, verified: true },
+      ]);
+    });
+  });
+
+  it('should drop cached copies of deleted files', async () => {
+    const cache = createCache();
+    const storage = cache.wrap(backend, owner);
+    await storage.put(hello, 'hello.txt');
+    await storage.get(helloCID);
+
+    await storage.delete(helloCID);
+
+    expect(cache.statistics().entries).toBe(0);
+    await expect(storage.get(helloCID)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
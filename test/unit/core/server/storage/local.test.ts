@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'node:path';
+import os from 'node:os';
+import { Blob } from 'node:buffer';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { createStorageBackend } from '../../../../../src/core/server/storage/index.js';
+import { createLocalStorage } from '../../../../../src/core/server/storage/local.js';
+import { MefsConfig } from '../../../../../src/core/mefs/config.js';
+
+describe('Local Storage Backend', () => {
+  // CIDv1 (raw, sha2-256) of "hello world"
+  const helloCID = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+  const hello = new TextEncoder().encode('hello world');
+
+  const owner: MefsConfig = {
+    apiBaseUrl: 'https://api.mefs.io:10000/produce',
+    origin: 'https://memo.io',
+    address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  };
+
+  let rootPath: string;
+
+  beforeEach(async () => {
+    rootPath = await mkdtemp(path.join(os.tmpdir(), 'mefs-storage-'));
+  });
+
+  afterEach(async () => {
+    await rm(rootPath, { recursive: true, force: true });
+  });
+
+  it('should be selected by the configuration', async () => {
+    const storage = createStorageBackend({ ...owner, storageBackend: 'local', localStoragePath: rootPath }, owner);
+
+    await expect(storage.put(hello, 'hello.txt')).resolves.toEqual({ Mid: helloCID });
+    expect(await readdir(path.join(rootPath, owner.address!.toLowerCase()))).toEqual([helloCID, `${helloCID}.json`]);
+  });
+
+  it('should store files under the CID of their content', async () => {
+    const storage = createLocalStorage(rootPath, owner);
+    const onProgress = vi.fn();
+
+    const fromBytes = await storage.put(hello, 'hello.txt', { onProgress });
+    const fromBlob = await storage.put(new Blob([hello]), 'copy.txt');
+
+    expect(fromBytes.Mid).toBe(helloCID);
+    expect(fromBlob.Mid).toBe(helloCID);
+    expect(onProgress).toHaveBeenLastCalledWith(11, 11);
+  });
+
+  it('should read back files and ranges', async () => {
+    const storage = createLocalStorage(rootPath, owner);
+    await storage.put(hello, 'hello.txt');
+
+    const whole = await storage.get(helloCID);
+    expect(new TextDecoder().decode(whole.data)).toBe('hello world');
+    expect(whole).toMatchObject({ filename: 'hello.txt', contentType: 'text/plain', totalSize: 11 });
+
+    const part = await storage.getStream(helloCID, undefined, { offset: 6, length: 3 });
+    expect(await new Response(part.body).text()).toBe('wor');
+    expect(part).toMatchObject({ size: 3, totalSize: 11 });
+
+    await expect(storage.stat(helloCID)).resolves.toEqual({ filename: 'hello.txt', contentType: 'text/plain', size: 11 });
+  });
+
+  it('should enforce the size limit', async () => {
+    const storage = createLocalStorage(rootPath, owner);
+    await storage.put(hello, 'hello.txt');
+
+    await expect(storage.get(helloCID, undefined, { maxBytes: 4 })).rejects.toMatchObject({
+      name: 'FileTooLargeError',
+      size: 11,
+    });
+  });
+
+  it('should list and delete the files of the identity only', async () => {
+    const storage = createLocalStorage(rootPath, owner);
+    await storage.put(hello, 'hello.txt', { public: true });
+    await storage.put(new TextEncoder().encode('{}'), 'data.json');
+
+    const listed = await storage.list({ contentType: 'text/*' });
+    expect(listed).toMatchObject({ total: 1, files: [{ cid: helloCID, filename: 'hello.txt', size: 11, public: true }] });
+    expect((await createLocalStorage(rootPath, { ...owner, address: undefined }).list()).total).toBe(0);
+
+    await storage.delete(helloCID);
+    expect((await storage.list()).total).toBe(1);
+    await expect(storage.get(helloCID)).rejects.toMatchObject({ name: 'NotFoundError', code: 'NOT_FOUND' });
+  });
+
+  it('should reject invalid CIDs', async () => {
+    const storage = createLocalStorage(rootPath, owner);
+
+    await expect(storage.stat('../../etc/passwd')).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+  });
+});
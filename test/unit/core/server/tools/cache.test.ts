@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { evictCacheTool } from '../../../../../src/core/server/tools/cache.js';
+import { ContentCache, getContentCache } from '../../../../../src/core/server/storage/cache.js';
+import { createLocalStorage } from '../../../../../src/core/server/storage/local.js';
+import { MefsConfig } from '../../../../../src/core/mefs/config.js';
+
+describe('Evict Cache Tool', () => {
+  const hello = new TextEncoder().encode('hello world');
+
+  let tempDir: string;
+  let mockMefsConfig: MefsConfig;
+  let cache: ContentCache;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-cache-'));
+    mockMefsConfig = {
+      apiBaseUrl: 'https://api.mefs.io:10000/produce',
+      origin: 'https://memo.io',
+      privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+      address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      cachePath: path.join(tempDir, 'cache'),
+      cacheMaxBytes: 1024,
+    };
+    cache = getContentCache(mockMefsConfig)!;
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should evict a cached file', async () => {
+    const storage = cache.wrap(createLocalStorage(path.join(tempDir, 'storage'), mockMefsConfig), mockMefsConfig);
+    const { Mid: cid } = await storage.put(hello, 'hello.txt');
+    await storage.get(cid);
+
+    const tool = evictCacheTool(cache, mockMefsConfig);
+    const result = await tool.handler({ cid });
+
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      evicted: 1,
+      bytes: 11,
+      cache: { entries: 0, bytes: 0, misses: 1 },
+    });
+  });
+
+  it('should empty the cache', async () => {
+    const tool = evictCacheTool(cache, mockMefsConfig);
+    const result = await tool.handler({ all: true });
+
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ evicted: 0, bytes: 0 });
+  });
+
+  it('should require a CID or all', async () => {
+    const tool = evictCacheTool(cache, mockMefsConfig);
+    const result = await tool.handler({});
+
+    expect(result.content[0]).toHaveProperty('error', true);
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ code: 'INTERNAL_ERROR' });
+  });
+});
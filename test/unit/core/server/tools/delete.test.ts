@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { deleteTool } from '../../../../../src/core/server/tools/delete.js';
+import { deleteFile, listFiles } from '../../../../../src/core/mefs/client.js';
+import { getAuthTokens, MefsConfig } from '../../../../../src/core/mefs/config.js';
+import { clearCatalog, listObjects, recordObject } from '../../../../../src/core/server/catalog.js';
+import { AuthError } from '../../../../../src/core/mefs/errors.js';
+
+// Mock MEFS client and config
+vi.mock('../../../../../src/core/mefs/client.js', () => ({
+  deleteFile: vi.fn(),
+  listFiles: vi.fn(),
+}));
+
+vi.mock('../../../../../src/core/mefs/config.js', () => {
+  const getAuthTokens = vi.fn();
+  return {
+    getAuthTokens,
+    withAuthTokens: vi.fn(async (config: any, operation: any) => {
+      const tokens = await getAuthTokens(config);
+      return operation({ apiBaseUrl: config.apiBaseUrl, accessToken: tokens.accessToken });
+    }),
+    MefsConfig: {},
+  };
+});
+
+describe('Delete Tool', () => {
+  const mockDeleteFile = vi.mocked(deleteFile);
+  const mockListFiles = vi.mocked(listFiles);
+  const mockGetAuthTokens = vi.mocked(getAuthTokens);
+
+  const mockMefsConfig: MefsConfig = {
+    apiBaseUrl: 'https://api.mefs.io:10000/produce',
+    origin: 'https://memo.io',
+    chainId: 985,
+    privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+    address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  };
+
+  const privateFile = {
+    cid: 'cid-private',
+    filename: 'scratch.txt',
+    size: 10,
+    public: false,
+  };
+  const publicFile = {
+    cid: 'cid-public',
+    filename: 'shared.pdf',
+    size: 20,
+    public: true,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    clearCatalog();
+
+    mockGetAuthTokens.mockResolvedValue({
+      accessToken: 'mock-access-token',
+      refreshToken: 'mock-refresh-token',
+    });
+    mockListFiles.mockResolvedValue({ files: [privateFile, publicFile], total: 2 });
+    mockDeleteFile.mockResolvedValue(undefined);
+  });
+
+  it('should delete a file of the account', async () => {
+    recordObject(mockMefsConfig, { cid: privateFile.cid, filename: privateFile.filename });
+
+    const tool = deleteTool(mockMefsConfig);
+    const result = await tool.handler({ cid: privateFile.cid });
+
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      cid: privateFile.cid,
+      filename: privateFile.filename,
+      size: privateFile.size,
+      public: false,
+      deleted: true,
+      dryRun: false,
+    });
+    expect(mockDeleteFile).toHaveBeenCalledWith(
+      expect.objectContaining({ accessToken: 'mock-access-token' }),
+      privateFile.cid
+    );
+    expect(listObjects(mockMefsConfig)).toEqual([]);
+  });
+
+  it('should not delete anything in dry-run mode', async () => {
+    const tool = deleteTool(mockMefsConfig);
+    const result = await tool.handler({ cid: publicFile.cid, dryRun: true });
+
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      cid: publicFile.cid,
+      public: true,
+      deleted: false,
+      dryRun: true,
+    });
+    expect(mockDeleteFile).not.toHaveBeenCalled();
+  });
+
+  it('should require confirmation for public files', async () => {
+    const tool = deleteTool(mockMefsConfig);
+
+    const result = await tool.handler({ cid: publicFile.cid });
+    expect(result.content[0]).toHaveProperty('error', true);
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      code: 'INVALID_REQUEST',
+      message: expect.stringContaining('Set confirm to true'),
+    });
+    expect(mockDeleteFile).not.toHaveBeenCalled();
+
+    await tool.handler({ cid: publicFile.cid, confirm: true });
+    expect(mockDeleteFile).toHaveBeenCalledWith(expect.any(Object), publicFile.cid);
+  });
+
+  it('should refuse to delete files of other accounts', async () => {
+    const tool = deleteTool(mockMefsConfig);
+    const result = await tool.handler({ cid: 'cid-of-someone-else' });
+
+    expect(result.content[0]).toHaveProperty('error', true);
+    const errorData = JSON.parse(result.content[0].text);
+    expect(errorData.message).toContain('is not stored by account');
+    expect(errorData.message).toContain(mockMefsConfig.address);
+    expect(errorData).toMatchObject({ name: 'NotFoundError', code: 'NOT_FOUND' });
+    expect(mockDeleteFile).not.toHaveBeenCalled();
+  });
+
+  it('should abort the requests when the call is cancelled', async () => {
+    const controller = new AbortController();
+
+    const tool = deleteTool(mockMefsConfig);
+    await tool.handler({ cid: privateFile.cid }, { signal: controller.signal } as any);
+
+    expect(mockListFiles).toHaveBeenCalledWith(expect.objectContaining({ signal: controller.signal }), undefined);
+    expect(mockDeleteFile).toHaveBeenCalledWith(expect.objectContaining({ signal: controller.signal }), privateFile.cid);
+  });
+
+  it('should report deletes cancelled by the client', async () => {
+    const controller = new AbortController();
+    mockDeleteFile.mockImplementation(async () => {
+      controller.abort();
+      throw new DOMException('This operation was aborted', 'AbortError');
+    });
+
+    const tool = deleteTool(mockMefsConfig);
+    const result = await tool.handler({ cid: privateFile.cid }, { signal: controller.signal } as any);
+
+    expect(result.content[0]).toHaveProperty('error', true);
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      name: 'CancelledError',
+      code: 'CANCELLED',
+      cancelled: true,
+    });
+  });
+
+  it('should handle delete errors', async () => {
+    mockDeleteFile.mockRejectedValue(new Error('Failed to delete file: cid-private belongs to another account'));
+
+    const tool = deleteTool(mockMefsConfig);
+    const result = await tool.handler({ cid: privateFile.cid });
+
+    expect(result.content[0]).toHaveProperty('error', true);
+    expect(JSON.parse(result.content[0].text).message).toContain('belongs to another account');
+  });
+
+  it('should report a stable error code', async () => {
+    mockDeleteFile.mockRejectedValue(new AuthError('Failed to delete file: cid-private belongs to another account', 403));
+
+    const tool = deleteTool(mockMefsConfig);
+    const result = await tool.handler({ cid: privateFile.cid });
+
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ name: 'AuthError', code: 'AUTH_FAILED' });
+  });
+
+  it('should report unexpected errors as internal errors', async () => {
+    mockDeleteFile.mockRejectedValue(new Error('boom'));
+
+    const tool = deleteTool(mockMefsConfig);
+    const result = await tool.handler({ cid: privateFile.cid });
+
+    expect(JSON.parse(result.content[0].text).code).toBe('INTERNAL_ERROR');
+  });
+});
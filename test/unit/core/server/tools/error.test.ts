@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { toolError } from '../../../../../src/core/server/tools/error.js';
+import { FileTooLargeError, IntegrityError, NotFoundError } from '../../../../../src/core/mefs/errors.js';
+
+describe('Tool Error', () => {
+  const parse = (result: ReturnType<typeof toolError>) => JSON.parse(result.content[0].text);
+
+  it('should report the name, code, message and cause', () => {
+    const result = toolError(new NotFoundError('File not found: cid', 404, { cause: new Error('gone') }));
+
+    expect(result.content[0]).toHaveProperty('error', true);
+    expect(parse(result)).toEqual({
+      name: 'NotFoundError',
+      code: 'NOT_FOUND',
+      message: 'File not found: cid',
+      cause: 'gone',
+    });
+  });
+
+  it('should report the details of typed errors', () => {
+    expect(parse(toolError(new FileTooLargeError(10, 20)))).toMatchObject({ code: 'FILE_TOO_LARGE', limit: 10, size: 20 });
+    expect(parse(toolError(new IntegrityError('bafy-expected', 'bafy-actual')))).toMatchObject({
+      code: 'INTEGRITY_ERROR',
+      expected: 'bafy-expected',
+      actual: 'bafy-actual',
+    });
+  });
+
+  it('should report calls cancelled by the client as cancelled', () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = toolError(new Error('This operation was aborted'), { signal: controller.signal } as any);
+
+    expect(parse(result)).toMatchObject({
+      name: 'CancelledError',
+      code: 'CANCELLED',
+      cause: 'This operation was aborted',
+      cancelled: true,
+    });
+  });
+
+  it('should add the given details and handle non-errors', () => {
+    expect(parse(toolError('boom', undefined, { apiBaseUrl: 'https://api.mefs.io' }))).toEqual({
+      name: 'Error',
+      code: 'INTERNAL_ERROR',
+      message: 'Unknown error',
+      cause: null,
+      apiBaseUrl: 'https://api.mefs.io',
+    });
+  });
+});
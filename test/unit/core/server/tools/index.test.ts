@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
 import { registerTools } from '../../../../../src/core/server/tools/index.js';
 import { MefsConfig } from '../../../../../src/core/mefs/config.js';
+import { McpServerConfig } from '../../../../../src/core/server/types.js';
 
 describe('Tool Registration', () => {
   const mockMefsConfig: MefsConfig = {
@@ -11,6 +12,16 @@ describe('Tool Registration', () => {
     address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
   };
 
+  const mockMcpConfig: McpServerConfig = {
+    port: 3001,
+    host: 'localhost',
+    connectionTimeoutMs: 30000,
+    transportMode: 'sse',
+    maxFileSizeBytes: 1024 * 1024 * 10, // 10MB
+    endpoint: '/',
+    allowedRoots: ['/data'],
+  };
+
   it('should register all tools with the server', () => {
     // Mock the server
     const server = {
@@ -18,10 +29,10 @@ describe('Tool Registration', () => {
     };
 
     // Register the tools
-    registerTools(mockMefsConfig, server as any);
+    registerTools(mockMefsConfig, server as any, mockMcpConfig);
 
-    // Verify that the server.tool method was called two times (once for each tool)
-    expect(server.tool).toHaveBeenCalledTimes(2);
+    // Verify that the server.tool method was called once for each tool
+    expect(server.tool).toHaveBeenCalledTimes(8);
 
     // Verify calls for each tool
     expect(server.tool).toHaveBeenCalledWith(
@@ -37,5 +48,112 @@ describe('Tool Registration', () => {
       expect.any(Object),
       expect.any(Function)
     );
+
+    expect(server.tool).toHaveBeenCalledWith(
+      'login_challenge',
+      expect.any(String),
+      expect.any(Object),
+      expect.any(Function)
+    );
+
+    expect(server.tool).toHaveBeenCalledWith(
+      'login',
+      expect.any(String),
+      expect.any(Object),
+      expect.any(Function)
+    );
+
+    expect(server.tool).toHaveBeenCalledWith(
+      'list',
+      expect.any(String),
+      expect.any(Object),
+      expect.any(Function)
+    );
+
+    expect(server.tool).toHaveBeenCalledWith(
+      'delete',
+      expect.any(String),
+      expect.any(Object),
+      expect.any(Function)
+    );
+
+    expect(server.tool).toHaveBeenCalledWith(
+      'stat',
+      expect.any(String),
+      expect.any(Object),
+      expect.any(Function)
+    );
+
+    expect(server.tool).toHaveBeenCalledWith(
+      'share',
+      expect.any(String),
+      expect.any(Object),
+      expect.any(Function)
+    );
+  });
+
+  it('should not register the login tools for the sessionless REST transport', () => {
+    const server = { tool: vi.fn() };
+    registerTools(mockMefsConfig, server as any, { ...mockMcpConfig, transportMode: 'rest' });
+
+    const names = server.tool.mock.calls.map(([name]) => name);
+    expect(names).toContain('retrieve');
+    expect(names).not.toContain('login_challenge');
+    expect(names).not.toContain('login');
+  });
+
+  it('should register local file tools only for stdio with allowed roots', () => {
+    const stdioServer = { tool: vi.fn() };
+    registerTools(mockMefsConfig, stdioServer as any, { ...mockMcpConfig, transportMode: 'stdio' });
+    expect(stdioServer.tool).toHaveBeenCalledWith(
+      'upload_path',
+      expect.any(String),
+      expect.any(Object),
+      expect.any(Function)
+    );
+
+    const noRootsServer = { tool: vi.fn() };
+    registerTools(mockMefsConfig, noRootsServer as any, {
+      ...mockMcpConfig,
+      transportMode: 'stdio',
+      allowedRoots: [],
+    });
+    expect(noRootsServer.tool).not.toHaveBeenCalledWith(
+      'upload_path',
+      expect.any(String),
+      expect.any(Object),
+      expect.any(Function)
+    );
+  });
+
+  it('should register the key vault tools when a vault is configured', () => {
+    const server = { tool: vi.fn() };
+    registerTools({ ...mockMefsConfig, keyVaultPath: '/tmp/keys.vault' }, server as any, mockMcpConfig);
+
+    expect(server.tool).toHaveBeenCalledWith(
+      'export_keys',
+      expect.any(String),
+      expect.any(Object),
+      expect.any(Function)
+    );
+    expect(server.tool).toHaveBeenCalledWith(
+      'import_keys',
+      expect.any(String),
+      expect.any(Object),
+      expect.any(Function)
+    );
+
+    const noVaultServer = { tool: vi.fn() };
+    registerTools(
+      { ...mockMefsConfig, privateKey: undefined, keyVaultPath: '/tmp/keys.vault' },
+      noVaultServer as any,
+      mockMcpConfig
+    );
+    expect(noVaultServer.tool).not.toHaveBeenCalledWith(
+      'export_keys',
+      expect.any(String),
+      expect.any(Object),
+      expect.any(Function)
+    );
   });
 });
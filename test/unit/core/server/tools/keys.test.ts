@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { exportKeysTool, importKeysTool } from '../../../../../src/core/server/tools/keys.js';
+import { getKeyVault, KeyVault, lookupKeys, saveKeys } from '../../../../../src/core/mefs/vault.js';
+import { MefsConfig } from '../../../../../src/core/mefs/config.js';
+
+describe('Key Vault Tools', () => {
+  let tempDir: string;
+  let mockMefsConfig: MefsConfig;
+  let vault: KeyVault;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-keys-'));
+    mockMefsConfig = {
+      apiBaseUrl: 'https://api.mefs.io:10000/produce',
+      origin: 'https://memo.io',
+      chainId: 985,
+      privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+      address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      keyVaultPath: path.join(tempDir, 'keys.vault'),
+    };
+    vault = getKeyVault(mockMefsConfig)!;
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should export stored keys and report missing ones', async () => {
+    await saveKeys(vault, mockMefsConfig, { 'cid-1': { keyHandle: 'mefs-key-v1:abc' } });
+
+    const tool = exportKeysTool(mockMefsConfig, vault);
+    const result = await tool.handler({ cids: ['cid-1', 'cid-2'] });
+
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      keys: [{ cid: 'cid-1', keyHandle: 'mefs-key-v1:abc' }],
+      missing: ['cid-2'],
+    });
+  });
+
+  it('should import keys into the vault', async () => {
+    const tool = importKeysTool(mockMefsConfig, vault);
+    const result = await tool.handler({
+      keys: [
+        { cid: 'cid-1', key: 'gateway-key' },
+        { cid: 'cid-2', keyHandle: 'mefs-key-v1:abc' },
+      ],
+    });
+
+    expect(JSON.parse(result.content[0].text)).toEqual({ imported: ['cid-1', 'cid-2'] });
+    expect(await lookupKeys(vault, mockMefsConfig, ['cid-1', 'cid-2'])).toEqual({
+      'cid-1': { key: 'gateway-key' },
+      'cid-2': { keyHandle: 'mefs-key-v1:abc' },
+    });
+  });
+
+  it('should require a key or key handle for each imported entry', () => {
+    const schema = importKeysTool(mockMefsConfig, vault).inputSchema;
+
+    expect(schema.safeParse({ keys: [{ cid: 'cid-1' }] }).success).toBe(false);
+    expect(schema.safeParse({ keys: [] }).success).toBe(false);
+  });
+
+  it('should handle vault errors', async () => {
+    await saveKeys(vault, mockMefsConfig, { 'cid-1': { key: 'gateway-key' } });
+    const otherVault = { ...vault, key: new Uint8Array(32) };
+
+    const tool = exportKeysTool(mockMefsConfig, otherVault);
+    const result = await tool.handler({ cids: ['cid-1'] });
+
+    expect(result.content[0]).toHaveProperty('error', true);
+    expect(JSON.parse(result.content[0].text).message).toContain('Failed to open key vault');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { listTool } from '../../../../../src/core/server/tools/list.js';
+import { listFiles } from '../../../../../src/core/mefs/client.js';
+import { getAuthTokens, MefsConfig } from '../../../../../src/core/mefs/config.js';
+import { clearCatalog, listObjects } from '../../../../../src/core/server/catalog.js';
+
+// Mock MEFS client and config
+vi.mock('../../../../../src/core/mefs/client.js', () => ({
+  listFiles: vi.fn(),
+}));
+
+vi.mock('../../../../../src/core/mefs/config.js', () => {
+  const getAuthTokens = vi.fn();
+  return {
+    getAuthTokens,
+    withAuthTokens: vi.fn(async (config: any, operation: any) => {
+      const tokens = await getAuthTokens(config);
+      return operation({ apiBaseUrl: config.apiBaseUrl, accessToken: tokens.accessToken });
+    }),
+    MefsConfig: {},
+  };
+});
+
+describe('List Tool', () => {
+  const mockListFiles = vi.mocked(listFiles);
+  const mockGetAuthTokens = vi.mocked(getAuthTokens);
+
+  const mockMefsConfig: MefsConfig = {
+    apiBaseUrl: 'https://api.mefs.io:10000/produce',
+    origin: 'https://memo.io',
+    chainId: 985,
+    privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+    address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  };
+
+  const file = {
+    cid: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
+    filename: 'report.pdf',
+    size: 1024,
+    contentType: 'application/pdf',
+    public: false,
+    uploadedAt: '2024-05-01T12:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    clearCatalog();
+
+    mockGetAuthTokens.mockResolvedValue({
+      accessToken: 'mock-access-token',
+      refreshToken: 'mock-refresh-token',
+    });
+    mockListFiles.mockResolvedValue({ files: [file], total: 1 });
+  });
+
+  it('should list files with the default page size', async () => {
+    const tool = listTool(mockMefsConfig);
+    const result = await tool.handler({});
+
+    const resultData = JSON.parse(result.content[0].text);
+    expect(resultData).toEqual({ files: [file], total: 1 });
+    expect(mockListFiles).toHaveBeenCalledWith(
+      expect.objectContaining({ accessToken: 'mock-access-token' }),
+      expect.objectContaining({ offset: undefined, limit: 100 })
+    );
+  });
+
+  it('should pass filters and pagination to the client', async () => {
+    const tool = listTool(mockMefsConfig);
+    await tool.handler({
+      prefix: 'reports/',
+      contentType: 'application/*',
+      since: '2024-01-01',
+      until: '2024-12-31T23:59:59Z',
+      offset: 20,
+      limit: 10,
+    });
+
+    expect(mockListFiles).toHaveBeenCalledWith(expect.any(Object), {
+      prefix: 'reports/',
+      contentType: 'application/*',
+      since: new Date('2024-01-01'),
+      until: new Date('2024-12-31T23:59:59Z'),
+      offset: 20,
+      limit: 10,
+    });
+  });
+
+  it('should record listed files for the resource list', async () => {
+    const tool = listTool(mockMefsConfig);
+    await tool.handler({});
+
+    expect(listObjects(mockMefsConfig)).toEqual([
+      { cid: file.cid, filename: file.filename, contentType: file.contentType, size: file.size },
+    ]);
+  });
+
+  it('should reject invalid dates and page sizes', () => {
+    const schema = listTool(mockMefsConfig).inputSchema;
+
+    expect(schema.safeParse({ since: 'yesterday' }).success).toBe(false);
+    expect(schema.safeParse({ limit: 0 }).success).toBe(false);
+    expect(schema.safeParse({ limit: 1001 }).success).toBe(false);
+    expect(schema.safeParse({ offset: -1 }).success).toBe(false);
+  });
+
+  it('should handle listing errors', async () => {
+    mockListFiles.mockRejectedValue(new Error('Failed to list files: 500 Internal Server Error'));
+
+    const tool = listTool(mockMefsConfig);
+    const result = await tool.handler({});
+
+    expect(result.content[0]).toHaveProperty('error', true);
+    const errorData = JSON.parse(result.content[0].text);
+    expect(errorData.message).toContain('Failed to list files');
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { loginChallengeTool, loginTool } from '../../../../../src/core/server/tools/login.js';
+import { getChallenge, login, recoverSigner } from '../../../../../src/core/mefs/auth.js';
+import { setAuthTokens, MefsConfig } from '../../../../../src/core/mefs/config.js';
+import { resolveMefsConfig, clearSessionIdentity } from '../../../../../src/core/server/sessions.js';
+
+// Mock MEFS auth and config
+vi.mock('../../../../../src/core/mefs/auth.js', () => ({
+  getChallenge: vi.fn(),
+  login: vi.fn(),
+  recoverSigner: vi.fn(),
+}));
+
+vi.mock('../../../../../src/core/mefs/config.js', () => ({
+  setAuthTokens: vi.fn(),
+  MefsConfig: {},
+}));
+
+describe('Login Tools', () => {
+  const mockGetChallenge = vi.mocked(getChallenge);
+  const mockLogin = vi.mocked(login);
+  const mockRecoverSigner = vi.mocked(recoverSigner);
+  const mockSetAuthTokens = vi.mocked(setAuthTokens);
+
+  const mockMefsConfig: MefsConfig = {
+    apiBaseUrl: 'https://api.mefs.io:10000/produce',
+    origin: 'https://memo.io',
+    chainId: 985,
+    privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+    address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  };
+
+  const userAddress = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    clearSessionIdentity('session-1');
+    vi.restoreAllMocks();
+  });
+
+  describe('login_challenge', () => {
+    it('should return the challenge for the given address', async () => {
+      mockGetChallenge.mockResolvedValue('challenge message');
+
+      const tool = loginChallengeTool(mockMefsConfig);
+      const result = await tool.handler({ address: userAddress });
+
+      const resultData = JSON.parse(result.content[0].text);
+      expect(resultData).toEqual({ address: userAddress, message: 'challenge message' });
+      expect(mockGetChallenge).toHaveBeenCalledWith(
+        expect.objectContaining({
+          apiBaseUrl: mockMefsConfig.apiBaseUrl,
+          address: userAddress,
+          chainId: 985,
+        })
+      );
+    });
+
+    it('should reject invalid addresses', () => {
+      const tool = loginChallengeTool(mockMefsConfig);
+      expect(tool.inputSchema.safeParse({ address: '0x1234' }).success).toBe(false);
+    });
+
+    it('should handle challenge errors', async () => {
+      mockGetChallenge.mockRejectedValue(new Error('Failed to get challenge'));
+
+      const tool = loginChallengeTool(mockMefsConfig);
+      const result = await tool.handler({ address: userAddress });
+
+      expect(result.content[0]).toHaveProperty('error', true);
+    });
+  });
+
+  describe('login', () => {
+    const signature = '0x' + 'a'.repeat(130);
+
+    it('should bind the signer identity to the session', async () => {
+      mockRecoverSigner.mockReturnValue(userAddress);
+      mockLogin.mockResolvedValue({
+        accessToken: 'user-access-token',
+        refreshToken: 'user-refresh-token',
+        newAccount: false,
+      });
+
+      const tool = loginTool(mockMefsConfig);
+      const result = await tool.handler(
+        { message: 'challenge message', signature },
+        { sessionId: 'session-1' } as any
+      );
+
+      const resultData = JSON.parse(result.content[0].text);
+      expect(resultData).toEqual({ address: userAddress, newAccount: false });
+
+      expect(mockLogin).toHaveBeenCalledWith(mockMefsConfig, 'challenge message', signature);
+      expect(mockSetAuthTokens).toHaveBeenCalledWith(
+        expect.objectContaining({ address: userAddress }),
+        { accessToken: 'user-access-token', refreshToken: 'user-refresh-token' }
+      );
+
+      const sessionConfig = resolveMefsConfig(mockMefsConfig, 'session-1');
+      expect(sessionConfig.address).toBe(userAddress);
+      expect(sessionConfig.privateKey).toBeUndefined();
+      expect(resolveMefsConfig(mockMefsConfig, 'session-2')).toBe(mockMefsConfig);
+    });
+
+    it('should reject invalid signatures', async () => {
+      mockRecoverSigner.mockImplementation(() => {
+        throw new Error('Invalid signature: bad');
+      });
+
+      const tool = loginTool(mockMefsConfig);
+      const result = await tool.handler({ message: 'challenge message', signature });
+
+      expect(result.content[0]).toHaveProperty('error', true);
+      const errorData = JSON.parse(result.content[0].text);
+      expect(errorData.message).toContain('Invalid signature');
+      expect(mockLogin).not.toHaveBeenCalled();
+    });
+
+    it('should reject logins without a session on HTTP transports', async () => {
+      mockRecoverSigner.mockReturnValue(userAddress);
+
+      const tool = loginTool(mockMefsConfig, {
+        port: 3001,
+        host: 'localhost',
+        connectionTimeoutMs: 30000,
+        transportMode: 'rest',
+        maxFileSizeBytes: 1024,
+      });
+      const result = await tool.handler({ message: 'challenge message', signature }, {} as any);
+
+      expect(result.content[0]).toHaveProperty('error', true);
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ code: 'INVALID_REQUEST' });
+      expect(mockLogin).not.toHaveBeenCalled();
+      expect(resolveMefsConfig(mockMefsConfig)).toBe(mockMefsConfig);
+    });
+
+    it('should handle login errors', async () => {
+      mockRecoverSigner.mockReturnValue(userAddress);
+      mockLogin.mockRejectedValue(new Error('Failed to login: 401 Unauthorized'));
+
+      const tool = loginTool(mockMefsConfig);
+      const result = await tool.handler({ message: 'challenge message', signature });
+
+      expect(result.content[0]).toHaveProperty('error', true);
+      expect(mockSetAuthTokens).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,17 +1,37 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import path from 'node:path';
+import os from 'node:os';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { ReadableStream } from 'node:stream/web';
 import { retrieveTool } from '../../../../../src/core/server/tools/retrieve.js';
-import { downloadFile } from '../../../../../src/core/mefs/client.js';
+import { downloadFile, downloadFileStream } from '../../../../../src/core/mefs/client.js';
 import { getAuthTokens, MefsConfig } from '../../../../../src/core/mefs/config.js';
+import { FileTooLargeError } from '../../../../../src/core/mefs/errors.js';
+import { encodeKeyHandle, encryptData, generateFileKey } from '../../../../../src/core/mefs/crypto.js';
+import { getKeyVault, saveKeys } from '../../../../../src/core/mefs/vault.js';
+import { createShareToken, getPublicKey } from '../../../../../src/core/mefs/share.js';
+import { McpServerConfig } from '../../../../../src/core/server/types.js';
 
 // Mock MEFS client and config
 vi.mock('../../../../../src/core/mefs/client.js', () => ({
   downloadFile: vi.fn(),
+  downloadFileStream: vi.fn(),
 }));
 
-vi.mock('../../../../../src/core/mefs/config.js', () => ({
-  getAuthTokens: vi.fn(),
-  MefsConfig: {},
-}));
+vi.mock('../../../../../src/core/mefs/config.js', () => {
+  const getAuthTokens = vi.fn();
+  return {
+    getAuthTokens,
+    withAuthTokens: vi.fn(async (config: any, operation: any) => {
+      const tokens = await getAuthTokens(config);
+      return operation({ apiBaseUrl: config.apiBaseUrl, accessToken: tokens.accessToken });
+    }),
+    MefsConfig: {},
+  };
+});
+
+// Content blocks are a union, only text blocks carry the JSON payload
+const parseText = (block: { text?: string }) => JSON.parse(block.text ?? '');
 
 describe('Retrieve Tool', () => {
   const mockDownloadFile = vi.mocked(downloadFile);
@@ -36,7 +56,6 @@ describe('Retrieve Tool', () => {
   it('should retrieve file successfully by CID', async () => {
     const testCID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
     const testFileContent = new Uint8Array([116, 101, 115, 116]); // "test" in bytes
-    const testBase64 = Buffer.from(testFileContent).toString('base64');
 
     // Mock authentication tokens
     mockGetAuthTokens.mockResolvedValue({
@@ -55,12 +74,14 @@ describe('Retrieve Tool', () => {
     const result = await tool.handler({ cid: testCID });
 
     expect(result.content[0]).toHaveProperty('text');
-    const resultData = JSON.parse(result.content[0].text);
-    expect(resultData.cid).toBe(testCID);
-    expect(resultData.file).toBe(testBase64);
-    expect(resultData.filename).toBe('test-file.txt');
-    expect(resultData.size).toBe(testFileContent.length);
-    expect(resultData.contentType).toBe('text/plain');
+    const resultData = parseText(result.content[0]);
+    expect(resultData).toEqual({
+      cid: testCID,
+      filename: 'test-file.txt',
+      size: testFileContent.length,
+      contentType: 'text/plain',
+    });
+    expect(result.content[1]).toEqual({ type: 'text', text: 'test' });
 
     expect(mockGetAuthTokens).toHaveBeenCalledWith(mockMefsConfig);
     expect(mockDownloadFile).toHaveBeenCalledWith(
@@ -69,7 +90,8 @@ describe('Retrieve Tool', () => {
         accessToken: 'mock-access-token',
       }),
       testCID,
-      undefined
+      undefined,
+      { maxBytes: undefined }
     );
   });
 
@@ -93,15 +115,327 @@ describe('Retrieve Tool', () => {
     const result = await tool.handler({ cid: testCID, key: testKey });
 
     expect(result.content[0]).toHaveProperty('text');
-    const resultData = JSON.parse(result.content[0].text);
+    const resultData = parseText(result.content[0]);
     expect(resultData.cid).toBe(testCID);
     expect(resultData.filename).toBe('encrypted-file.txt');
+    expect(result.content[1]).toEqual({
+      type: 'resource',
+      resource: {
+        uri: `mefs://${testCID}`,
+        mimeType: 'application/octet-stream',
+        blob: Buffer.from(testFileContent).toString('base64'),
+      },
+    });
 
     expect(mockDownloadFile).toHaveBeenCalledWith(
       expect.any(Object),
       testCID,
-      testKey
+      testKey,
+      { maxBytes: undefined }
+    );
+  });
+
+  it('should ask for public files to be checked against their CID', async () => {
+    const testCID = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+    mockGetAuthTokens.mockResolvedValue({
+      accessToken: 'mock-access-token',
+      refreshToken: 'mock-refresh-token',
+    });
+    mockDownloadFile.mockResolvedValue({
+      data: new TextEncoder().encode('hello world'),
+      filename: 'hello.txt',
+      contentType: 'text/plain',
+    });
+
+    const tool = retrieveTool(mockMefsConfig);
+    await tool.handler({ cid: testCID, public: true });
+
+    expect(mockDownloadFile).toHaveBeenCalledWith(expect.any(Object), testCID, undefined, {
+      maxBytes: undefined,
+      public: true,
+    });
+  });
+
+  describe('Native Content', () => {
+    const testCID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+    const binary = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0xff]);
+
+    const retrieve = async (download: { data: Uint8Array; filename: string; contentType?: string }) => {
+      mockGetAuthTokens.mockResolvedValue({
+        accessToken: 'mock-access-token',
+        refreshToken: 'mock-refresh-token',
+      });
+      mockDownloadFile.mockResolvedValue(download);
+
+      const result = await retrieveTool(mockMefsConfig).handler({ cid: testCID });
+      expect(parseText(result.content[0])).toMatchObject({ cid: testCID, size: download.data.length });
+      return result.content[1];
+    };
+
+    it('should return images as image content', async () => {
+      const content = await retrieve({ data: binary, filename: 'photo.png', contentType: 'image/png' });
+
+      expect(content).toEqual({
+        type: 'image',
+        data: Buffer.from(binary).toString('base64'),
+        mimeType: 'image/png',
+      });
+    });
+
+    it('should return audio as audio content', async () => {
+      const content = await retrieve({ data: binary, filename: 'song.mp3', contentType: 'audio/mpeg' });
+
+      expect(content).toEqual({
+        type: 'audio',
+        data: Buffer.from(binary).toString('base64'),
+        mimeType: 'audio/mpeg',
+      });
+    });
+
+    it('should decode JSON as text and ignore content type parameters', async () => {
+      const content = await retrieve({
+        data: new TextEncoder().encode('{"ok":true}'),
+        filename: 'data.json',
+        contentType: 'application/json; charset=utf-8',
+      });
+
+      expect(content).toEqual({ type: 'text', text: '{"ok":true}' });
+    });
+
+    it('should return invalid UTF-8 text as a resource blob', async () => {
+      const content = await retrieve({ data: binary, filename: 'broken.txt', contentType: 'text/plain' });
+
+      expect(content).toMatchObject({ type: 'resource', resource: { mimeType: 'text/plain' } });
+    });
+
+    it('should detect the type from the filename when the gateway sends none', async () => {
+      const content = await retrieve({ data: binary, filename: 'photo.jpg' });
+
+      expect(content).toMatchObject({ type: 'image', mimeType: 'image/jpeg' });
+    });
+  });
+
+  it('should send progress notifications when the client asks for them', async () => {
+    const testCID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+    mockGetAuthTokens.mockResolvedValue({
+      accessToken: 'mock-access-token',
+      refreshToken: 'mock-refresh-token',
+    });
+    mockDownloadFile.mockImplementation(async (_config, _cid, _key, options) => {
+      options?.onProgress?.(6, 11);
+      options?.onProgress?.(11, 11);
+      return { data: new TextEncoder().encode('hello world'), filename: 'test.txt', contentType: 'text/plain' };
+    });
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+
+    const tool = retrieveTool(mockMefsConfig);
+    await tool.handler({ cid: testCID }, { _meta: { progressToken: 'retrieve-1' }, sendNotification } as any);
+
+    expect(sendNotification.mock.calls.map(([notification]) => notification.params)).toEqual([
+      { progressToken: 'retrieve-1', progress: 6, total: 11 },
+      { progressToken: 'retrieve-1', progress: 11, total: 11 },
+    ]);
+  });
+
+  it('should abort the download and report cancelled requests', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const testCID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+    const controller = new AbortController();
+    mockGetAuthTokens.mockResolvedValue({
+      accessToken: 'mock-access-token',
+      refreshToken: 'mock-refresh-token',
+    });
+    mockDownloadFile.mockImplementation(async () => {
+      controller.abort();
+      throw new DOMException('This operation was aborted', 'AbortError');
+    });
+
+    const tool = retrieveTool(mockMefsConfig);
+    const result = await tool.handler({ cid: testCID }, { signal: controller.signal } as any);
+
+    expect(mockDownloadFile).toHaveBeenCalledWith(
+      expect.objectContaining({ signal: controller.signal }),
+      testCID,
+      undefined,
+      expect.any(Object)
     );
+    expect(result.content[0]).toHaveProperty('error', true);
+    expect(parseText(result.content[0])).toMatchObject({
+      name: 'CancelledError',
+      message: 'The request was cancelled by the client',
+      cause: 'This operation was aborted',
+      cancelled: true,
+    });
+  });
+
+  describe('Partial Retrieval', () => {
+    const testCID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+
+    beforeEach(() => {
+      mockGetAuthTokens.mockResolvedValue({
+        accessToken: 'mock-access-token',
+        refreshToken: 'mock-refresh-token',
+      });
+    });
+
+    it('should return the requested slice with the total size', async () => {
+      // "é" is two bytes in UTF-8, the slice ends in the middle of it
+      mockDownloadFile.mockResolvedValue({
+        data: new TextEncoder().encode('id,café').subarray(0, 7),
+        filename: 'data.csv',
+        contentType: 'text/csv',
+        totalSize: 4096,
+      });
+
+      const tool = retrieveTool(mockMefsConfig);
+      const result = await tool.handler({ cid: testCID, length: 7 });
+
+      expect(mockDownloadFile).toHaveBeenCalledWith(expect.any(Object), testCID, undefined, {
+        maxBytes: undefined,
+        offset: undefined,
+        length: 7,
+      });
+      expect(parseText(result.content[0])).toMatchObject({ size: 7, offset: 0, totalSize: 4096 });
+      expect(result.content[1]).toEqual({ type: 'text', text: 'id,caf\uFFFD' });
+    });
+
+    it('should return slices of images as a resource', async () => {
+      mockDownloadFile.mockResolvedValue({
+        data: new Uint8Array([0x4e, 0x47]),
+        filename: 'photo.png',
+        contentType: 'image/png',
+        totalSize: 5,
+      });
+
+      const tool = retrieveTool(mockMefsConfig);
+      const result = await tool.handler({ cid: testCID, offset: 2, length: 2 });
+
+      expect(parseText(result.content[0])).toMatchObject({ size: 2, offset: 2, totalSize: 5 });
+      expect(result.content[1]).toMatchObject({ type: 'resource', resource: { mimeType: 'image/png' } });
+    });
+
+    it('should reject ranges of end-to-end encrypted files before downloading', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const tool = retrieveTool(mockMefsConfig);
+      const result = await tool.handler({ cid: testCID, keyHandle: encodeKeyHandle(generateFileKey()), offset: 10 });
+
+      expect(parseText(result.content[0]).message).toBe(
+        'offset and length cannot be used with end-to-end encrypted files'
+      );
+      expect(mockDownloadFile).not.toHaveBeenCalled();
+    });
+
+    it('should validate offset and length', () => {
+      const tool = retrieveTool(mockMefsConfig);
+
+      expect(tool.inputSchema.safeParse({ cid: testCID, offset: -1 }).success).toBe(false);
+      expect(tool.inputSchema.safeParse({ cid: testCID, length: 0 }).success).toBe(false);
+      expect(tool.inputSchema.safeParse({ cid: testCID, offset: 0, length: 1024 }).success).toBe(true);
+    });
+  });
+
+  describe('End-to-End Encryption', () => {
+    const testCID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+    const key = generateFileKey();
+    const encrypted = encryptData(new TextEncoder().encode('secret content'), key);
+
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockGetAuthTokens.mockResolvedValue({
+        accessToken: 'mock-access-token',
+        refreshToken: 'mock-refresh-token',
+      });
+      mockDownloadFile.mockResolvedValue({
+        data: encrypted,
+        filename: 'secret.txt',
+        contentType: 'text/plain',
+      });
+    });
+
+    it('should decrypt files with their key handle', async () => {
+      const tool = retrieveTool(mockMefsConfig);
+      const result = await tool.handler({ cid: testCID, keyHandle: encodeKeyHandle(key) });
+
+      expect(parseText(result.content[0]).size).toBe('secret content'.length);
+      expect(result.content[1]).toEqual({ type: 'text', text: 'secret content' });
+    });
+
+    it('should fail with the wrong key handle', async () => {
+      const tool = retrieveTool(mockMefsConfig);
+      const result = await tool.handler({ cid: testCID, keyHandle: encodeKeyHandle(generateFileKey()) });
+
+      expect(result.content[0]).toHaveProperty('error', true);
+      expect(parseText(result.content[0]).message).toContain('wrong key or corrupted data');
+    });
+
+    it('should look up missing keys in the key vault', async () => {
+      const tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-retrieve-vault-'));
+      try {
+        const vaultConfig = { ...mockMefsConfig, keyVaultPath: path.join(tempDir, 'keys.vault') };
+        await saveKeys(getKeyVault(vaultConfig)!, vaultConfig, {
+          [testCID]: { key: 'gateway-key', keyHandle: encodeKeyHandle(key) },
+        });
+
+        const tool = retrieveTool(vaultConfig);
+        const result = await tool.handler({ cid: testCID });
+
+        expect(result.content[1]).toEqual({ type: 'text', text: 'secret content' });
+        expect(mockDownloadFile).toHaveBeenCalledWith(expect.any(Object), testCID, 'gateway-key', {
+          maxBytes: undefined,
+        });
+      } finally {
+        await rm(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should decrypt files shared with this server', async () => {
+      const shareToken = createShareToken(
+        { cid: testCID, keyHandle: encodeKeyHandle(key) },
+        getPublicKey(mockMefsConfig.privateKey!)
+      );
+
+      const tool = retrieveTool(mockMefsConfig);
+      const result = await tool.handler({ cid: testCID, shareToken });
+
+      expect(result.content[1]).toEqual({ type: 'text', text: 'secret content' });
+    });
+
+    it('should reject share tokens for another CID or another wallet', async () => {
+      const tool = retrieveTool(mockMefsConfig);
+      const publicKey = getPublicKey(mockMefsConfig.privateKey!);
+
+      const otherCid = await tool.handler({
+        cid: testCID,
+        shareToken: createShareToken({ cid: 'QmOther', keyHandle: encodeKeyHandle(key) }, publicKey),
+      });
+      expect(parseText(otherCid.content[0]).message).toBe(`The share token is for QmOther, not ${testCID}`);
+
+      const otherWallet = await tool.handler({
+        cid: testCID,
+        shareToken: createShareToken(
+          { cid: testCID, keyHandle: encodeKeyHandle(key) },
+          getPublicKey('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d')
+        ),
+      });
+      expect(parseText(otherWallet.content[0]).message).toContain('it was not shared with this wallet');
+
+      const noPrivateKey = await retrieveTool({ ...mockMefsConfig, privateKey: undefined }).handler({
+        cid: testCID,
+        shareToken: createShareToken({ cid: testCID, keyHandle: encodeKeyHandle(key) }, publicKey),
+      });
+      expect(parseText(noPrivateKey.content[0]).message).toContain('MEFS_PRIVATE_KEY');
+      expect(mockDownloadFile).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed key handles before downloading', async () => {
+      const tool = retrieveTool(mockMefsConfig);
+      const result = await tool.handler({ cid: testCID, keyHandle: 'f1d4a0b37124c3a7' });
+
+      expect(parseText(result.content[0]).message).toBe('Invalid key handle');
+      expect(mockDownloadFile).not.toHaveBeenCalled();
+    });
   });
 
   it('should handle download errors gracefully', async () => {
@@ -118,7 +452,7 @@ describe('Retrieve Tool', () => {
     const result = await tool.handler({ cid: testCID });
 
     expect(result.content[0]).toHaveProperty('error', true);
-    const errorData = JSON.parse(result.content[0].text);
+    const errorData = parseText(result.content[0]);
     expect(errorData.name).toBe('Error');
     expect(errorData.message).toBe('File not found');
   });
@@ -132,7 +466,7 @@ describe('Retrieve Tool', () => {
     const result = await tool.handler({ cid: testCID });
 
     expect(result.content[0]).toHaveProperty('error', true);
-    const errorData = JSON.parse(result.content[0].text);
+    const errorData = parseText(result.content[0]);
     expect(errorData.name).toBe('Error');
     expect(errorData.message).toBe('Authentication failed');
   });
@@ -198,7 +532,151 @@ describe('Retrieve Tool', () => {
         apiBaseUrl: 'https://custom-api.example.com',
       }),
       testCID,
-      undefined
+      undefined,
+      { maxBytes: undefined }
     );
   });
+
+  describe('Output Path', () => {
+    const mockDownloadFileStream = vi.mocked(downloadFileStream);
+    const testCID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+
+    let tempDir: string;
+    let mcpConfig: McpServerConfig;
+
+    const streamOf = (content: string) =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(content));
+          controller.close();
+        },
+      });
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-retrieve-'));
+      mcpConfig = {
+        port: 3001,
+        host: 'localhost',
+        connectionTimeoutMs: 30000,
+        transportMode: 'stdio',
+        maxFileSizeBytes: 1024 * 1024 * 10, // 10MB
+        endpoint: '/',
+        allowedRoots: [tempDir],
+      };
+
+      mockGetAuthTokens.mockResolvedValue({
+        accessToken: 'mock-access-token',
+        refreshToken: 'mock-refresh-token',
+      });
+      mockDownloadFileStream.mockResolvedValue({
+        body: streamOf('hello world') as any,
+        filename: 'hello.txt',
+        contentType: 'text/plain',
+        size: 11,
+      });
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should stream the file to disk and return only metadata', async () => {
+      const outputPath = path.join(tempDir, 'hello.txt');
+
+      const tool = retrieveTool(mockMefsConfig, mcpConfig);
+      const result = await tool.handler({ cid: testCID, outputPath });
+
+      const resultData = parseText(result.content[0]);
+      expect(resultData).toEqual({
+        cid: testCID,
+        path: expect.stringContaining('hello.txt'),
+        filename: 'hello.txt',
+        size: 11,
+        contentType: 'text/plain',
+        sha256: 'b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9',
+      });
+      expect(resultData).not.toHaveProperty('file');
+      expect(await readFile(outputPath, 'utf8')).toBe('hello world');
+      expect(mockDownloadFile).not.toHaveBeenCalled();
+    });
+
+    it('should decrypt the stream while writing it to disk', async () => {
+      const key = generateFileKey();
+      const encrypted = encryptData(new TextEncoder().encode('secret content'), key);
+      mockDownloadFileStream.mockResolvedValue({
+        body: new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(encrypted);
+            controller.close();
+          },
+        }) as any,
+        filename: 'secret.txt',
+      });
+
+      const outputPath = path.join(tempDir, 'secret.txt');
+      const tool = retrieveTool(mockMefsConfig, mcpConfig);
+      const result = await tool.handler({ cid: testCID, outputPath, keyHandle: encodeKeyHandle(key) });
+
+      expect(parseText(result.content[0]).size).toBe('secret content'.length);
+      expect(await readFile(outputPath, 'utf8')).toBe('secret content');
+    });
+
+    it('should not overwrite existing files unless requested', async () => {
+      const outputPath = path.join(tempDir, 'hello.txt');
+      await writeFile(outputPath, 'old');
+
+      const tool = retrieveTool(mockMefsConfig, mcpConfig);
+      const result = await tool.handler({ cid: testCID, outputPath });
+
+      expect(result.content[0]).toHaveProperty('error', true);
+      expect(parseText(result.content[0]).message).toContain('File already exists');
+      expect(mockDownloadFileStream).not.toHaveBeenCalled();
+
+      await tool.handler({ cid: testCID, outputPath, overwrite: true });
+      expect(await readFile(outputPath, 'utf8')).toBe('hello world');
+    });
+
+    it('should reject output paths outside the allowed directories', async () => {
+      const tool = retrieveTool(mockMefsConfig, mcpConfig);
+      const result = await tool.handler({ cid: testCID, outputPath: path.join(tempDir, '..', 'escape.txt') });
+
+      expect(result.content[0]).toHaveProperty('error', true);
+      expect(parseText(result.content[0]).message).toContain('Access denied');
+      expect(mockDownloadFileStream).not.toHaveBeenCalled();
+    });
+
+    it('should pass the size limit to the download', async () => {
+      const tool = retrieveTool(mockMefsConfig, { ...mcpConfig, maxFileSizeBytes: 1024 });
+      await tool.handler({ cid: testCID, outputPath: path.join(tempDir, 'hello.txt') });
+
+      expect(mockDownloadFileStream).toHaveBeenCalledWith(expect.any(Object), testCID, undefined, {
+        maxBytes: 1024,
+      });
+    });
+
+    it('should return the limit and observed size for oversized files', async () => {
+      mockDownloadFile.mockRejectedValue(new FileTooLargeError(1024, 4096));
+
+      const tool = retrieveTool(mockMefsConfig, { ...mcpConfig, maxFileSizeBytes: 1024 });
+      const result = await tool.handler({ cid: testCID });
+
+      expect(result.content[0]).toHaveProperty('error', true);
+      const errorData = parseText(result.content[0]);
+      expect(errorData).toMatchObject({
+        name: 'FileTooLargeError',
+        limit: 1024,
+        size: 4096,
+      });
+      expect(mockDownloadFile).toHaveBeenCalledWith(expect.any(Object), testCID, undefined, { maxBytes: 1024 });
+    });
+
+    it('should reject output paths for remote transports', async () => {
+      const tool = retrieveTool(mockMefsConfig, { ...mcpConfig, transportMode: 'sse' });
+      const result = await tool.handler({ cid: testCID, outputPath: path.join(tempDir, 'hello.txt') });
+
+      expect(result.content[0]).toHaveProperty('error', true);
+      expect(parseText(result.content[0]).message).toContain('Local file access is disabled');
+    });
+  });
 });
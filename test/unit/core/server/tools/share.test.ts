@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import path from 'node:path';
+import os from 'node:os';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { shareTool } from '../../../../../src/core/server/tools/share.js';
+import { MefsConfig } from '../../../../../src/core/mefs/config.js';
+import { getPublicKey, openShareToken } from '../../../../../src/core/mefs/share.js';
+import { getKeyVault, saveKeys } from '../../../../../src/core/mefs/vault.js';
+
+describe('Share Tool', () => {
+  const mockMefsConfig: MefsConfig = {
+    apiBaseUrl: 'https://api.mefs.io:10000/produce',
+    origin: 'https://memo.io',
+    chainId: 985,
+    privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+    address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  };
+
+  // Hardhat test account #1
+  const recipientPrivateKey = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+  const recipientPublicKey = getPublicKey(recipientPrivateKey);
+
+  const testCID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+  const keyHandle = 'mefs-key-v1:AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should create a share token only the recipient can open', async () => {
+    const tool = shareTool(mockMefsConfig);
+    const result = await tool.handler({ cid: testCID, recipientPublicKey, keyHandle });
+
+    const response = JSON.parse(result.content[0].text);
+    expect(response).toEqual({
+      cid: testCID,
+      recipient: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      shareToken: expect.stringMatching(/^mefs-share-v1:/),
+    });
+    await expect(openShareToken(response.shareToken, recipientPrivateKey)).resolves.toEqual({
+      cid: testCID,
+      key: undefined,
+      keyHandle,
+    });
+    await expect(openShareToken(response.shareToken, mockMefsConfig.privateKey!)).rejects.toThrow();
+  });
+
+  it('should look up the keys in the key vault', async () => {
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-share-vault-'));
+    try {
+      const vaultConfig = { ...mockMefsConfig, keyVaultPath: path.join(tempDir, 'keys.vault') };
+      await saveKeys(getKeyVault(vaultConfig)!, vaultConfig, { [testCID]: { key: 'gateway-key', keyHandle } });
+
+      const tool = shareTool(vaultConfig);
+      const result = await tool.handler({ cid: testCID, recipientPublicKey });
+
+      const { shareToken } = JSON.parse(result.content[0].text);
+      await expect(openShareToken(shareToken, recipientPrivateKey)).resolves.toEqual({
+        cid: testCID,
+        key: 'gateway-key',
+        keyHandle,
+      });
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should fail when no keys are known for the file', async () => {
+    const tool = shareTool(mockMefsConfig);
+    const result = await tool.handler({ cid: testCID, recipientPublicKey });
+
+    expect(result.content[0]).toHaveProperty('error', true);
+    expect(JSON.parse(result.content[0].text).message).toBe(
+      `No keys found for ${testCID}. Pass the key or keyHandle of the file.`
+    );
+  });
+
+  it('should reject invalid public keys', async () => {
+    const tool = shareTool(mockMefsConfig);
+    const result = await tool.handler({ cid: testCID, recipientPublicKey: '0x1234', keyHandle });
+
+    expect(JSON.parse(result.content[0].text).message).toBe('Invalid public key');
+    expect(tool.inputSchema.safeParse({ cid: testCID, recipientPublicKey: 'not-a-key' }).success).toBe(false);
+  });
+});
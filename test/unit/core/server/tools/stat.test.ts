@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import path from 'node:path';
+import os from 'node:os';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { statTool } from '../../../../../src/core/server/tools/stat.js';
+import { listFiles, statFile } from '../../../../../src/core/mefs/client.js';
+import { getAuthTokens, MefsConfig } from '../../../../../src/core/mefs/config.js';
+import { getKeyVault, saveKeys } from '../../../../../src/core/mefs/vault.js';
+
+// Mock MEFS client and config
+vi.mock('../../../../../src/core/mefs/client.js', () => ({
+  listFiles: vi.fn(),
+  statFile: vi.fn(),
+}));
+
+vi.mock('../../../../../src/core/mefs/config.js', () => {
+  const getAuthTokens = vi.fn();
+  return {
+    getAuthTokens,
+    withAuthTokens: vi.fn(async (config: any, operation: any) => {
+      const tokens = await getAuthTokens(config);
+      return operation({ apiBaseUrl: config.apiBaseUrl, accessToken: tokens.accessToken });
+    }),
+    MefsConfig: {},
+  };
+});
+
+describe('Stat Tool', () => {
+  const mockListFiles = vi.mocked(listFiles);
+  const mockStatFile = vi.mocked(statFile);
+  const mockGetAuthTokens = vi.mocked(getAuthTokens);
+
+  const mockMefsConfig: MefsConfig = {
+    apiBaseUrl: 'https://api.mefs.io:10000/produce',
+    origin: 'https://memo.io',
+    chainId: 985,
+    privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+    address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  };
+
+  const testCID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockGetAuthTokens.mockResolvedValue({
+      accessToken: 'mock-access-token',
+      refreshToken: 'mock-refresh-token',
+    });
+    mockStatFile.mockResolvedValue({
+      filename: 'report.pdf',
+      contentType: 'application/pdf',
+      size: 2048,
+    });
+    mockListFiles.mockResolvedValue({ files: [], total: 0 });
+  });
+
+  it('should return the metadata of files of the account', async () => {
+    mockListFiles.mockResolvedValue({
+      files: [{ cid: testCID, filename: 'report.pdf', size: 2048, public: false }],
+      total: 1,
+    });
+
+    const tool = statTool(mockMefsConfig);
+    const result = await tool.handler({ cid: testCID, key: 'secret' });
+
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      cid: testCID,
+      filename: 'report.pdf',
+      size: 2048,
+      contentType: 'application/pdf',
+      public: false,
+      encrypted: true,
+    });
+    expect(mockStatFile).toHaveBeenCalledWith(
+      expect.objectContaining({ accessToken: 'mock-access-token' }),
+      testCID,
+      'secret'
+    );
+  });
+
+  it('should report unknown public and encryption status for other files', async () => {
+    const tool = statTool(mockMefsConfig);
+    const result = await tool.handler({ cid: testCID });
+
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      filename: 'report.pdf',
+      public: null,
+      encrypted: null,
+    });
+  });
+
+  it('should report unknown public status when the account files cannot be listed', async () => {
+    mockListFiles.mockRejectedValue(new Error('Failed to list files: 503 Service Unavailable'));
+
+    const tool = statTool(mockMefsConfig);
+    const result = await tool.handler({ cid: testCID });
+
+    expect(result.content[0]).not.toHaveProperty('error');
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      filename: 'report.pdf',
+      size: 2048,
+      public: null,
+      encrypted: null,
+    });
+  });
+
+  it('should report files encrypted end-to-end as encrypted', async () => {
+    mockListFiles.mockResolvedValue({
+      files: [{ cid: testCID, filename: 'report.pdf', size: 2048, public: true }],
+      total: 1,
+    });
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-stat-vault-'));
+    try {
+      const vaultConfig = { ...mockMefsConfig, keyVaultPath: path.join(tempDir, 'keys.vault') };
+      await saveKeys(getKeyVault(vaultConfig)!, vaultConfig, { [testCID]: { keyHandle: 'key-handle' } });
+
+      const tool = statTool(vaultConfig);
+      const result = await tool.handler({ cid: testCID });
+
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ public: true, encrypted: true });
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should handle stat errors', async () => {
+    mockStatFile.mockRejectedValue(new Error('Failed to stat file: 404 Not Found - '));
+
+    const tool = statTool(mockMefsConfig);
+    const result = await tool.handler({ cid: testCID });
+
+    expect(result.content[0]).toHaveProperty('error', true);
+    expect(JSON.parse(result.content[0].text).message).toContain('Failed to stat file');
+  });
+});
@@ -1,27 +1,48 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import path from 'node:path';
+import os from 'node:os';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
 import { uploadTool } from '../../../../../src/core/server/tools/upload.js';
 import { base64ToBytes } from '../../../../../src/core/mefs/utils.js';
-import { uploadFile } from '../../../../../src/core/mefs/client.js';
+import { statFile, uploadFile, uploadFileChunked } from '../../../../../src/core/mefs/client.js';
 import { getAuthTokens } from '../../../../../src/core/mefs/config.js';
 import { MefsConfig } from '../../../../../src/core/mefs/config.js';
+import { listObjects } from '../../../../../src/core/server/catalog.js';
+import { decodeKeyHandle, decryptData } from '../../../../../src/core/mefs/crypto.js';
+import { getKeyVault, lookupKeys } from '../../../../../src/core/mefs/vault.js';
+import { NotFoundError } from '../../../../../src/core/mefs/errors.js';
 
 // Mock MEFS client and config
+// Files larger than the chunk size are uploaded in chunks
 vi.mock('../../../../../src/core/mefs/client.js', () => ({
+  DEFAULT_CHUNK_SIZE: 64,
   uploadFile: vi.fn(),
+  uploadFileChunked: vi.fn(),
+  statFile: vi.fn(),
 }));
 
-vi.mock('../../../../../src/core/mefs/config.js', () => ({
-  getAuthTokens: vi.fn(),
-  MefsConfig: {},
-}));
+vi.mock('../../../../../src/core/mefs/config.js', () => {
+  const getAuthTokens = vi.fn();
+  return {
+    getAuthTokens,
+    withAuthTokens: vi.fn(async (config: any, operation: any) => {
+      const tokens = await getAuthTokens(config);
+      return operation({ apiBaseUrl: config.apiBaseUrl, accessToken: tokens.accessToken });
+    }),
+    MefsConfig: {},
+  };
+});
 
 // Mock utils
 vi.mock('../../../../../src/core/mefs/utils.js', () => ({
   base64ToBytes: vi.fn(),
+  detectMimeType: vi.fn(() => 'text/plain'),
 }));
 
 describe('Upload Tool', () => {
   const mockUploadFile = vi.mocked(uploadFile);
+  const mockUploadFileChunked = vi.mocked(uploadFileChunked);
+  const mockStatFile = vi.mocked(statFile);
   const mockGetAuthTokens = vi.mocked(getAuthTokens);
   const mockBase64ToBytes = vi.mocked(base64ToBytes);
 
@@ -246,6 +267,248 @@ describe('Upload Tool', () => {
       const resultData = JSON.parse(result.content[0].text);
       expect(resultData.size).toBe(testContent.length);
     });
+
+    it('should encrypt the file locally when requested', async () => {
+      const tool = uploadTool(mockMefsConfig);
+      const testContent = Buffer.from('secret content');
+
+      mockBase64ToBytes.mockReturnValue(testContent);
+
+      const result = await tool.handler({
+        file: testContent.toString('base64'),
+        name: 'secret.txt',
+        encrypt: true,
+      });
+
+      const resultData = JSON.parse(result.content[0].text);
+      expect(resultData.size).toBe(testContent.length);
+      expect(resultData.keyHandle).toMatch(/^mefs-key-v1:/);
+
+      // The uploaded bytes are the ciphertext, which only the returned key handle decrypts
+      const uploaded = mockUploadFile.mock.calls[0][1] as Uint8Array;
+      expect(Buffer.from(uploaded).includes(testContent)).toBe(false);
+      const decrypted = await decryptData(uploaded, decodeKeyHandle(resultData.keyHandle));
+      expect(Buffer.from(decrypted).toString()).toBe('secret content');
+    });
+
+    it('should store the keys in the key vault', async () => {
+      const tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-upload-vault-'));
+      try {
+        const vaultConfig = { ...mockMefsConfig, keyVaultPath: path.join(tempDir, 'keys.vault') };
+        const tool = uploadTool(vaultConfig);
+        const testContent = Buffer.from('secret content');
+
+        mockBase64ToBytes.mockReturnValue(testContent);
+
+        const result = await tool.handler({
+          file: testContent.toString('base64'),
+          name: 'secret.txt',
+          key: 'gateway-key',
+          encrypt: true,
+        });
+
+        const resultData = JSON.parse(result.content[0].text);
+        expect(await lookupKeys(getKeyVault(vaultConfig)!, vaultConfig, [resultData.cid])).toEqual({
+          [resultData.cid]: { key: 'gateway-key', keyHandle: resultData.keyHandle },
+        });
+      } finally {
+        await rm(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should not return a key handle for unencrypted uploads', async () => {
+      const tool = uploadTool(mockMefsConfig);
+      const testContent = Buffer.from('test');
+
+      mockBase64ToBytes.mockReturnValue(testContent);
+
+      const result = await tool.handler({
+        file: testContent.toString('base64'),
+        name: 'test.txt',
+      });
+
+      expect(JSON.parse(result.content[0].text)).not.toHaveProperty('keyHandle');
+      expect(mockUploadFile.mock.calls[0][1]).toBe(testContent);
+    });
+
+    it('should record the uploaded file for the resource list', async () => {
+      const tool = uploadTool(mockMefsConfig);
+      const testContent = Buffer.from('test content');
+
+      mockBase64ToBytes.mockReturnValue(testContent);
+
+      await tool.handler({
+        file: testContent.toString('base64'),
+        name: 'test.txt',
+      });
+
+      expect(listObjects(mockMefsConfig)).toContainEqual({
+        cid: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
+        filename: 'test.txt',
+        contentType: 'text/plain',
+        size: testContent.length,
+      });
+    });
+  });
+
+  describe('deduplication', () => {
+    const testContent = Buffer.from('agent output');
+    const input = { file: testContent.toString('base64'), name: 'output.txt' };
+
+    let tempDir: string;
+    let dedupConfig: MefsConfig;
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-upload-index-'));
+      dedupConfig = {
+        ...mockMefsConfig,
+        uploadIndexPath: path.join(tempDir, 'uploaded.json'),
+        keyVaultPath: path.join(tempDir, 'keys.vault'),
+      };
+      mockBase64ToBytes.mockReturnValue(testContent);
+      mockStatFile.mockResolvedValue({ filename: 'output.txt', size: testContent.length });
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should return the existing CID for content uploaded before', async () => {
+      const tool = uploadTool(dedupConfig);
+
+      const first = JSON.parse((await tool.handler(input)).content[0].text);
+      const second = JSON.parse((await tool.handler({ ...input, name: 'copy.txt' })).content[0].text);
+
+      expect(first).not.toHaveProperty('deduplicated');
+      expect(second).toEqual({
+        cid: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
+        filename: 'copy.txt',
+        originalFilename: 'output.txt',
+        size: testContent.length,
+        deduplicated: true,
+      });
+      expect(mockUploadFile).toHaveBeenCalledTimes(1);
+      expect(mockStatFile).toHaveBeenCalledWith(
+        expect.any(Object),
+        'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
+        undefined
+      );
+    });
+
+    it('should upload again when forced or with other settings', async () => {
+      const tool = uploadTool(dedupConfig);
+
+      await tool.handler(input);
+      await tool.handler({ ...input, force: true });
+      await tool.handler({ ...input, public: true });
+      await tool.handler({ ...input, key: 'gateway-key' });
+
+      expect(mockUploadFile).toHaveBeenCalledTimes(4);
+      expect(mockStatFile).not.toHaveBeenCalled();
+    });
+
+    it('should upload again when the earlier upload was deleted', async () => {
+      const tool = uploadTool(dedupConfig);
+      mockStatFile.mockRejectedValue(new NotFoundError('File not found', 404));
+
+      await tool.handler(input);
+      const result = JSON.parse((await tool.handler(input)).content[0].text);
+
+      expect(result).not.toHaveProperty('deduplicated');
+      expect(mockUploadFile).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return the stored keyHandle for encrypted content', async () => {
+      const tool = uploadTool(dedupConfig);
+
+      const first = JSON.parse((await tool.handler({ ...input, encrypt: true })).content[0].text);
+      const second = JSON.parse((await tool.handler({ ...input, encrypt: true })).content[0].text);
+
+      expect(second).toMatchObject({ cid: first.cid, keyHandle: first.keyHandle, deduplicated: true });
+      expect(second).not.toHaveProperty('originalFilename');
+      expect(mockUploadFile).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('chunked upload', () => {
+    const testCID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+    const testContent = Buffer.alloc(100, 'a');
+    const session = { uploadId: 'upload-1', chunkSize: 64, uploadedChunks: [0] };
+
+    beforeEach(() => {
+      mockBase64ToBytes.mockReturnValue(testContent);
+      mockUploadFileChunked.mockResolvedValue({ Mid: testCID });
+    });
+
+    it('should upload large files in chunks', async () => {
+      const tool = uploadTool(mockMefsConfig);
+      const result = await tool.handler({
+        file: testContent.toString('base64'),
+        name: 'large.txt',
+        key: 'gateway-key',
+      });
+
+      expect(JSON.parse(result.content[0].text).cid).toBe(testCID);
+      expect(mockUploadFile).not.toHaveBeenCalled();
+      expect(mockUploadFileChunked).toHaveBeenCalledWith(
+        { apiBaseUrl: mockMefsConfig.apiBaseUrl, accessToken: 'mock-access-token' },
+        testContent,
+        'large.txt',
+        expect.objectContaining({ key: 'gateway-key', session: undefined })
+      );
+    });
+
+    it('should send progress notifications when the client asks for them', async () => {
+      mockUploadFileChunked.mockImplementation(async (_config, _file, _filename, options) => {
+        options?.onProgress?.(64, 100);
+        options?.onProgress?.(100, 100);
+        return { Mid: testCID };
+      });
+      const sendNotification = vi.fn().mockResolvedValue(undefined);
+
+      const tool = uploadTool(mockMefsConfig);
+      await tool.handler(
+        { file: testContent.toString('base64'), name: 'large.txt' },
+        { _meta: { progressToken: 'upload-1' }, sendNotification } as any
+      );
+
+      expect(sendNotification.mock.calls.map(([notification]) => notification)).toEqual([
+        { method: 'notifications/progress', params: { progressToken: 'upload-1', progress: 64, total: 100 } },
+        { method: 'notifications/progress', params: { progressToken: 'upload-1', progress: 100, total: 100 } },
+      ]);
+    });
+
+    it('should resume an interrupted upload from the journal', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-upload-journal-'));
+      try {
+        const journalConfig = { ...mockMefsConfig, uploadJournalPath: path.join(tempDir, 'uploads.json') };
+        const input = { file: testContent.toString('base64'), name: 'large.txt' };
+
+        // The first attempt fails after the first chunk
+        mockUploadFileChunked.mockImplementationOnce(async (_config, _file, _filename, options) => {
+          await options?.onSession?.(session);
+          throw new Error('fetch failed');
+        });
+        const failed = await uploadTool(journalConfig).handler(input);
+        expect(failed.content[0]).toHaveProperty('error', true);
+
+        // A new server instance picks up the session
+        const result = await uploadTool(journalConfig).handler(input);
+
+        expect(JSON.parse(result.content[0].text).cid).toBe(testCID);
+        expect(mockUploadFileChunked).toHaveBeenLastCalledWith(
+          expect.any(Object),
+          testContent,
+          'large.txt',
+          expect.objectContaining({ session })
+        );
+        const contents = JSON.parse(await readFile(journalConfig.uploadJournalPath, 'utf-8'));
+        expect(contents).toEqual({});
+      } finally {
+        await rm(tempDir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe('error handling', () => {
@@ -338,6 +601,51 @@ describe('Upload Tool', () => {
       expect(errorData.name).toBe('Error');
       expect(errorData.message).toContain('Failed to upload file');
     });
+
+    it('should report uploads cancelled by the client', async () => {
+      const controller = new AbortController();
+      mockUploadFile.mockImplementation(async () => {
+        controller.abort();
+        throw new DOMException('This operation was aborted', 'AbortError');
+      });
+
+      const tool = uploadTool(mockMefsConfig);
+      const result = await tool.handler(
+        { file: Buffer.from('test').toString('base64'), name: 'test.txt' },
+        { signal: controller.signal } as any
+      );
+
+      expect(mockUploadFile.mock.calls[0][0]).toMatchObject({ signal: controller.signal });
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ name: 'CancelledError', cancelled: true });
+    });
+
+    it('should reject files larger than the configured limit before uploading', async () => {
+      const tool = uploadTool(mockMefsConfig, {
+        port: 3001,
+        host: 'localhost',
+        connectionTimeoutMs: 30000,
+        transportMode: 'stdio',
+        maxFileSizeBytes: 4,
+      });
+      const testContent = Buffer.from('too large');
+
+      mockBase64ToBytes.mockReturnValue(testContent);
+
+      const result = await tool.handler({
+        file: testContent.toString('base64'),
+        name: 'test.txt',
+      });
+
+      expect(result.content[0]).toHaveProperty('error', true);
+      const errorData = JSON.parse(result.content[0].text);
+      expect(errorData).toMatchObject({
+        name: 'FileTooLargeError',
+        limit: 4,
+        size: testContent.length,
+      });
+      expect(mockGetAuthTokens).not.toHaveBeenCalled();
+      expect(mockUploadFile).not.toHaveBeenCalled();
+    });
   });
 
   describe('MEFS configuration', () => {
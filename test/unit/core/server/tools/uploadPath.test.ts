@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import path from 'node:path';
+import os from 'node:os';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { uploadPathTool } from '../../../../../src/core/server/tools/uploadPath.js';
+import { uploadFile } from '../../../../../src/core/mefs/client.js';
+import { getAuthTokens, MefsConfig } from '../../../../../src/core/mefs/config.js';
+import { McpServerConfig } from '../../../../../src/core/server/types.js';
+import { decodeKeyHandle, decryptData } from '../../../../../src/core/mefs/crypto.js';
+
+// Mock MEFS client and config
+vi.mock('../../../../../src/core/mefs/client.js', () => ({
+  DEFAULT_CHUNK_SIZE: 8 * 1024 * 1024,
+  uploadFile: vi.fn(),
+  uploadFileChunked: vi.fn(),
+}));
+
+vi.mock('../../../../../src/core/mefs/config.js', () => {
+  const getAuthTokens = vi.fn();
+  return {
+    getAuthTokens,
+    withAuthTokens: vi.fn(async (config: any, operation: any) => {
+      const tokens = await getAuthTokens(config);
+      return operation({ apiBaseUrl: config.apiBaseUrl, accessToken: tokens.accessToken });
+    }),
+    MefsConfig: {},
+  };
+});
+
+describe('Upload Path Tool', () => {
+  const mockUploadFile = vi.mocked(uploadFile);
+  const mockGetAuthTokens = vi.mocked(getAuthTokens);
+
+  const mockMefsConfig: MefsConfig = {
+    apiBaseUrl: 'https://api.mefs.io:10000/produce',
+    origin: 'https://memo.io',
+    chainId: 985,
+    privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+    address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  };
+
+  let tempDir: string;
+  let mcpConfig: McpServerConfig;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(path.join(os.tmpdir(), 'mefs-upload-path-'));
+    await writeFile(path.join(tempDir, 'report.json'), '{"ok":true}');
+
+    mcpConfig = {
+      port: 3001,
+      host: 'localhost',
+      connectionTimeoutMs: 30000,
+      transportMode: 'stdio',
+      maxFileSizeBytes: 1024 * 1024 * 10, // 10MB
+      endpoint: '/',
+      allowedRoots: [tempDir],
+    };
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockGetAuthTokens.mockResolvedValue({
+      accessToken: 'mock-access-token',
+      refreshToken: 'mock-refresh-token',
+    });
+    mockUploadFile.mockResolvedValue({
+      Mid: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
+    });
+  });
+
+  it('should stream a local file to MEFS', async () => {
+    const tool = uploadPathTool(mockMefsConfig, mcpConfig);
+    const result = await tool.handler({ path: path.join(tempDir, 'report.json') });
+
+    const resultData = JSON.parse(result.content[0].text);
+    expect(resultData).toEqual({
+      cid: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
+      filename: 'report.json',
+      size: 11,
+      contentType: 'application/json',
+    });
+
+    // The file is passed as a lazily read Blob rather than a byte array
+    const [apiConfig, file, filename, options] = mockUploadFile.mock.calls[0];
+    expect(apiConfig).toEqual({ apiBaseUrl: mockMefsConfig.apiBaseUrl, accessToken: 'mock-access-token' });
+    expect(file).toBeInstanceOf(Blob);
+    expect((file as Blob).size).toBe(11);
+    expect(await (file as Blob).text()).toBe('{"ok":true}');
+    expect(filename).toBe('report.json');
+    expect(options).toEqual({ key: undefined, public: undefined });
+  });
+
+  it('should use the provided name and options', async () => {
+    const tool = uploadPathTool(mockMefsConfig, mcpConfig);
+    await tool.handler({ path: path.join(tempDir, 'report.json'), name: 'renamed.txt', public: true });
+
+    expect(mockUploadFile).toHaveBeenCalledWith(expect.any(Object), expect.any(Blob), 'renamed.txt', {
+      key: undefined,
+      public: true,
+    });
+  });
+
+  it('should reject files outside the allowed roots', async () => {
+    const tool = uploadPathTool(mockMefsConfig, mcpConfig);
+    const result = await tool.handler({ path: path.join(os.tmpdir(), '..', 'etc', 'hostname') });
+
+    expect(result.content[0]).toHaveProperty('error', true);
+    expect(mockUploadFile).not.toHaveBeenCalled();
+  });
+
+  it('should reject directories', async () => {
+    const tool = uploadPathTool(mockMefsConfig, mcpConfig);
+    const result = await tool.handler({ path: tempDir });
+
+    expect(result.content[0]).toHaveProperty('error', true);
+    const errorData = JSON.parse(result.content[0].text);
+    expect(errorData.message).toContain('Not a regular file');
+  });
+
+  it('should handle upload errors', async () => {
+    mockUploadFile.mockRejectedValue(new Error('Upload failed'));
+
+    const tool = uploadPathTool(mockMefsConfig, mcpConfig);
+    const result = await tool.handler({ path: path.join(tempDir, 'report.json') });
+
+    expect(result.content[0]).toHaveProperty('error', true);
+    const errorData = JSON.parse(result.content[0].text);
+    expect(errorData.message).toBe('Upload failed');
+  });
+
+  it('should reject files larger than the configured limit', async () => {
+    const tool = uploadPathTool(mockMefsConfig, { ...mcpConfig, maxFileSizeBytes: 4 });
+    const result = await tool.handler({ path: path.join(tempDir, 'report.json') });
+
+    expect(result.content[0]).toHaveProperty('error', true);
+    const errorData = JSON.parse(result.content[0].text);
+    expect(errorData).toMatchObject({
+      name: 'FileTooLargeError',
+      limit: 4,
+      size: 11,
+    });
+    expect(mockUploadFile).not.toHaveBeenCalled();
+  });
+
+  it('should encrypt the file locally when requested', async () => {
+    const tool = uploadPathTool(mockMefsConfig, mcpConfig);
+    const result = await tool.handler({ path: path.join(tempDir, 'report.json'), encrypt: true });
+
+    const resultData = JSON.parse(result.content[0].text);
+    const uploaded = mockUploadFile.mock.calls[0][1] as Uint8Array;
+    const decrypted = await decryptData(uploaded, decodeKeyHandle(resultData.keyHandle));
+    expect(Buffer.from(decrypted).toString()).toBe('{"ok":true}');
+  });
+});
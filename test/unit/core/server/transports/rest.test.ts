@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express from 'express';
+import { RestServerTransport } from '@chatmcp/sdk/server/rest.js';
+import { startRestTransport } from '../../../../../src/core/server/transports/rest.js';
+import { getCacheStatistics } from '../../../../../src/core/server/storage/cache.js';
+import { McpServerConfig } from '../../../../../src/core/server/types.js';
+
+// Mock dependencies
+vi.mock('express');
+vi.mock('@chatmcp/sdk/server/rest.js');
+vi.mock('@modelcontextprotocol/sdk/server/mcp.js');
+vi.mock('../../../../../src/core/server/storage/cache.js');
+
+describe('REST Transport', () => {
+  let mockApp: any;
+  let mockServer: any;
+  let mockConfig: McpServerConfig;
+  let mockHttpServer: any;
+  let mockTransport: any;
+
+  const findHandler = (calls: any[][], path: string) => {
+    const call = calls.find(c => c[0] === path)!;
+    return call[call.length - 1];
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockApp = {
+      use: vi.fn(),
+      get: vi.fn(),
+      post: vi.fn(),
+      options: vi.fn(),
+      listen: vi.fn(),
+    };
+
+    mockServer = {
+      connect: vi.fn().mockResolvedValue(undefined),
+    };
+
+    mockConfig = {
+      host: '127.0.0.1',
+      port: 3000,
+      connectionTimeoutMs: 5000,
+      transportMode: 'rest',
+      maxFileSizeBytes: 1024 * 1024 * 10, // 10MB
+      endpoint: '/rest',
+    };
+
+    mockHttpServer = {
+      timeout: 0,
+    };
+
+    mockTransport = {
+      handleRequest: vi.fn().mockResolvedValue(undefined),
+    };
+
+    (express as any).mockReturnValue(mockApp);
+    (express.json as any).mockReturnValue(vi.fn());
+    (RestServerTransport as any).mockImplementation(function () {
+      return mockTransport;
+    });
+    mockApp.listen.mockReturnValue(mockHttpServer);
+  });
+
+  it('should initialize REST transport with correct configuration', async () => {
+    await startRestTransport(mockServer, mockConfig);
+
+    expect(express).toHaveBeenCalled();
+    expect(mockApp.use).toHaveBeenCalledWith(expect.any(Function));
+
+    expect(mockApp.post).toHaveBeenCalledWith('/rest', expect.any(Function), expect.any(Function));
+    expect(mockApp.get).toHaveBeenCalledWith('/health', expect.any(Function));
+    expect(mockApp.get).toHaveBeenCalledWith('/', expect.any(Function));
+
+    expect(mockApp.listen).toHaveBeenCalledWith(mockConfig.port, mockConfig.host, expect.any(Function));
+    expect(mockHttpServer.timeout).toBe(mockConfig.connectionTimeoutMs);
+  });
+
+  it('should connect the MCP server to a single REST transport', async () => {
+    await startRestTransport(mockServer, mockConfig);
+
+    expect(RestServerTransport).toHaveBeenCalledTimes(1);
+    expect(RestServerTransport).toHaveBeenCalledWith({ endpoint: '/rest', port: 3000 });
+    expect(mockServer.connect).toHaveBeenCalledWith(mockTransport);
+  });
+
+  it('should serve the configured endpoint', async () => {
+    await startRestTransport(mockServer, { ...mockConfig, endpoint: '/custom' });
+
+    expect(mockApp.post).toHaveBeenCalledWith('/custom', expect.any(Function), expect.any(Function));
+  });
+
+  it('should pass parsed JSON-RPC requests to the transport', async () => {
+    await startRestTransport(mockServer, mockConfig);
+    const restHandler = findHandler(mockApp.post.mock.calls, '/rest');
+
+    const mockRequest = { body: { jsonrpc: '2.0', id: 1, method: 'tools/list' } };
+    const mockResponse = { status: vi.fn().mockReturnThis(), json: vi.fn() };
+
+    await restHandler(mockRequest, mockResponse);
+
+    expect(mockTransport.handleRequest).toHaveBeenCalledWith(
+      mockRequest,
+      mockResponse,
+      mockRequest.body
+    );
+  });
+
+  it('should return a JSON-RPC error when the transport throws', async () => {
+    mockTransport.handleRequest.mockRejectedValue(new Error('boom'));
+
+    await startRestTransport(mockServer, mockConfig);
+    const restHandler = findHandler(mockApp.post.mock.calls, '/rest');
+
+    const mockRequest = { body: { jsonrpc: '2.0', id: 7, method: 'tools/list' } };
+    const mockResponse = { headersSent: false, status: vi.fn().mockReturnThis(), json: vi.fn() };
+
+    await restHandler(mockRequest, mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(500);
+    expect(mockResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 7,
+        error: expect.objectContaining({
+          code: -32000,
+          message: expect.stringContaining('boom'),
+        }),
+      })
+    );
+  });
+
+  it('should handle health check requests', async () => {
+    await startRestTransport(mockServer, mockConfig);
+    const healthHandler = findHandler(mockApp.get.mock.calls, '/health');
+
+    const mockResponse = { json: vi.fn(), status: vi.fn().mockReturnThis() };
+    healthHandler({}, mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    expect(mockResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'ok',
+        server: 'initialized',
+        activeConnections: 0,
+        connectedSessionIds: [],
+      })
+    );
+  });
+
+  it('should report cache statistics on the health check', async () => {
+    const cache = { hits: 3, misses: 1, hitRate: 0.75, evictions: 0, entries: 1, bytes: 11, maxBytes: 1024 };
+    (getCacheStatistics as any).mockReturnValue(cache);
+
+    await startRestTransport(mockServer, mockConfig);
+    const healthHandler = findHandler(mockApp.get.mock.calls, '/health');
+
+    const mockResponse = { json: vi.fn(), status: vi.fn().mockReturnThis() };
+    healthHandler({}, mockResponse);
+
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ status: 'ok', cache }));
+  });
+
+  it('should handle root endpoint requests', async () => {
+    await startRestTransport(mockServer, mockConfig);
+    const rootHandler = findHandler(mockApp.get.mock.calls, '/');
+
+    const mockResponse = { json: vi.fn(), status: vi.fn().mockReturnThis() };
+    rootHandler({}, mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    expect(mockResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'MCP Server',
+        version: '1.0.0',
+        endpoints: {
+          rest: '/rest',
+          health: '/health',
+        },
+      })
+    );
+  });
+});
@@ -13,6 +13,7 @@ describe('SSE Transport', () => {
   let mockApp: any;
   let mockRouter: any;
   let mockServer: any;
+  const createServer = vi.fn(() => mockServer);
   let mockConfig: McpServerConfig;
   let mockHttpServer: any;
 
@@ -66,7 +67,7 @@ describe('SSE Transport', () => {
   });
 
   it('should initialize SSE transport with correct configuration', async () => {
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
 
     // Verify express app was created
     expect(express).toHaveBeenCalled();
@@ -81,7 +82,7 @@ describe('SSE Transport', () => {
     expect(mockApp.get).toHaveBeenCalledWith('/', expect.any(Function));
 
     // Verify server was started with correct config
-    expect(mockApp.listen).toHaveBeenCalledWith(mockConfig.port, expect.any(Function));
+    expect(mockApp.listen).toHaveBeenCalledWith(mockConfig.port, mockConfig.host, expect.any(Function));
 
     // Verify timeout was set
     expect(mockHttpServer.timeout).toBe(mockConfig.connectionTimeoutMs);
@@ -102,7 +103,7 @@ describe('SSE Transport', () => {
     };
 
     // Get the SSE endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const sseHandler = mockApp.get.mock.calls.find(
       (call: [string, Function]) => call[0] === '/sse'
     )[1];
@@ -136,7 +137,7 @@ describe('SSE Transport', () => {
     };
 
     // Get the messages endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const messageHandler = mockApp.post.mock.calls.find(
       (call: [string, Function]) => call[0] === '/messages'
     )[1];
@@ -152,7 +153,7 @@ describe('SSE Transport', () => {
     };
 
     // Get the health endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const healthHandler = mockApp.get.mock.calls.find(
       (call: [string, Function]) => call[0] === '/health'
     )[1];
@@ -177,7 +178,7 @@ describe('SSE Transport', () => {
     };
 
     // Get the root endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const rootHandler = mockApp.get.mock.calls.find(
       (call: [string, Function]) => call[0] === '/'
     )[1];
@@ -244,7 +245,7 @@ describe('SSE Transport', () => {
     });
 
     // Get the SSE endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const sseHandler = mockApp.get.mock.calls.find(
       (call: [string, Function]) => call[0] === '/sse'
     )[1];
@@ -283,7 +284,7 @@ describe('SSE Transport', () => {
     mockServer.connect.mockRejectedValue(new Error('Connection failed'));
 
     // Get the SSE endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const sseHandler = mockApp.get.mock.calls.find(
       (call: [string, Function]) => call[0] === '/sse'
     )[1];
@@ -325,7 +326,7 @@ describe('SSE Transport', () => {
     };
     (SSEServerTransport as any).mockImplementation(() => mockTransport);
 
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const sseHandler = mockApp.get.mock.calls.find((call: any[]) => call[0] === '/sse')[1];
 
     await sseHandler(mockRequest, mockRes);
@@ -365,7 +366,7 @@ describe('SSE Transport', () => {
     };
 
     // Get the messages endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const messageHandler = mockApp.post.mock.calls.find(
       (call: [string, Function]) => call[0] === '/messages'
     )[1];
@@ -409,7 +410,7 @@ describe('SSE Transport', () => {
     };
 
     // Get the messages endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const messageHandler = mockApp.post.mock.calls.find(
       (call: [string, Function]) => call[0] === '/messages'
     )[1];
@@ -431,7 +432,7 @@ describe('SSE Transport', () => {
     };
 
     // Get the messages endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const messageHandler = mockApp.post.mock.calls.find(
       (call: [string, Function]) => call[0] === '/messages'
     )[1];
@@ -458,7 +459,7 @@ describe('SSE Transport', () => {
     };
 
     // Get the messages endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const messageHandler = mockApp.post.mock.calls.find(
       (call: [string, Function]) => call[0] === '/messages'
     )[1];
@@ -499,7 +500,7 @@ describe('SSE Transport', () => {
     };
 
     // Get the SSE endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const sseCall = mockApp.get.mock.calls.find((call: any[]) => call[0] === '/sse');
     if (!sseCall) {
       throw new Error('SSE handler not found');
@@ -547,7 +548,7 @@ describe('SSE Transport', () => {
       },
     };
 
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
 
     // Get the OPTIONS handler
     const optionsHandler = mockApp.options.mock.calls[0][1];
@@ -589,7 +590,7 @@ describe('SSE Transport', () => {
     (SSEServerTransport as any).mockImplementation(() => mockTransport);
 
     // Start the transport and create a connection
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
 
     // Create a connection first
     const sseHandler = mockApp.get.mock.calls.find((call: any[]) => call[0] === '/sse')?.[1];
@@ -636,7 +637,7 @@ describe('SSE Transport', () => {
   });
 
   it('should configure CORS middleware correctly', async () => {
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
 
     // Verify CORS middleware was configured correctly
     expect(mockApp.use).toHaveBeenCalledWith(expect.any(Function));
@@ -710,7 +711,7 @@ describe('SSE Transport', () => {
     mockServer.connect.mockResolvedValue(undefined);
 
     // Get the SSE endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const sseHandler = mockApp.get.mock.calls.find((call: any[]) => call[0] === '/sse')?.[1];
     if (!sseHandler) {
       throw new Error('SSE handler not found');
@@ -754,7 +755,7 @@ describe('SSE Transport', () => {
     mockServer.connect.mockRejectedValue(new Error('Invalid session'));
 
     // Get the SSE endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const sseHandler = mockApp.get.mock.calls.find((call: any[]) => call[0] === '/sse')?.[1];
     if (!sseHandler) {
       throw new Error('SSE handler not found');
@@ -804,7 +805,7 @@ describe('SSE Transport', () => {
     mockServer.connect.mockResolvedValue(undefined);
 
     // Get the SSE endpoint handler
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
     const sseHandler = mockApp.get.mock.calls.find((call: any[]) => call[0] === '/sse')?.[1];
     if (!sseHandler) {
       throw new Error('SSE handler not found');
@@ -845,7 +846,7 @@ describe('SSE Transport', () => {
     (SSEServerTransport as any).mockImplementation(() => mockTransport);
 
     // Start the transport and create a connection
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
 
     // Create a connection first
     const sseHandler = mockApp.get.mock.calls.find((call: any[]) => call[0] === '/sse')?.[1];
@@ -904,7 +905,7 @@ describe('SSE Transport', () => {
     (SSEServerTransport as any).mockImplementation(() => mockTransport);
 
     // Start the transport and create a connection
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
 
     // Create a connection first
     const sseHandler = mockApp.get.mock.calls.find((call: any[]) => call[0] === '/sse')?.[1];
@@ -962,7 +963,7 @@ describe('SSE Transport', () => {
     (SSEServerTransport as any).mockImplementation(() => mockTransport);
 
     // Start the transport and create a connection
-    await startSSETransport(mockServer, mockConfig);
+    await startSSETransport(createServer, mockConfig);
 
     // Create a connection first
     const sseHandler = mockApp.get.mock.calls.find((call: any[]) => call[0] === '/sse')?.[1];
@@ -1004,7 +1005,7 @@ describe('SSE Transport', () => {
     });
 
     try {
-      await startSSETransport(mockServer, mockConfig);
+      await startSSETransport(createServer, mockConfig);
       expect.fail('Expected server initialization to fail');
     } catch (error: any) {
       expect(error.message).toContain('Server initialization failed');
@@ -1022,12 +1023,12 @@ describe('SSE Transport', () => {
     const mockError = vi.spyOn(console, 'error');
 
     // Mock app.listen to call the callback
-    mockApp.listen.mockImplementation((port: number, callback: () => void) => {
+    mockApp.listen.mockImplementation((port: number, host: string, callback: () => void) => {
       callback();
       return mockHttpServer;
     });
 
-    await startSSETransport(mockServer, customConfig);
+    await startSSETransport(createServer, customConfig);
 
     // Verify server initialization was logged
     expect(mockError).toHaveBeenCalledWith(
@@ -1045,7 +1046,7 @@ describe('SSE Transport', () => {
       connectionTimeoutMs: 10000,
     };
 
-    await startSSETransport(mockServer, customConfig);
+    await startSSETransport(createServer, customConfig);
 
     // Verify timeout was set correctly
     expect(mockHttpServer.timeout).toBe(customConfig.connectionTimeoutMs);
@@ -0,0 +1,332 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { startStreamableHTTPTransport } from '../../../../../src/core/server/transports/streamable.js';
+import { McpServerConfig } from '../../../../../src/core/server/types.js';
+
+// Mock dependencies
+vi.mock('express');
+vi.mock('@modelcontextprotocol/sdk/server/streamableHttp.js');
+vi.mock('@modelcontextprotocol/sdk/server/mcp.js');
+
+describe('Streamable HTTP Transport', () => {
+  let mockApp: any;
+  let mockServer: any;
+  const createServer = vi.fn(() => mockServer);
+  let mockConfig: McpServerConfig;
+  let mockHttpServer: any;
+  let mockTransport: any;
+  let transportOptions: any;
+
+  const initializeRequest = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-06-18',
+      capabilities: {},
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+    },
+  };
+
+  const findHandler = (calls: any[][], path: string) => {
+    const call = calls.find(c => c[0] === path)!;
+    return call[call.length - 1];
+  };
+
+  const createResponse = () => {
+    const listeners: Record<string, () => void> = {};
+    return {
+      headersSent: false,
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+      on: vi.fn((event: string, listener: () => void) => {
+        listeners[event] = listener;
+      }),
+      // Simulate the connection of the response closing
+      close: () => listeners.close?.(),
+    };
+  };
+
+  const createRequest = (body: unknown, sessionId?: string) => ({
+    body,
+    header: vi.fn((name: string) => (name === 'mcp-session-id' ? sessionId : undefined)),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockApp = {
+      use: vi.fn(),
+      get: vi.fn(),
+      post: vi.fn(),
+      delete: vi.fn(),
+      options: vi.fn(),
+      listen: vi.fn(),
+    };
+
+    mockServer = {
+      connect: vi.fn().mockResolvedValue(undefined),
+    };
+
+    mockConfig = {
+      host: 'localhost',
+      port: 3000,
+      connectionTimeoutMs: 5000,
+      transportMode: 'http',
+      maxFileSizeBytes: 1024 * 1024 * 10, // 10MB
+      endpoint: '/rest',
+    };
+
+    mockHttpServer = {
+      timeout: 0,
+    };
+
+    // Simulate the SDK assigning a session ID while handling the initialize request
+    (StreamableHTTPServerTransport as any).mockImplementation(function (options: any) {
+      transportOptions = options;
+      mockTransport = {
+        sessionId: undefined,
+        close: vi.fn(async () => mockTransport.onclose?.()),
+        handleRequest: vi.fn().mockImplementation(async () => {
+          if (!mockTransport.sessionId) {
+            mockTransport.sessionId = 'test-session';
+            await options.onsessioninitialized?.('test-session');
+          }
+        }),
+      };
+      return mockTransport;
+    });
+
+    (express as any).mockReturnValue(mockApp);
+    (express.json as any).mockReturnValue(vi.fn());
+    mockApp.listen.mockReturnValue(mockHttpServer);
+  });
+
+  it('should initialize streamable HTTP transport with correct configuration', async () => {
+    await startStreamableHTTPTransport(createServer, mockConfig);
+
+    expect(mockApp.use).toHaveBeenCalledWith(expect.any(Function));
+    expect(mockApp.post).toHaveBeenCalledWith('/mcp', expect.any(Function), expect.any(Function));
+    expect(mockApp.get).toHaveBeenCalledWith('/mcp', expect.any(Function));
+    expect(mockApp.delete).toHaveBeenCalledWith('/mcp', expect.any(Function));
+    expect(mockApp.get).toHaveBeenCalledWith('/health', expect.any(Function));
+    expect(mockApp.get).toHaveBeenCalledWith('/', expect.any(Function));
+
+    expect(mockApp.listen).toHaveBeenCalledWith(mockConfig.port, mockConfig.host, expect.any(Function));
+    expect(mockHttpServer.timeout).toBe(mockConfig.connectionTimeoutMs);
+  });
+
+  it('should create a session for initialize requests', async () => {
+    await startStreamableHTTPTransport(createServer, mockConfig);
+    const postHandler = findHandler(mockApp.post.mock.calls, '/mcp');
+
+    const req = createRequest(initializeRequest);
+    const res = createResponse();
+    await postHandler(req, res);
+
+    expect(StreamableHTTPServerTransport).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sessionIdGenerator: expect.any(Function),
+        eventStore: expect.any(Object),
+      })
+    );
+    expect(mockServer.connect).toHaveBeenCalledWith(mockTransport);
+    expect(mockTransport.handleRequest).toHaveBeenCalledWith(req, res, initializeRequest);
+
+    const healthHandler = findHandler(mockApp.get.mock.calls, '/health');
+    const healthRes = createResponse();
+    healthHandler({}, healthRes);
+    expect(healthRes.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        activeConnections: 1,
+        connectedSessionIds: ['test-session'],
+      })
+    );
+  });
+
+  it('should route follow-up requests to the existing session', async () => {
+    await startStreamableHTTPTransport(createServer, mockConfig);
+    const postHandler = findHandler(mockApp.post.mock.calls, '/mcp');
+
+    await postHandler(createRequest(initializeRequest), createResponse());
+    const sessionTransport = mockTransport;
+
+    const body = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+    const req = createRequest(body, 'test-session');
+    const res = createResponse();
+    await postHandler(req, res);
+
+    expect(StreamableHTTPServerTransport).toHaveBeenCalledTimes(1);
+    expect(createServer).toHaveBeenCalledTimes(1);
+    expect(sessionTransport.handleRequest).toHaveBeenLastCalledWith(req, res, body);
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    await startStreamableHTTPTransport(createServer, mockConfig);
+    const postHandler = findHandler(mockApp.post.mock.calls, '/mcp');
+
+    const res = createResponse();
+    await postHandler(createRequest({ jsonrpc: '2.0', id: 3, method: 'tools/list' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 3,
+        error: expect.objectContaining({
+          message: expect.stringContaining('No session ID provided'),
+        }),
+      })
+    );
+    expect(StreamableHTTPServerTransport).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown sessions', async () => {
+    await startStreamableHTTPTransport(createServer, mockConfig);
+    const postHandler = findHandler(mockApp.post.mock.calls, '/mcp');
+
+    const res = createResponse();
+    await postHandler(createRequest({ jsonrpc: '2.0', id: 4, method: 'tools/list' }, 'missing'), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: expect.objectContaining({ message: 'Session not found' }),
+      })
+    );
+  });
+
+  it('should require a session ID for GET and DELETE requests', async () => {
+    await startStreamableHTTPTransport(createServer, mockConfig);
+    const getHandler = findHandler(mockApp.get.mock.calls, '/mcp');
+    const deleteHandler = findHandler(mockApp.delete.mock.calls, '/mcp');
+
+    const getRes = createResponse();
+    await getHandler(createRequest(undefined), getRes);
+    expect(getRes.status).toHaveBeenCalledWith(400);
+
+    const deleteRes = createResponse();
+    await deleteHandler(createRequest(undefined, 'missing'), deleteRes);
+    expect(deleteRes.status).toHaveBeenCalledWith(404);
+  });
+
+  it('should remove the session when the transport closes', async () => {
+    await startStreamableHTTPTransport(createServer, mockConfig);
+    const postHandler = findHandler(mockApp.post.mock.calls, '/mcp');
+
+    await postHandler(createRequest(initializeRequest), createResponse());
+    mockTransport.onclose();
+
+    const res = createResponse();
+    await postHandler(createRequest({ jsonrpc: '2.0', id: 5, method: 'tools/list' }, 'test-session'), res);
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('should close sessions that stay idle', async () => {
+    vi.useFakeTimers();
+    try {
+      await startStreamableHTTPTransport(createServer, mockConfig);
+      const postHandler = findHandler(mockApp.post.mock.calls, '/mcp');
+
+      await postHandler(createRequest(initializeRequest), createResponse());
+
+      // A request resets the idle timer
+      await vi.advanceTimersByTimeAsync(20 * 60 * 1000);
+      const followUp = createResponse();
+      await postHandler(createRequest({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, 'test-session'), followUp);
+      followUp.close();
+      await vi.advanceTimersByTimeAsync(20 * 60 * 1000);
+      expect(mockTransport.close).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+      expect(mockTransport.close).toHaveBeenCalledTimes(1);
+
+      const res = createResponse();
+      await postHandler(createRequest({ jsonrpc: '2.0', id: 3, method: 'tools/list' }, 'test-session'), res);
+      expect(res.status).toHaveBeenCalledWith(404);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should keep sessions with an open stream', async () => {
+    vi.useFakeTimers();
+    try {
+      await startStreamableHTTPTransport(createServer, mockConfig);
+      const postHandler = findHandler(mockApp.post.mock.calls, '/mcp');
+      const getHandler = findHandler(mockApp.get.mock.calls, '/mcp');
+
+      await postHandler(createRequest(initializeRequest), createResponse());
+      const stream = createResponse();
+      await getHandler(createRequest(undefined, 'test-session'), stream);
+
+      await vi.advanceTimersByTimeAsync(2 * 60 * 60 * 1000);
+      expect(mockTransport.close).not.toHaveBeenCalled();
+
+      stream.close();
+      await vi.advanceTimersByTimeAsync(30 * 60 * 1000);
+      expect(mockTransport.close).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should cap the stored events by size', async () => {
+    await startStreamableHTTPTransport(createServer, mockConfig);
+    const postHandler = findHandler(mockApp.post.mock.calls, '/mcp');
+    await postHandler(createRequest(initializeRequest), createResponse());
+
+    const eventStore = transportOptions.eventStore;
+    const largeResult = (id: number) => ({ jsonrpc: '2.0', id, result: { data: 'x'.repeat(4 * 1024 * 1024) } });
+    const first = await eventStore.storeEvent('stream', largeResult(1));
+    const second = await eventStore.storeEvent('stream', largeResult(2));
+    const third = await eventStore.storeEvent('stream', largeResult(3));
+
+    expect(await eventStore.getStreamIdForEventId(first)).toBeUndefined();
+    expect(await eventStore.getStreamIdForEventId(second)).toBe('stream');
+
+    const send = vi.fn().mockResolvedValue(undefined);
+    await eventStore.replayEventsAfter(second, { send });
+    expect(send).toHaveBeenCalledWith(third, largeResult(3));
+  });
+
+  it('should return a JSON-RPC error when the transport throws', async () => {
+    mockServer.connect.mockRejectedValue(new Error('Connection failed'));
+
+    await startStreamableHTTPTransport(createServer, mockConfig);
+    const postHandler = findHandler(mockApp.post.mock.calls, '/mcp');
+
+    const res = createResponse();
+    await postHandler(createRequest(initializeRequest), res);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: expect.objectContaining({
+          code: -32000,
+          message: expect.stringContaining('Connection failed'),
+        }),
+      })
+    );
+  });
+
+  it('should handle root endpoint requests', async () => {
+    await startStreamableHTTPTransport(createServer, mockConfig);
+    const rootHandler = findHandler(mockApp.get.mock.calls, '/');
+
+    const res = createResponse();
+    rootHandler({}, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'MCP Server',
+        endpoints: {
+          mcp: '/mcp',
+          health: '/health',
+        },
+      })
+    );
+  });
+});